@@ -0,0 +1,5 @@
+import ApiStatus from '@/components/sections/APIStatus';
+
+export default function ApiStatusPage() {
+  return <ApiStatus />;
+}
@@ -0,0 +1,5 @@
+import BulkOperations from '@/components/sections/BulkOperations';
+
+export default function BulkOperationsPage() {
+  return <BulkOperations />;
+}
@@ -0,0 +1,5 @@
+import CampaignManagement from '@/components/sections/CampaignManagement';
+
+export default function CampaignManagementPage() {
+  return <CampaignManagement />;
+}
@@ -0,0 +1,5 @@
+import APIConsole from '@/components/sections/APIConsole';
+
+export default function ApiConsolePage() {
+  return <APIConsole />;
+}
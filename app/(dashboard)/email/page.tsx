@@ -0,0 +1,5 @@
+import EmailConfiguration from '@/components/sections/EmailConfiguration';
+
+export default function EmailConfigurationPage() {
+  return <EmailConfiguration />;
+}
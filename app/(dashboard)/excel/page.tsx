@@ -0,0 +1,5 @@
+import ExcelOperations from '@/components/sections/ExcelOperations';
+
+export default function ExcelOperationsPage() {
+  return <ExcelOperations />;
+}
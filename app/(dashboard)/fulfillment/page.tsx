@@ -0,0 +1,5 @@
+import FulfillmentConfiguration from '@/components/sections/FulfillmentConfiguration';
+
+export default function FulfillmentConfigurationPage() {
+  return <FulfillmentConfiguration />;
+}
@@ -0,0 +1,5 @@
+import GiftStatusManagement from '@/components/sections/GiftStatusManagement';
+
+export default function GiftStatusManagementPage() {
+  return <GiftStatusManagement />;
+}
@@ -0,0 +1,5 @@
+import GiftManagement from '@/components/sections/GiftManagement';
+
+export default function GiftManagementPage() {
+  return <GiftManagement />;
+}
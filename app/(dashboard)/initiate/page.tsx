@@ -0,0 +1,5 @@
+import InitiateGift from '@/components/sections/InitiateGift';
+
+export default function InitiateGiftPage() {
+  return <InitiateGift />;
+}
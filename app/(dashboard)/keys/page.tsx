@@ -0,0 +1,5 @@
+import ApiKeys from '@/components/sections/ApiKeys';
+
+export default function ApiKeysPage() {
+  return <ApiKeys />;
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import React from 'react';
+import dynamic from 'next/dynamic';
+import { AuthProvider, useAuth } from '@/contexts/AuthContext';
+import LoginPage from '@/components/LoginPage';
+import MainApp from '@/components/MainApp';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import ServerWakeBanner from '@/components/ServerWakeBanner';
+import IdleTimeoutDialog from '@/components/IdleTimeoutDialog';
+import ReauthDialog from '@/components/ReauthDialog';
+
+// Only the mock environment shows the panel, so the mock backend it drives
+// is loaded on demand instead of shipping with every page
+const MockFaultPanel = dynamic(() => import('@/components/MockFaultPanel'), { ssr: false });
+
+// Shared by every section route, so the session, sidebar and open dialogs
+// survive navigating between sections
+function AppContent({ children }: { children: React.ReactNode }) {
+  const { isLoggedIn, isLoading, environment } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <LoadingSpinner size="lg" />
+        <ServerWakeBanner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {isLoggedIn ? (
+        <>
+          <MainApp>{children}</MainApp>
+          <IdleTimeoutDialog />
+          <ReauthDialog />
+        </>
+      ) : <LoginPage />}
+      <ServerWakeBanner />
+      {environment.transport === 'mock' && <MockFaultPanel />}
+    </div>
+  );
+}
+
+export default function DashboardLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <AuthProvider>
+      <AppContent>{children}</AppContent>
+    </AuthProvider>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,5 @@
+import MockVerification from '@/components/sections/MockVerification';
+
+export default function MockVerificationPage() {
+  return <MockVerification />;
+}
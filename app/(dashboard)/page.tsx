@@ -0,0 +1,5 @@
+// The dashboard layout sends / to the first section the role can view; the
+// login page also reads ?invite= links here
+export default function DashboardHome() {
+  return null;
+}
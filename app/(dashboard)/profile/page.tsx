@@ -0,0 +1,5 @@
+import Profile from '@/components/sections/Profile';
+
+export default function ProfilePage() {
+  return <Profile />;
+}
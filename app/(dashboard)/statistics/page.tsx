@@ -0,0 +1,5 @@
+import Statistics from '@/components/sections/Statistics';
+
+export default function StatisticsPage() {
+  return <Statistics />;
+}
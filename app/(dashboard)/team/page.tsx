@@ -0,0 +1,5 @@
+import TeamManagement from '@/components/sections/TeamManagement';
+
+export default function TeamPage() {
+  return <TeamManagement />;
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_KEY_HEADER } from '@/lib/giftlibClient';
+import { ROLE_LABELS, hasPermission, requiredPermission, resolveRole } from '@/lib/permissions';
+import {
+  errorResponse,
+  getRequestEnvironment,
+  readSession,
+  resolveAccount,
+  sessionErrorResponse
+} from '@/lib/server/session';
+
+// Forwards /api/* to the session's GiftLib backend, adding the acting
+// account's API key from the encrypted session cookie. Requiring the environment header (a custom
+// header forces a CORS preflight) keeps other sites from riding the cookie.
+
+export const dynamic = 'force-dynamic';
+
+const UPSTREAM_TIMEOUT_MS = 60000;
+
+// Request headers passed through to the backend
+const FORWARDED_REQUEST_HEADERS = ['accept', 'content-type', 'idempotency-key', 'x-request-id'];
+
+// Hop-by-hop and encoding headers that must not be copied from the upstream
+// response (fetch has already decoded the body)
+const DROPPED_RESPONSE_HEADERS = ['connection', 'content-encoding', 'content-length', 'keep-alive', 'set-cookie', 'transfer-encoding'];
+
+// Helper function to decode a JSON request body for the permission check,
+// whatever content type it was labelled with
+const readJsonBody = (body: ArrayBuffer | undefined): unknown => {
+  if (!body) return null;
+  try {
+    return JSON.parse(new TextDecoder().decode(body));
+  } catch {
+    return null;
+  }
+};
+
+async function proxy(request: NextRequest, { params }: { params: { path: string[] } }) {
+  const environment = getRequestEnvironment(request);
+  if (!environment) {
+    return errorResponse(400, 'Missing or unknown environment header');
+  }
+
+  const lookup = readSession(request, environment);
+  if (lookup.status !== 'active') {
+    return sessionErrorResponse(lookup.status, environment);
+  }
+  const { session } = lookup;
+  const account = resolveAccount(request, session);
+  if (!account) {
+    return errorResponse(401, 'That account is no longer part of this session', 'unknown_account');
+  }
+
+  const hasBody = request.method !== 'GET' && request.method !== 'HEAD';
+  const body = hasBody ? await request.arrayBuffer() : undefined;
+
+  // Enforce the account's role before the request leaves the server. The
+  // body is checked too, as some requests (forced status changes) need more.
+  const role = resolveRole(account.userInfo);
+  const permission = requiredPermission(request.method, `/api/${params.path.join('/')}`, readJsonBody(body));
+  if (permission && !hasPermission(role, permission)) {
+    return errorResponse(403, `The ${ROLE_LABELS[role]} role is not allowed to do this`, 'forbidden_role');
+  }
+
+  const headers = new Headers();
+  FORWARDED_REQUEST_HEADERS.forEach(name => {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  });
+  headers.set(API_KEY_HEADER, account.apiKey);
+
+  const path = params.path.map(encodeURIComponent).join('/');
+  const url = `${session.baseUrl}/api/${path}${request.nextUrl.search}`;
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(url, {
+      method: request.method,
+      headers,
+      body,
+      cache: 'no-store',
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS)
+    });
+  } catch (error) {
+    const timedOut = (error as Error)?.name === 'TimeoutError';
+    return timedOut
+      ? errorResponse(504, 'The GiftLib backend did not respond in time')
+      : errorResponse(502, 'Unable to reach the GiftLib backend');
+  }
+
+  const responseHeaders = new Headers();
+  upstream.headers.forEach((value, name) => {
+    if (!DROPPED_RESPONSE_HEADERS.includes(name.toLowerCase())) {
+      responseHeaders.set(name, value);
+    }
+  });
+
+  return new NextResponse(upstream.body, { status: upstream.status, headers: responseHeaders });
+}
+
+export const GET = proxy;
+export const POST = proxy;
+export const PUT = proxy;
+export const PATCH = proxy;
+export const DELETE = proxy;
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ServerSession,
+  errorResponse,
+  getRequestEnvironment,
+  readSession,
+  sessionErrorResponse,
+  toSessionInfo,
+  writeSession
+} from '@/lib/server/session';
+
+export const dynamic = 'force-dynamic';
+
+// POST: lock the session after a 401 or an idle timeout. The saved accounts
+// stay sealed in the cookie; the proxy refuses requests until one of their
+// keys is entered again (POST /api/session with unlock).
+export async function POST(request: NextRequest) {
+  const environment = getRequestEnvironment(request);
+  if (!environment) {
+    return errorResponse(400, 'Missing or unknown environment header');
+  }
+
+  const lookup = readSession(request, environment);
+  if (lookup.status !== 'active' && lookup.status !== 'locked') {
+    return sessionErrorResponse(lookup.status, environment);
+  }
+
+  const locked: ServerSession = { ...lookup.session, lockedAt: lookup.session.lockedAt ?? Date.now() };
+  const response = NextResponse.json(toSessionInfo(locked));
+  writeSession(response, locked);
+  return response;
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createGiftLibClient, isApiError, staticCredentials } from '@/lib/giftlibClient';
+import { toUserInfo } from '@/lib/utils';
+import {
+  ServerSession,
+  errorResponse,
+  getRequestEnvironment,
+  parseJsonBody,
+  readSession,
+  resolveAccount,
+  sessionErrorResponse,
+  toSessionInfo,
+  updateProfileRequestSchema,
+  writeSession
+} from '@/lib/server/session';
+
+export const dynamic = 'force-dynamic';
+
+// PUT: save the acting account's profile upstream and reseal the session
+// with its new name and company, which the header and account switcher show
+export async function PUT(request: NextRequest) {
+  const environment = getRequestEnvironment(request);
+  if (!environment) {
+    return errorResponse(400, 'Missing or unknown environment header');
+  }
+
+  const lookup = readSession(request, environment);
+  if (lookup.status !== 'active') {
+    return sessionErrorResponse(lookup.status, environment);
+  }
+  const { session } = lookup;
+  const account = resolveAccount(request, session);
+  if (!account) {
+    return errorResponse(401, 'That account is no longer part of this session', 'unknown_account');
+  }
+
+  const { body, response: invalidBody } = await parseJsonBody(request, updateProfileRequestSchema);
+  if (invalidBody) {
+    return invalidBody;
+  }
+
+  try {
+    const client = createGiftLibClient({ baseUrl: session.baseUrl, credentials: staticCredentials(account.apiKey) });
+    const userInfo = toUserInfo(await client.updateUserProfile(body));
+
+    const updated: ServerSession = {
+      ...session,
+      accounts: session.accounts.map(saved => saved === account ? { ...saved, userInfo } : saved)
+    };
+    // The upstream profile carries the account's API key, so only the
+    // session's user details go back to the browser
+    const response = NextResponse.json({ profile: userInfo, session: toSessionInfo(updated) });
+    writeSession(response, updated);
+    return response;
+  } catch (error) {
+    if (isApiError(error)) {
+      return errorResponse(error.status ?? 502, error.message, error.backendCode);
+    }
+    console.error('Profile update failed:', error);
+    return errorResponse(500, 'Could not save the profile');
+  }
+}
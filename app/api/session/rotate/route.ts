@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createGiftLibClient, isApiError, staticCredentials } from '@/lib/giftlibClient';
+import { ROLE_LABELS, hasPermission, resolveRole } from '@/lib/permissions';
+import {
+  ServerSession,
+  errorResponse,
+  getRequestEnvironment,
+  readSession,
+  resolveAccount,
+  sessionErrorResponse,
+  toSessionInfo,
+  writeSession
+} from '@/lib/server/session';
+
+export const dynamic = 'force-dynamic';
+
+// POST: rotate the acting account's API key and seal the new key into the
+// session, so the dashboard keeps working without logging in again. The old
+// key stops working upstream at once; the new one is returned this one time
+// so it can be copied to other integrations.
+export async function POST(request: NextRequest) {
+  const environment = getRequestEnvironment(request);
+  if (!environment) {
+    return errorResponse(400, 'Missing or unknown environment header');
+  }
+
+  const lookup = readSession(request, environment);
+  if (lookup.status !== 'active') {
+    return sessionErrorResponse(lookup.status, environment);
+  }
+  const { session } = lookup;
+  const account = resolveAccount(request, session);
+  if (!account) {
+    return errorResponse(401, 'That account is no longer part of this session', 'unknown_account');
+  }
+
+  const role = resolveRole(account.userInfo);
+  if (!hasPermission(role, 'account:manage')) {
+    return errorResponse(403, `The ${ROLE_LABELS[role]} role is not allowed to do this`, 'forbidden_role');
+  }
+
+  try {
+    const client = createGiftLibClient({ baseUrl: session.baseUrl, credentials: staticCredentials(account.apiKey) });
+    const issued = await client.rotateApiKey();
+
+    const updated: ServerSession = {
+      ...session,
+      accounts: session.accounts.map(saved => saved === account ? { ...saved, apiKey: issued.api_key } : saved)
+    };
+    const response = NextResponse.json({ ...issued, session: toSessionInfo(updated) });
+    writeSession(response, updated);
+    return response;
+  } catch (error) {
+    if (isApiError(error)) {
+      return errorResponse(error.status ?? 502, error.message, error.backendCode);
+    }
+    console.error('API key rotation failed:', error);
+    return errorResponse(500, 'Could not rotate the API key');
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createGiftLibClient, isApiError, staticCredentials } from '@/lib/giftlibClient';
+import { toUserInfo } from '@/lib/utils';
+import {
+  MAX_SESSION_ACCOUNTS,
+  SESSION_TTL_SECONDS,
+  ServerSession,
+  clearSession,
+  createSessionRequestSchema,
+  errorResponse,
+  getRequestEnvironment,
+  parseJsonBody,
+  readSession,
+  resolveUpstreamBaseUrl,
+  sessionErrorResponse,
+  switchAccountRequestSchema,
+  toSessionInfo,
+  withAccount,
+  writeSession
+} from '@/lib/server/session';
+
+export const dynamic = 'force-dynamic';
+
+// GET: the current session for the environment (masked, no API key). A
+// locked session is returned too, so the page can show its lock dialog.
+export async function GET(request: NextRequest) {
+  const environment = getRequestEnvironment(request, request.nextUrl.searchParams.get('environment'));
+  if (!environment) {
+    return errorResponse(400, 'Unknown environment');
+  }
+
+  const lookup = readSession(request, environment);
+  if (lookup.status !== 'active' && lookup.status !== 'locked') {
+    return sessionErrorResponse(lookup.status, environment);
+  }
+  return NextResponse.json(toSessionInfo(lookup.session));
+}
+
+// POST { apiKey, environment, baseUrl?, addAccount?, unlock? }: validate the
+// key against the backend and start a session, or with addAccount save it
+// next to the session's other accounts and switch to it. With unlock, the
+// key of an account saved in a locked session unlocks it and keeps the
+// other accounts. Keys are only ever returned sealed in the cookie.
+export async function POST(request: NextRequest) {
+  const { body, response: invalidBody } = await parseJsonBody(request, createSessionRequestSchema);
+  if (invalidBody) {
+    return invalidBody;
+  }
+
+  const environment = getRequestEnvironment(request, body.environment);
+  if (!environment) {
+    return errorResponse(400, 'Unknown environment');
+  }
+  const { apiKey } = body;
+  const baseUrl = resolveUpstreamBaseUrl(environment, body.baseUrl);
+  if (!baseUrl) {
+    return errorResponse(400, 'This backend URL is not allowed by the server. Add it to GIFTLIB_PROXY_ALLOWED_ORIGINS.', 'origin_not_allowed');
+  }
+
+  const lookup = readSession(request, environment);
+  if (lookup.status === 'locked' && !body.unlock) {
+    return sessionErrorResponse(lookup.status, environment);
+  }
+  const keepsAccounts = lookup.status === 'locked' || ((body.addAccount || body.unlock) && lookup.status === 'active');
+  const existing = keepsAccounts ? lookup.session : null;
+  if (existing && existing.baseUrl !== baseUrl) {
+    return errorResponse(409, 'Saved accounts must all use the same backend URL', 'backend_mismatch');
+  }
+
+  try {
+    const client = createGiftLibClient({ baseUrl, credentials: staticCredentials(apiKey) });
+    const profile = await client.getUserProfile();
+    const now = Date.now();
+    const account = { apiKey, userInfo: toUserInfo(profile), addedAt: now };
+    if (lookup.status === 'locked' && !lookup.session.accounts.some(saved => saved.userInfo.user_id === account.userInfo.user_id)) {
+      return errorResponse(403, 'This key belongs to an account that is not saved in this session', 'unknown_account');
+    }
+
+    const session: ServerSession = existing
+      ? { ...withAccount(existing, account), lockedAt: undefined }
+      : {
+        baseUrl,
+        environment,
+        accounts: [account],
+        activeAccountId: account.userInfo.user_id,
+        issuedAt: now,
+        expiresAt: now + SESSION_TTL_SECONDS * 1000
+      };
+    if (session.accounts.length > MAX_SESSION_ACCOUNTS) {
+      return errorResponse(400, `A session can hold at most ${MAX_SESSION_ACCOUNTS} accounts`, 'too_many_accounts');
+    }
+
+    const response = NextResponse.json(toSessionInfo(session));
+    writeSession(response, session);
+    return response;
+  } catch (error) {
+    if (isApiError(error)) {
+      return errorResponse(error.status ?? 502, error.message, error.backendCode);
+    }
+    console.error('Session creation failed:', error);
+    return errorResponse(500, 'Could not start a session');
+  }
+}
+
+// PATCH { activeAccountId }: switch to another saved account
+export async function PATCH(request: NextRequest) {
+  const environment = getRequestEnvironment(request);
+  if (!environment) {
+    return errorResponse(400, 'Unknown environment');
+  }
+  const lookup = readSession(request, environment);
+  if (lookup.status !== 'active') {
+    return sessionErrorResponse(lookup.status, environment);
+  }
+
+  const { body, response: invalidBody } = await parseJsonBody(request, switchAccountRequestSchema);
+  if (invalidBody) {
+    return invalidBody;
+  }
+  const { session } = lookup;
+  if (!session.accounts.some(account => account.userInfo.user_id === body.activeAccountId)) {
+    return errorResponse(404, 'That account is not saved in this session', 'unknown_account');
+  }
+
+  const updated: ServerSession = { ...session, activeAccountId: body.activeAccountId };
+  const response = NextResponse.json(toSessionInfo(updated));
+  writeSession(response, updated);
+  return response;
+}
+
+// DELETE: log out of every account, or with ?accountId= remove one saved
+// account (returning the remaining session). Removing the last one logs out.
+export async function DELETE(request: NextRequest) {
+  const environment = getRequestEnvironment(request, request.nextUrl.searchParams.get('environment'));
+  if (!environment) {
+    return errorResponse(400, 'Unknown environment');
+  }
+
+  const accountId = request.nextUrl.searchParams.get('accountId');
+  const lookup = readSession(request, environment);
+  if (accountId && lookup.status === 'active') {
+    const { session } = lookup;
+    const accounts = session.accounts.filter(account => account.userInfo.user_id !== accountId);
+    if (accounts.length > 0) {
+      const updated: ServerSession = {
+        ...session,
+        accounts,
+        activeAccountId: session.activeAccountId === accountId ? accounts[0].userInfo.user_id : session.activeAccountId
+      };
+      const response = NextResponse.json(toSessionInfo(updated));
+      writeSession(response, updated);
+      return response;
+    }
+  }
+
+  const response = NextResponse.json({ success: true });
+  clearSession(response, environment);
+  return response;
+}
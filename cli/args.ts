@@ -0,0 +1,60 @@
+import { parseArgs, ParseArgsConfig } from 'util';
+
+export type OptionSpec = NonNullable<ParseArgsConfig['options']>;
+
+export type Flags = Record<string, string | boolean | undefined>;
+
+export interface ParsedArgs {
+  positionals: string[];
+  flags: Flags;
+}
+
+// Bad invocation; reported with the command's usage and exit code 64
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+    Object.setPrototypeOf(this, UsageError.prototype);
+  }
+}
+
+// Options every command accepts
+export const GLOBAL_OPTIONS: OptionSpec = {
+  profile: { type: 'string' },
+  help: { type: 'boolean', short: 'h' }
+};
+
+export function parseCommandArgs(argv: string[], options: OptionSpec): ParsedArgs {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      options: { ...GLOBAL_OPTIONS, ...options },
+      allowPositionals: true,
+      strict: true
+    });
+    return { positionals, flags: values as Flags };
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+export function stringFlag(flags: Flags, name: string): string | undefined {
+  const value = flags[name];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+export function requireFlag(flags: Flags, name: string): string {
+  const value = stringFlag(flags, name);
+  if (!value) {
+    throw new UsageError(`--${name} is required`);
+  }
+  return value;
+}
+
+export function requirePositional(positionals: string[], index: number, name: string): string {
+  const value = positionals[index];
+  if (!value) {
+    throw new UsageError(`Missing <${name}>`);
+  }
+  return value;
+}
@@ -0,0 +1,481 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  BulkGiftData,
+  EnvironmentId,
+  FulfillmentConfig,
+  Gift,
+  GiftDataRequest,
+  GiftSortField,
+  GiftStatus,
+  SortDirection
+} from '@/types';
+import { GiftLibClient, createGiftLibClient, staticCredentials } from '@/lib/giftlibClient';
+import { GIFT_STATUSES } from '@/lib/schemas';
+import { DEFAULT_GIFT_QUERY } from '@/lib/giftQuery';
+import { maskApiKey } from '@/lib/utils';
+import { requiresStatusReason } from '@/lib/giftStatus';
+import { Flags, OptionSpec, UsageError, requireFlag, requirePositional, stringFlag } from './args';
+import { parseFormat, printGifts, printJson, toTable } from './output';
+import { DEFAULT_PROFILE, baseUrlForEnvironment, loadConfig, resolveProfile, saveConfig } from './profiles';
+
+// Exit codes
+export const EXIT_OK = 0;
+export const EXIT_ERROR = 1;
+export const EXIT_PARTIAL_FAILURE = 2;
+export const EXIT_USAGE = 64;
+
+export interface CommandContext {
+  positionals: string[];
+  flags: Flags;
+  // Created lazily so profile commands work without credentials
+  client: () => GiftLibClient;
+}
+
+export interface Command {
+  usage: string;
+  description: string;
+  options?: OptionSpec;
+  run: (context: CommandContext) => Promise<number | void>;
+}
+
+const SORT_FIELDS: GiftSortField[] = ['created_at', 'updated_at', 'status', 'recipient_name'];
+
+export function createClient(profileName?: string): GiftLibClient {
+  const { name, profile } = resolveProfile(profileName);
+  if (!profile.apiKey) {
+    throw new UsageError(
+      `No API key for profile "${name ?? DEFAULT_PROFILE}". Run "giftlib profile add <name> --api-key <key>" or set GIFTLIB_API_KEY.`
+    );
+  }
+
+  return createGiftLibClient({
+    baseUrl: profile.baseUrl,
+    credentials: staticCredentials(profile.apiKey),
+    hooks: {
+      onRetry: ({ attempt, delayMs, coldStart }) => {
+        const reason = coldStart ? 'Backend is waking up' : 'Request failed';
+        process.stderr.write(`${reason}, retrying in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt})...\n`);
+      }
+    }
+  });
+}
+
+// Helper function to read and parse a JSON file argument
+const readJsonFile = <T>(file: string): T => {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+  } catch (error) {
+    throw new UsageError(`Could not read JSON from ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+const parseStatus = (value: string): GiftStatus => {
+  if (!GIFT_STATUSES.includes(value as GiftStatus)) {
+    throw new UsageError(`Status must be one of: ${GIFT_STATUSES.join(', ')}`);
+  }
+  return value as GiftStatus;
+};
+
+const giftFromFlags = (flags: Flags): GiftDataRequest => ({
+  recipient: {
+    fullName: requireFlag(flags, 'name'),
+    email: requireFlag(flags, 'email'),
+    phone: stringFlag(flags, 'phone') || '',
+    address: {
+      line1: requireFlag(flags, 'line1'),
+      city: requireFlag(flags, 'city'),
+      state: requireFlag(flags, 'state'),
+      zip: requireFlag(flags, 'zip'),
+      country: stringFlag(flags, 'country') || 'USA'
+    }
+  },
+  gift: {
+    type: (stringFlag(flags, 'type') || 'thank_you_card') as GiftDataRequest['gift']['type'],
+    templateId: stringFlag(flags, 'template') || 'template1',
+    message: requireFlag(flags, 'message'),
+    deliveryDate: stringFlag(flags, 'delivery-date') || ''
+  },
+  meta: {
+    campaignId: stringFlag(flags, 'campaign') || '',
+    orderSource: stringFlag(flags, 'source') || 'CLI'
+  }
+});
+
+const fulfillmentFromFlags = async (flags: Flags, client: GiftLibClient, requireAll: boolean): Promise<FulfillmentConfig> => {
+  if (requireAll) {
+    return { api_url: requireFlag(flags, 'url'), api_key: requireFlag(flags, 'key') };
+  }
+  // Testing without flags checks the saved configuration
+  const saved = stringFlag(flags, 'url') && stringFlag(flags, 'key') ? null : await client.getFulfillmentConfig();
+  return {
+    api_url: stringFlag(flags, 'url') || saved?.api_url || '',
+    api_key: stringFlag(flags, 'key') || saved?.api_key || ''
+  };
+};
+
+export const commands: Record<string, Command> = {
+  health: {
+    usage: 'giftlib health',
+    description: 'Check that the backend is reachable',
+    run: async ({ client }) => {
+      printJson(await client().healthCheck());
+    }
+  },
+
+  initiate: {
+    usage: 'giftlib initiate (--file gift.json | --name <name> --email <email> --line1 <addr> --city <city> --state <st> --zip <zip> --message <text>) [--phone] [--country] [--type] [--template] [--delivery-date] [--campaign] [--source] [--idempotency-key <key>]',
+    description: 'Send one gift, from flags or a GiftDataRequest JSON file',
+    options: {
+      file: { type: 'string', short: 'f' },
+      name: { type: 'string' },
+      email: { type: 'string' },
+      phone: { type: 'string' },
+      line1: { type: 'string' },
+      city: { type: 'string' },
+      state: { type: 'string' },
+      zip: { type: 'string' },
+      country: { type: 'string' },
+      type: { type: 'string' },
+      template: { type: 'string' },
+      message: { type: 'string' },
+      'delivery-date': { type: 'string' },
+      campaign: { type: 'string' },
+      source: { type: 'string' },
+      'idempotency-key': { type: 'string' }
+    },
+    run: async ({ flags, client }) => {
+      const file = stringFlag(flags, 'file');
+      const gift = file ? readJsonFile<GiftDataRequest>(file) : giftFromFlags(flags);
+      const result = await client().initiateGift(gift, { idempotencyKey: stringFlag(flags, 'idempotency-key') });
+      printJson(result);
+    }
+  },
+
+  bulk: {
+    usage: 'giftlib bulk <file.json> [--idempotency-key <key>]',
+    description: 'Send gifts from a BulkGiftData JSON file; exits 2 if any gift fails',
+    options: {
+      'idempotency-key': { type: 'string' }
+    },
+    run: async ({ positionals, flags, client }) => {
+      const bulk = readJsonFile<BulkGiftData>(requirePositional(positionals, 0, 'file.json'));
+      if (!Array.isArray(bulk.gifts)) {
+        throw new UsageError('Bulk file must contain a "gifts" array');
+      }
+      const result = await client().bulkInitiateGifts(bulk, { idempotencyKey: stringFlag(flags, 'idempotency-key') });
+      printJson(result);
+      if (result.failedGifts > 0) {
+        process.stderr.write(`${result.failedGifts} of ${result.totalGifts} gifts failed\n`);
+        return EXIT_PARTIAL_FAILURE;
+      }
+    }
+  },
+
+  'upload-excel': {
+    usage: 'giftlib upload-excel <file.xlsx> --campaign <id>',
+    description: 'Create gifts from an Excel file; exits 2 if any row is invalid',
+    options: {
+      campaign: { type: 'string' }
+    },
+    run: async ({ positionals, flags, client }) => {
+      const file = requirePositional(positionals, 0, 'file.xlsx');
+      const campaignId = requireFlag(flags, 'campaign');
+      const upload = new File([fs.readFileSync(file)], path.basename(file));
+      const result = await client().uploadExcelFile(upload, campaignId);
+      printJson(result);
+      if (result.invalidRows > 0) {
+        process.stderr.write(`${result.invalidRows} of ${result.totalRows} rows failed\n`);
+        return EXIT_PARTIAL_FAILURE;
+      }
+    }
+  },
+
+  'excel-template': {
+    usage: 'giftlib excel-template [--out gift_template.xlsx]',
+    description: 'Download the Excel upload template',
+    options: {
+      out: { type: 'string', short: 'o' }
+    },
+    run: async ({ flags, client }) => {
+      const out = stringFlag(flags, 'out') || 'gift_template.xlsx';
+      const template = await client().downloadExcelTemplate();
+      fs.writeFileSync(out, Buffer.from(await template.arrayBuffer()));
+      process.stderr.write(`Saved ${out}\n`);
+    }
+  },
+
+  'status get': {
+    usage: 'giftlib status get <giftId>',
+    description: 'Show the status of a gift',
+    run: async ({ positionals, client }) => {
+      printJson(await client().getGiftStatus(requirePositional(positionals, 0, 'giftId')));
+    }
+  },
+
+  'status set': {
+    usage: `giftlib status set <giftId> <${GIFT_STATUSES.join('|')}> [--notes <text>] [--force]`,
+    description: 'Change the status of a gift. --notes (the reason) is required for cancelled and failed, and with --force, '
+      + 'which lets an admin skip the allowed status transitions',
+    options: {
+      notes: { type: 'string' },
+      force: { type: 'boolean' }
+    },
+    run: async ({ positionals, flags, client }) => {
+      const giftId = requirePositional(positionals, 0, 'giftId');
+      const status = parseStatus(requirePositional(positionals, 1, 'status'));
+      const force = Boolean(flags.force);
+      const notes = stringFlag(flags, 'notes');
+      if (!notes && requiresStatusReason(status, force)) {
+        throw new UsageError(force ? '--notes is required with --force' : `--notes is required to mark a gift ${status}`);
+      }
+      printJson(await client().updateGiftStatus({ giftId, status, notes, force: force || undefined }));
+    }
+  },
+
+  verify: {
+    usage: 'giftlib verify <giftId> [--unverify]',
+    description: 'Mark a gift as verified (or unverified)',
+    options: {
+      unverify: { type: 'boolean' }
+    },
+    run: async ({ positionals, flags, client }) => {
+      const giftId = requirePositional(positionals, 0, 'giftId');
+      printJson(await client().verifyGift(giftId, !flags.unverify));
+    }
+  },
+
+  'gifts list': {
+    usage: 'giftlib gifts list [--status <status>] [--campaign <id>] [--search <text>] [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--sort <field>] [--dir asc|desc] [--page-size <n>] [--cursor <c>] [--all] [--format json|csv|table]',
+    description: 'List gifts with filters; --all follows every page',
+    options: {
+      status: { type: 'string' },
+      campaign: { type: 'string' },
+      search: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      sort: { type: 'string' },
+      dir: { type: 'string' },
+      'page-size': { type: 'string' },
+      cursor: { type: 'string' },
+      all: { type: 'boolean' },
+      format: { type: 'string' }
+    },
+    run: async ({ flags, client }) => {
+      const format = parseFormat(stringFlag(flags, 'format'));
+      const sortBy = stringFlag(flags, 'sort') as GiftSortField | undefined;
+      if (sortBy && !SORT_FIELDS.includes(sortBy)) {
+        throw new UsageError(`--sort must be one of: ${SORT_FIELDS.join(', ')}`);
+      }
+      const direction = stringFlag(flags, 'dir');
+      if (direction && direction !== 'asc' && direction !== 'desc') {
+        throw new UsageError('--dir must be asc or desc');
+      }
+      const pageSize = Number(stringFlag(flags, 'page-size') || (flags.all ? 100 : 50));
+      if (!Number.isInteger(pageSize) || pageSize <= 0) {
+        throw new UsageError('--page-size must be a positive integer');
+      }
+
+      const status = stringFlag(flags, 'status');
+      const query = {
+        ...DEFAULT_GIFT_QUERY,
+        status: status ? parseStatus(status) : undefined,
+        campaignId: stringFlag(flags, 'campaign'),
+        search: stringFlag(flags, 'search'),
+        createdFrom: stringFlag(flags, 'from'),
+        createdTo: stringFlag(flags, 'to'),
+        sortBy: sortBy ?? DEFAULT_GIFT_QUERY.sortBy,
+        sortDirection: (direction as SortDirection | undefined) ?? DEFAULT_GIFT_QUERY.sortDirection,
+        pageSize
+      };
+
+      const gifts: Gift[] = [];
+      let cursor = stringFlag(flags, 'cursor') ?? null;
+      do {
+        const page = await client().queryGifts({ ...query, cursor });
+        gifts.push(...page.gifts);
+        cursor = page.nextCursor;
+      } while (flags.all && cursor);
+
+      printGifts(gifts, format);
+      if (cursor) {
+        process.stderr.write(`More results available: --cursor ${cursor} (or --all)\n`);
+      }
+    }
+  },
+
+  'campaign show': {
+    usage: 'giftlib campaign show <campaignId> [--format json|csv|table]',
+    description: 'Show the gifts in a campaign',
+    options: {
+      format: { type: 'string' }
+    },
+    run: async ({ positionals, flags, client }) => {
+      const format = parseFormat(stringFlag(flags, 'format'));
+      const campaign = await client().getCampaignGifts(requirePositional(positionals, 0, 'campaignId'));
+      if (format === 'json') {
+        printJson(campaign);
+      } else {
+        printGifts(campaign.gifts, format);
+      }
+    }
+  },
+
+  'config email get': {
+    usage: 'giftlib config email get [--show-secrets]',
+    description: 'Show the email configuration',
+    options: {
+      'show-secrets': { type: 'boolean' }
+    },
+    run: async ({ flags, client }) => {
+      const config = await client().getEmailConfig();
+      printJson(flags['show-secrets'] ? config : { ...config, resend_api_key: maskApiKey(config.resend_api_key ?? '') });
+    }
+  },
+
+  'config email set': {
+    usage: 'giftlib config email set --resend-key <key> --from <email> [--domain <domain>]',
+    description: 'Save the email configuration',
+    options: {
+      'resend-key': { type: 'string' },
+      from: { type: 'string' },
+      domain: { type: 'string' }
+    },
+    run: async ({ flags, client }) => {
+      printJson(await client().updateEmailConfig({
+        resend_api_key: requireFlag(flags, 'resend-key'),
+        from_email: requireFlag(flags, 'from'),
+        sending_domain: stringFlag(flags, 'domain')
+      }));
+    }
+  },
+
+  'config email test': {
+    usage: 'giftlib config email test --to <email>',
+    description: 'Send a test email with the saved configuration',
+    options: {
+      to: { type: 'string' }
+    },
+    run: async ({ flags, client }) => {
+      printJson(await client().testEmailConfig(requireFlag(flags, 'to')));
+    }
+  },
+
+  'config fulfillment get': {
+    usage: 'giftlib config fulfillment get [--show-secrets]',
+    description: 'Show the fulfillment configuration',
+    options: {
+      'show-secrets': { type: 'boolean' }
+    },
+    run: async ({ flags, client }) => {
+      const config = await client().getFulfillmentConfig();
+      printJson(flags['show-secrets'] ? config : { ...config, api_key: maskApiKey(config.api_key) });
+    }
+  },
+
+  'config fulfillment set': {
+    usage: 'giftlib config fulfillment set --url <api url> --key <api key>',
+    description: 'Save the fulfillment configuration',
+    options: {
+      url: { type: 'string' },
+      key: { type: 'string' }
+    },
+    run: async ({ flags, client }) => {
+      printJson(await client().updateFulfillmentConfig(await fulfillmentFromFlags(flags, client(), true)));
+    }
+  },
+
+  'config fulfillment test': {
+    usage: 'giftlib config fulfillment test [--url <api url> --key <api key>]',
+    description: 'Test a fulfillment configuration (the saved one by default)',
+    options: {
+      url: { type: 'string' },
+      key: { type: 'string' }
+    },
+    run: async ({ flags, client }) => {
+      printJson(await client().testFulfillmentConfig(await fulfillmentFromFlags(flags, client(), false)));
+    }
+  },
+
+  'profile list': {
+    usage: 'giftlib profile list',
+    description: 'List saved profiles',
+    run: async () => {
+      const config = loadConfig();
+      const rows = Object.entries(config.profiles).map(([name, profile]) => ({
+        current: name === config.currentProfile ? '*' : '',
+        name,
+        environment: profile.environment ?? '',
+        baseUrl: profile.baseUrl,
+        apiKey: maskApiKey(profile.apiKey)
+      }));
+      if (rows.length === 0) {
+        process.stderr.write('No profiles yet. Add one with: giftlib profile add <name> --api-key <key>\n');
+        return;
+      }
+      process.stdout.write(toTable(rows, ['current', 'name', 'environment', 'baseUrl', 'apiKey']));
+    }
+  },
+
+  'profile add': {
+    usage: 'giftlib profile add <name> --api-key <key> [--env local|sandbox|staging|production | --base-url <url>] [--use]',
+    description: 'Save an API key under a profile name',
+    options: {
+      'api-key': { type: 'string' },
+      env: { type: 'string' },
+      'base-url': { type: 'string' },
+      use: { type: 'boolean' }
+    },
+    run: async ({ positionals, flags }) => {
+      const name = requirePositional(positionals, 0, 'name');
+      const environment = (stringFlag(flags, 'env') || (stringFlag(flags, 'base-url') ? undefined : 'production')) as EnvironmentId | undefined;
+      let baseUrl = stringFlag(flags, 'base-url');
+      try {
+        baseUrl = baseUrl ?? baseUrlForEnvironment(environment!);
+      } catch (error) {
+        throw new UsageError(error instanceof Error ? error.message : String(error));
+      }
+
+      const config = loadConfig();
+      config.profiles[name] = { apiKey: requireFlag(flags, 'api-key'), baseUrl, environment };
+      if (flags.use || !config.currentProfile) {
+        config.currentProfile = name;
+      }
+      saveConfig(config);
+      process.stderr.write(`Saved profile "${name}" (${baseUrl})${config.currentProfile === name ? ', now current' : ''}\n`);
+    }
+  },
+
+  'profile use': {
+    usage: 'giftlib profile use <name>',
+    description: 'Make a profile the default for later commands',
+    run: async ({ positionals }) => {
+      const name = requirePositional(positionals, 0, 'name');
+      const config = loadConfig();
+      if (!config.profiles[name]) {
+        throw new UsageError(`Profile "${name}" does not exist`);
+      }
+      config.currentProfile = name;
+      saveConfig(config);
+      process.stderr.write(`Now using profile "${name}"\n`);
+    }
+  },
+
+  'profile remove': {
+    usage: 'giftlib profile remove <name>',
+    description: 'Delete a saved profile',
+    run: async ({ positionals }) => {
+      const name = requirePositional(positionals, 0, 'name');
+      const config = loadConfig();
+      if (!config.profiles[name]) {
+        throw new UsageError(`Profile "${name}" does not exist`);
+      }
+      delete config.profiles[name];
+      if (config.currentProfile === name) {
+        config.currentProfile = Object.keys(config.profiles)[0] ?? null;
+      }
+      saveConfig(config);
+      process.stderr.write(`Removed profile "${name}"\n`);
+    }
+  }
+};
@@ -0,0 +1,94 @@
+import { isApiError } from '@/lib/giftlibClient';
+import { UsageError, parseCommandArgs } from './args';
+import { Command, EXIT_ERROR, EXIT_OK, EXIT_USAGE, commands, createClient } from './commands';
+
+// giftlib: command-line access to the GiftLib API using the same SDK
+// client as the dashboard. It is TypeScript with @/ imports, so it runs
+// through tsx: `npm run giftlib -- --help` lists the commands.
+
+const printHelp = () => {
+  const lines = Object.values(commands).map(command => `  ${command.usage}\n      ${command.description}`);
+  process.stdout.write([
+    'Usage: giftlib <command> [options]',
+    '',
+    'Commands:',
+    ...lines,
+    '',
+    'Global options:',
+    '  --profile <name>   Use a saved profile instead of the current one',
+    '  -h, --help         Show help for a command',
+    '',
+    'Environment: GIFTLIB_API_KEY, GIFTLIB_BASE_URL and GIFTLIB_PROFILE override the saved profile;',
+    'GIFTLIB_CONFIG sets the profile file location.',
+    ''
+  ].join('\n'));
+};
+
+// Helper function to match the longest command name at the start of argv,
+// e.g. "config email get" before "config"
+const resolveCommand = (argv: string[]): { name: string; command: Command; rest: string[] } | null => {
+  for (let length = Math.min(3, argv.length); length > 0; length--) {
+    const name = argv.slice(0, length).join(' ');
+    if (commands[name]) {
+      return { name, command: commands[name], rest: argv.slice(length) };
+    }
+  }
+  return null;
+};
+
+async function main(argv: string[]): Promise<number> {
+  if (argv.length === 0 || argv[0] === '--help' || argv[0] === '-h' || argv[0] === 'help') {
+    printHelp();
+    return EXIT_OK;
+  }
+
+  const resolved = resolveCommand(argv);
+  if (!resolved) {
+    const group = Object.keys(commands).filter(name => name.startsWith(`${argv[0]} `));
+    process.stderr.write(
+      group.length > 0
+        ? `Unknown subcommand. Available:\n${group.map(name => `  giftlib ${name}`).join('\n')}\n`
+        : `Unknown command "${argv[0]}". Run "giftlib --help" for the command list.\n`
+    );
+    return EXIT_USAGE;
+  }
+
+  const { command, rest } = resolved;
+  try {
+    const { positionals, flags } = parseCommandArgs(rest, command.options ?? {});
+    if (flags.help) {
+      process.stdout.write(`Usage: ${command.usage}\n\n${command.description}\n`);
+      return EXIT_OK;
+    }
+
+    const profileName = typeof flags.profile === 'string' ? flags.profile : undefined;
+    let client: ReturnType<typeof createClient> | null = null;
+    const exitCode = await command.run({
+      positionals,
+      flags,
+      client: () => (client ??= createClient(profileName))
+    });
+    return exitCode ?? EXIT_OK;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`Error: ${error.message}\nUsage: ${command.usage}\n`);
+      return EXIT_USAGE;
+    }
+    if (isApiError(error)) {
+      const details = [
+        `Error: ${error.message}`,
+        `  code: ${error.code}${error.status ? ` (HTTP ${error.status})` : ''}`,
+        ...error.fieldErrors.map(({ field, message }) => `  ${field}: ${message}`),
+        ...(error.requestId ? [`  request id: ${error.requestId}`] : [])
+      ];
+      process.stderr.write(details.join('\n') + '\n');
+      return EXIT_ERROR;
+    }
+    process.stderr.write(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return EXIT_ERROR;
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,54 @@
+import { Gift } from '@/types';
+import { toCsv } from '@/lib/utils';
+import { UsageError } from './args';
+
+export type OutputFormat = 'json' | 'csv' | 'table';
+
+// Gift fields holding a single value, which fit in a CSV cell
+type GiftCsvColumn = {
+  [Field in keyof Gift]-?: Gift[Field] extends string | boolean | undefined ? Field : never;
+}[keyof Gift];
+
+export const GIFT_CSV_COLUMNS: GiftCsvColumn[] = [
+  'gift_id',
+  'recipient_name',
+  'recipient_email',
+  'gift_type',
+  'status',
+  'verified',
+  'campaign_id',
+  'created_at',
+  'updated_at'
+];
+
+export function printJson(value: unknown) {
+  process.stdout.write(JSON.stringify(value, null, 2) + '\n');
+}
+
+export function toTable(rows: Array<Record<string, unknown>>, columns: string[]): string {
+  const widths = columns.map(column =>
+    Math.max(column.length, ...rows.map(row => String(row[column] ?? '').length))
+  );
+  const line = (cells: unknown[]) => cells.map((cell, index) => String(cell ?? '').padEnd(widths[index])).join('  ');
+  return [line(columns), ...rows.map(row => line(columns.map(column => row[column])))].join('\n') + '\n';
+}
+
+export function printGifts(gifts: Gift[], format: OutputFormat) {
+  if (format === 'csv') {
+    const rows = gifts.map(gift => GIFT_CSV_COLUMNS.map(column => gift[column]));
+    process.stdout.write(toCsv([GIFT_CSV_COLUMNS, ...rows]) + '\r\n');
+  } else if (format === 'table') {
+    const rows = gifts.map(gift => Object.fromEntries(GIFT_CSV_COLUMNS.map(column => [column, gift[column]])));
+    process.stdout.write(toTable(rows, GIFT_CSV_COLUMNS));
+  } else {
+    printJson(gifts);
+  }
+}
+
+export function parseFormat(value: string | undefined, allowed: OutputFormat[] = ['json', 'csv', 'table']): OutputFormat {
+  const format = (value || 'json') as OutputFormat;
+  if (!allowed.includes(format)) {
+    throw new UsageError(`--format must be one of: ${allowed.join(', ')}`);
+  }
+  return format;
+}
@@ -0,0 +1,71 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EnvironmentId } from '@/types';
+import { getEnvironmentProfile } from '@/lib/environments';
+
+// Named CLI profiles (API key + backend URL), stored in the user's config
+// directory with owner-only permissions
+
+export interface CliProfile {
+  apiKey: string;
+  baseUrl: string;
+  environment?: EnvironmentId;
+}
+
+interface CliConfig {
+  currentProfile: string | null;
+  profiles: Record<string, CliProfile>;
+}
+
+export const DEFAULT_PROFILE = 'default';
+
+export function getConfigPath(): string {
+  if (process.env.GIFTLIB_CONFIG) {
+    return process.env.GIFTLIB_CONFIG;
+  }
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'giftlib', 'profiles.json');
+}
+
+export function loadConfig(): CliConfig {
+  try {
+    const raw = JSON.parse(fs.readFileSync(getConfigPath(), 'utf8'));
+    return { currentProfile: raw.currentProfile ?? null, profiles: raw.profiles ?? {} };
+  } catch {
+    return { currentProfile: null, profiles: {} };
+  }
+}
+
+export function saveConfig(config: CliConfig) {
+  const configPath = getConfigPath();
+  fs.mkdirSync(path.dirname(configPath), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(configPath, JSON.stringify(config, null, 2) + '\n', { mode: 0o600 });
+}
+
+export function baseUrlForEnvironment(id: EnvironmentId): string {
+  const profile = getEnvironmentProfile(id);
+  if (profile.id !== id) {
+    throw new Error(`Unknown environment "${id}"`);
+  }
+  if (profile.transport !== 'http') {
+    throw new Error(`The ${profile.label} environment is only available in the dashboard`);
+  }
+  return profile.baseUrl;
+}
+
+// Resolve credentials: GIFTLIB_API_KEY / GIFTLIB_BASE_URL override the
+// selected profile (--profile, then the current profile, then "default")
+export function resolveProfile(name?: string): { name: string | null; profile: CliProfile } {
+  const config = loadConfig();
+  const profileName = name || process.env.GIFTLIB_PROFILE || config.currentProfile || DEFAULT_PROFILE;
+  const stored = config.profiles[profileName];
+
+  if (name && !stored) {
+    throw new Error(`Profile "${name}" does not exist. Create it with: giftlib profile add ${name} --api-key <key>`);
+  }
+
+  const apiKey = process.env.GIFTLIB_API_KEY || stored?.apiKey || '';
+  const baseUrl = process.env.GIFTLIB_BASE_URL || stored?.baseUrl || baseUrlForEnvironment('production');
+  return { name: stored ? profileName : null, profile: { ...stored, apiKey, baseUrl } };
+}
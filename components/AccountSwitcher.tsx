@@ -0,0 +1,171 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { toApiError } from '@/lib/errors';
+import { cn } from '@/lib/utils';
+import { ROLE_LABELS, resolveRole } from '@/lib/permissions';
+import LoadingSpinner from './LoadingSpinner';
+import toast from 'react-hot-toast';
+
+// Header menu listing the accounts saved in this session, e.g. one per
+// client company, with quick switching and adding another API key
+const AccountSwitcher: React.FC = () => {
+  const { userInfo, accounts, activeAccountId, addAccount, switchAccount, removeAccount } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newApiKey, setNewApiKey] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu on outside clicks
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setIsAdding(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleSwitch = async (accountId: string) => {
+    setIsOpen(false);
+    await switchAccount(accountId);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newApiKey.trim()) {
+      toast.error('Please enter an API key');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await addAccount(newApiKey.trim());
+      setNewApiKey('');
+      setIsAdding(false);
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Add account error:', error);
+      const apiError = toApiError(error);
+      toast.error(apiError.code === 'unauthorized' || apiError.code === 'forbidden'
+        ? 'Invalid API key. Please check your credentials.'
+        : `Could not add account: ${apiError.message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (accountId: string, name: string) => {
+    if (!window.confirm(`Remove ${name} from this session?`)) return;
+    await removeAccount(accountId);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center space-x-2 text-right px-2 py-1 rounded-lg hover:bg-white hover:bg-opacity-10 focus:outline-none focus:ring-2 focus:ring-white focus:ring-opacity-50"
+      >
+        <div>
+          <div className="text-sm font-medium text-white">
+            {userInfo?.full_name}
+            {accounts.length > 1 && (
+              <span className="ml-2 text-xs bg-white bg-opacity-20 rounded-full px-2 py-0.5">{accounts.length} accounts</span>
+            )}
+          </div>
+          <div className="text-xs text-blue-100">
+            {userInfo?.company_name ? `${userInfo.company_name} · ` : ''}{userInfo?.email} · {ROLE_LABELS[resolveRole(userInfo)]}
+          </div>
+        </div>
+        <span className="text-blue-100 text-xs">▾</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-xl border border-gray-200 z-50">
+          <div className="px-4 py-2 border-b border-gray-100 text-xs font-medium text-gray-500 uppercase tracking-wide">
+            Accounts
+          </div>
+          <ul className="max-h-72 overflow-y-auto py-1">
+            {accounts.map(account => {
+              const isActive = account.accountId === activeAccountId;
+              return (
+                <li key={account.accountId} className={cn('flex items-center px-4 py-2', isActive ? 'bg-blue-50' : 'hover:bg-gray-50')}>
+                  <button
+                    type="button"
+                    onClick={() => handleSwitch(account.accountId)}
+                    disabled={isActive}
+                    className="flex-1 text-left disabled:cursor-default"
+                  >
+                    <div className="text-sm font-medium text-gray-900">
+                      {isActive ? '✓ ' : ''}{account.userInfo.company_name || account.userInfo.full_name}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {account.userInfo.email} · {ROLE_LABELS[resolveRole(account.userInfo)]} · <span className="font-mono">{account.maskedApiKey}</span>
+                    </div>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(account.accountId, account.userInfo.company_name || account.userInfo.full_name)}
+                    title="Remove account"
+                    className="ml-2 text-gray-400 hover:text-red-600 text-sm"
+                  >
+                    ✕
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="border-t border-gray-100 p-3">
+            {isAdding ? (
+              <form onSubmit={handleAdd} className="space-y-2">
+                <input
+                  type="password"
+                  autoFocus
+                  placeholder="API key for another account"
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  value={newApiKey}
+                  onChange={(e) => setNewApiKey(e.target.value)}
+                  disabled={isSaving}
+                />
+                <div className="flex justify-end space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => setIsAdding(false)}
+                    className="text-sm px-3 py-1 rounded text-gray-600 hover:bg-gray-100"
+                    disabled={isSaving}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="text-sm px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                    disabled={isSaving}
+                  >
+                    {isSaving ? <LoadingSpinner size="sm" /> : 'Add & switch'}
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setIsAdding(true)}
+                className="w-full text-sm text-blue-600 hover:text-blue-700 text-left"
+              >
+                ＋ Add account
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccountSwitcher;
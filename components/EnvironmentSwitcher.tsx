@@ -0,0 +1,106 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getEnvironmentProfiles } from '@/lib/environments';
+import { cn } from '@/lib/utils';
+import { EnvironmentId } from '@/types';
+import toast from 'react-hot-toast';
+
+interface EnvironmentSwitcherProps {
+  variant?: 'header' | 'light';
+}
+
+const EnvironmentSwitcher: React.FC<EnvironmentSwitcherProps> = ({ variant = 'header' }) => {
+  const { environment, switchEnvironment, updateEnvironmentUrl } = useAuth();
+  const [isEditing, setIsEditing] = useState(false);
+  const [baseUrlInput, setBaseUrlInput] = useState('');
+
+  const profiles = getEnvironmentProfiles();
+
+  const handleSwitch = async (id: EnvironmentId) => {
+    if (id === environment.id) return;
+    setIsEditing(false);
+    await switchEnvironment(id);
+    const profile = profiles.find(p => p.id === id);
+    toast.success(`Switched to ${profile?.label ?? id} environment`);
+  };
+
+  const handleEditStart = () => {
+    setBaseUrlInput(environment.baseUrl);
+    setIsEditing(true);
+  };
+
+  const handleSaveUrl = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      new URL(baseUrlInput.trim());
+    } catch {
+      toast.error('Please enter a valid URL');
+      return;
+    }
+    setIsEditing(false);
+    await updateEnvironmentUrl(environment.id, baseUrlInput);
+    toast.success(`${environment.label} base URL updated`);
+  };
+
+  const isHeader = variant === 'header';
+
+  return (
+    <div className="flex items-center space-x-2">
+      <select
+        value={environment.id}
+        onChange={(e) => handleSwitch(e.target.value as EnvironmentId)}
+        title={environment.baseUrl}
+        className={cn(
+          'text-xs rounded-full px-3 py-1 focus:outline-none focus:ring-2',
+          isHeader
+            ? 'bg-blue-700 bg-opacity-50 text-white border border-white border-opacity-20 focus:ring-white'
+            : 'bg-white text-gray-700 border border-gray-300 focus:ring-blue-500'
+        )}
+      >
+        {profiles.map((profile) => (
+          <option key={profile.id} value={profile.id} className="text-gray-900">
+            {profile.isProduction ? '🟢' : profile.transport === 'mock' ? '🧪' : '🟠'} {profile.label}
+          </option>
+        ))}
+      </select>
+
+      {isEditing ? (
+        <form onSubmit={handleSaveUrl} className="flex items-center space-x-1">
+          <input
+            type="url"
+            autoFocus
+            className="text-xs font-mono w-64 px-2 py-1 rounded border border-gray-300 text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            value={baseUrlInput}
+            onChange={(e) => setBaseUrlInput(e.target.value)}
+          />
+          <button
+            type="submit"
+            className={cn('text-xs px-2 py-1 rounded', isHeader ? 'text-white hover:bg-white hover:bg-opacity-10' : 'text-blue-600 hover:bg-blue-50')}
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsEditing(false)}
+            className={cn('text-xs px-2 py-1 rounded', isHeader ? 'text-blue-100 hover:bg-white hover:bg-opacity-10' : 'text-gray-500 hover:bg-gray-50')}
+          >
+            Cancel
+          </button>
+        </form>
+      ) : environment.transport === 'http' && (
+        <button
+          type="button"
+          onClick={handleEditStart}
+          title="Edit base URL"
+          className={cn('text-xs px-2 py-1 rounded', isHeader ? 'text-blue-100 hover:text-white' : 'text-gray-500 hover:text-gray-700')}
+        >
+          ✏️
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default EnvironmentSwitcher;
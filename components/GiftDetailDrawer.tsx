@@ -0,0 +1,200 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { apiService } from '@/lib/api';
+import { queryKeys } from '@/lib/queryCache';
+import { toApiError } from '@/lib/errors';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { useUrlParams } from '@/hooks/useUrlParams';
+import { statusIcons, statusColors, formatDate, formatAddress } from '@/lib/utils';
+import { GiftDetail } from '@/types';
+import LoadingSpinner from './LoadingSpinner';
+
+// Helper function to render a label/value row, with a dash for empty values
+const renderField = (label: string, value: React.ReactNode) => (
+  <div className="py-2 grid grid-cols-3 gap-4">
+    <dt className="text-sm text-gray-500">{label}</dt>
+    <dd className="text-sm text-gray-900 col-span-2 break-words">{value || <span className="text-gray-400">—</span>}</dd>
+  </div>
+);
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Side drawer with everything recorded for the gift in ?gift=, opened from
+// gift IDs in the sections (see GiftIdLink)
+const GiftDetailDrawer: React.FC = () => {
+  const { params, setParams } = useUrlParams();
+  const giftId = params.get('gift');
+
+  const { data: gift, error, isLoading, isFetching, refetch } = useApiQuery<GiftDetail>(
+    queryKeys.giftDetail(giftId ?? ''),
+    () => apiService.getGift(giftId!),
+    { enabled: Boolean(giftId) }
+  );
+
+  const close = () => setParams({ gift: null });
+
+  useEffect(() => {
+    if (!giftId) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setParams({ gift: null });
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [giftId, setParams]);
+
+  if (!giftId) return null;
+
+  const timeline = [...(gift?.status_history ?? [])].sort((a, b) => a.changed_at.localeCompare(b.changed_at));
+
+  const renderContent = () => {
+    if (isLoading && !gift) {
+      return (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      );
+    }
+
+    if (!gift) {
+      return (
+        <div className="text-center py-12">
+          <p className="text-red-600 mb-4">Failed to load gift: {toApiError(error).message}</p>
+          <button
+            type="button"
+            onClick={() => refetch().catch(() => undefined)}
+            className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+          >
+            🔄 Try again
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        {/* Status */}
+        <div className="flex items-center justify-between bg-gray-50 rounded-lg p-4">
+          <div className="flex items-center">
+            <span className={`text-2xl mr-3 ${statusColors[gift.status]}`}>{statusIcons[gift.status]}</span>
+            <div>
+              <p className={`font-semibold ${statusColors[gift.status]}`}>{capitalize(gift.status)}</p>
+              <p className="text-xs text-gray-500">Updated {formatDate(gift.updated_at || gift.created_at)}</p>
+            </div>
+          </div>
+          <span
+            className={`px-2 py-1 text-xs font-medium rounded-full ${
+              gift.verified ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-700'
+            }`}
+          >
+            {gift.verified
+              ? `✅ Verified${gift.verified_at ? ` ${formatDate(gift.verified_at)}` : ''}`
+              : 'Not verified'}
+          </span>
+        </div>
+
+        {/* Recipient */}
+        <section>
+          <h4 className="text-sm font-semibold text-gray-900 mb-1">👤 Recipient</h4>
+          <dl className="divide-y divide-gray-100">
+            {renderField('Name', gift.recipient_name)}
+            {renderField('Email', gift.recipient_email)}
+            {renderField('Phone', gift.recipient?.phone)}
+            {renderField('Address', gift.recipient_address && formatAddress(gift.recipient_address))}
+          </dl>
+        </section>
+
+        {/* Gift */}
+        <section>
+          <h4 className="text-sm font-semibold text-gray-900 mb-1">🎁 Gift</h4>
+          <dl className="divide-y divide-gray-100">
+            {renderField('Type', (gift.gift_type || 'Unknown').replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase()))}
+            {renderField('Template', gift.template_id)}
+            {renderField('Message', gift.message && <span className="whitespace-pre-wrap">{gift.message}</span>)}
+            {renderField('Delivery date', gift.delivery_date ? formatDate(gift.delivery_date) : 'As soon as possible')}
+            {renderField('Return address', gift.return_address && formatAddress(gift.return_address))}
+          </dl>
+        </section>
+
+        {/* Meta */}
+        <section>
+          <h4 className="text-sm font-semibold text-gray-900 mb-1">🏷️ Meta</h4>
+          <dl className="divide-y divide-gray-100">
+            {renderField('Campaign', gift.campaign_id && <span className="font-mono">{gift.campaign_id}</span>)}
+            {renderField('Order source', gift.order_source)}
+            {renderField('Initiated by', gift.initiated_by && (
+              <span title={gift.initiated_by.email}>{gift.initiated_by.full_name}</span>
+            ))}
+            {renderField('Created', formatDate(gift.created_at))}
+          </dl>
+        </section>
+
+        {/* Timeline */}
+        <section>
+          <h4 className="text-sm font-semibold text-gray-900 mb-3">🕒 Status timeline</h4>
+          <ol className="relative border-l border-gray-200 ml-3">
+            {timeline.map((event, index) => (
+              <li key={`${event.changed_at}-${index}`} className="mb-5 ml-6">
+                <span className="absolute -left-3 flex items-center justify-center w-6 h-6 bg-white rounded-full ring-4 ring-white">
+                  {statusIcons[event.status]}
+                </span>
+                <p className={`text-sm font-medium ${statusColors[event.status]}`}>
+                  {capitalize(event.status)}
+                  {event.forced && (
+                    <span className="ml-2 px-1.5 py-0.5 text-xs font-medium text-amber-800 bg-amber-100 rounded" title="An admin overrode the status rules">
+                      ⚠️ Forced
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {formatDate(event.changed_at)}
+                  {event.changed_by ? ` · ${event.changed_by.full_name}` : ' · System'}
+                </p>
+                {event.notes && (
+                  <p className="mt-1 text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded-md px-3 py-2 whitespace-pre-wrap">
+                    {event.notes}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+        </section>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-gray-900 bg-opacity-40" onClick={close} aria-hidden="true" />
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-label="Gift details"
+        className="relative w-full max-w-lg h-full bg-white shadow-xl overflow-y-auto"
+      >
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Gift details</h3>
+            <p className="text-xs font-mono text-gray-500 break-all">{giftId}</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            {isFetching && gift && <LoadingSpinner size="sm" />}
+            <button
+              type="button"
+              onClick={close}
+              aria-label="Close gift details"
+              className="text-gray-400 hover:text-gray-600 text-xl leading-none"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+        <div className="px-6 py-4">
+          {renderContent()}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default GiftDetailDrawer;
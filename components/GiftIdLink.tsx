@@ -0,0 +1,29 @@
+'use client';
+
+import React from 'react';
+import { useUrlParams } from '@/hooks/useUrlParams';
+import { cn } from '@/lib/utils';
+
+interface GiftIdLinkProps {
+  giftId: string;
+  className?: string;
+}
+
+// Shortened gift ID that opens the gift detail drawer. The drawer is driven
+// by ?gift=, so the open gift can be linked to and Back closes it.
+const GiftIdLink: React.FC<GiftIdLinkProps> = ({ giftId, className }) => {
+  const { setParams } = useUrlParams();
+
+  return (
+    <button
+      type="button"
+      onClick={() => setParams({ gift: giftId })}
+      title={`View details for ${giftId}`}
+      className={cn('font-mono text-blue-600 hover:text-blue-800 hover:underline', className)}
+    >
+      {giftId.slice(0, 8)}...
+    </button>
+  );
+};
+
+export default GiftIdLink;
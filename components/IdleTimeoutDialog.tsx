@@ -0,0 +1,48 @@
+'use client';
+
+import React from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useIdleTimeout } from '@/hooks/useIdleTimeout';
+import { IDLE_TIMEOUT_MS } from '@/lib/sessionEvents';
+
+// Warns before the idle timeout ends the session and locks it when the
+// countdown runs out
+const IdleTimeoutDialog: React.FC = () => {
+  const { isLoggedIn, lockReason, lockSession, logout } = useAuth();
+  const { warningRemainingMs, stayActive } = useIdleTimeout(isLoggedIn && !lockReason, () => {
+    lockSession(`The dashboard was locked after ${Math.round(IDLE_TIMEOUT_MS / 60000)} minutes of inactivity.`);
+  });
+
+  if (warningRemainingMs === null) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900 bg-opacity-50">
+      <div role="alertdialog" aria-modal="true" className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">⏳ Are you still there?</h3>
+        <p className="text-sm text-gray-600 mb-6">
+          You will be signed out in <strong>{Math.ceil(warningRemainingMs / 1000)} seconds</strong> because of inactivity.
+          Unsaved forms are kept, and you can sign back in to continue.
+        </p>
+        <div className="flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={logout}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Log out now
+          </button>
+          <button
+            type="button"
+            onClick={stayActive}
+            autoFocus
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            Stay signed in
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IdleTimeoutDialog;
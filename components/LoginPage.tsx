@@ -1,20 +1,31 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { apiService } from '@/lib/api';
+import { toApiError } from '@/lib/errors';
+import { MOCK_DEMO_API_KEY } from '@/lib/mockConfig';
 import { isValidEmail } from '@/lib/utils';
+import { startOnboarding } from '@/lib/onboarding';
 import LoadingSpinner from './LoadingSpinner';
+import EnvironmentSwitcher from './EnvironmentSwitcher';
 import toast from 'react-hot-toast';
 
 const LoginPage: React.FC = () => {
-  const { login } = useAuth();
+  const { login, environment } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [showCreateUser, setShowCreateUser] = useState(false);
   
   // Login form state
   const [apiKey, setApiKey] = useState('');
   
+  // Set after createUser: the new key is shown once before setup starts
+  const [createdAccount, setCreatedAccount] = useState<{ userId: string; apiKey: string } | null>(null);
+  const [keySaved, setKeySaved] = useState(false);
+
+  // Join-team form state; opened by an invite link (?invite=<code>)
+  const [inviteForm, setInviteForm] = useState<{ token: string; fullName: string } | null>(null);
+
   // Create user form state
   const [createUserForm, setCreateUserForm] = useState({
     fullName: '',
@@ -30,6 +41,13 @@ const LoginPage: React.FC = () => {
     }
   });
 
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('invite');
+    if (token) {
+      setInviteForm({ token, fullName: '' });
+    }
+  }, []);
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!apiKey.trim()) {
@@ -39,24 +57,26 @@ const LoginPage: React.FC = () => {
 
     setIsLoading(true);
     try {
-      // Set the API key temporarily to test it
-      apiService.setApiKey(apiKey);
-      
-      // Try to get user profile to validate the API key
-      const userProfile = await apiService.getUserProfile();
-      
-      // If successful, log the user in
-      login(apiKey, userProfile);
-    } catch (error: any) {
+      // The server validates the key and starts the session
+      await login(apiKey.trim());
+    } catch (error) {
       console.error('Login error:', error);
-      apiService.removeApiKey(); // Remove invalid API key
       
-      if (error.response?.status === 401) {
-        toast.error('Invalid API key. Please check your credentials.');
-      } else if (error.response?.status === 404) {
-        toast.error('User not found. Please create a user account first.');
-      } else {
-        toast.error('Login failed. Please try again.');
+      const apiError = toApiError(error);
+      switch (apiError.code) {
+        case 'unauthorized':
+        case 'forbidden':
+          toast.error('Invalid API key. Please check your credentials.');
+          break;
+        case 'not_found':
+          toast.error('User not found. Please create a user account first.');
+          break;
+        case 'network_error':
+        case 'timeout':
+          toast.error(`Could not reach ${environment.label} backend. Please try again.`);
+          break;
+        default:
+          toast.error(`Login failed: ${apiError.message}`);
       }
     } finally {
       setIsLoading(false);
@@ -106,30 +126,113 @@ const LoginPage: React.FC = () => {
         address: createUserForm.address
       });
       
-      toast.success('User created successfully! Please use your API key to login.');
+      toast.success('Account created! Save your API key to continue.');
+
+      // Show the API key once, then sign in and start the setup wizard
+      setApiKey(response.api_key);
+      setKeySaved(false);
+      setCreatedAccount({ userId: response.user_id, apiKey: response.api_key });
+      setShowCreateUser(false);
+    } catch (error) {
+      console.error('Create user error:', error);
       
-      // Show the API key to the user
+      const apiError = toApiError(error);
+      switch (apiError.code) {
+        case 'bad_request':
+        case 'validation_error':
+          toast.error(apiError.fieldErrors.length > 0
+            ? `Invalid user data: ${apiError.message}`
+            : 'Invalid user data. Please check your information.');
+          break;
+        case 'conflict':
+          toast.error('User with this email already exists.');
+          break;
+        default:
+          toast.error(`Failed to create user: ${apiError.message}`);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAcceptInvitation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteForm) return;
+    if (!inviteForm.token.trim()) {
+      toast.error('Please enter your invite code');
+      return;
+    }
+    if (!inviteForm.fullName.trim()) {
+      toast.error('Full name is required');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await apiService.acceptInvitation({
+        token: inviteForm.token.trim(),
+        full_name: inviteForm.fullName.trim()
+      });
+
+      toast.success(`Welcome to ${response.company_name || 'the team'}! Please use your API key to login.`);
+
       if (response.api_key) {
         toast.success(`Your API key: ${response.api_key}`, { duration: 10000 });
         setApiKey(response.api_key);
       }
-      
-      setShowCreateUser(false);
-    } catch (error: any) {
-      console.error('Create user error:', error);
-      
-      if (error.response?.status === 400) {
-        toast.error('Invalid user data. Please check your information.');
-      } else if (error.response?.status === 409) {
-        toast.error('User with this email already exists.');
-      } else {
-        toast.error('Failed to create user. Please try again.');
+
+      // Drop the used invite code from the address bar
+      window.history.replaceState(null, '', window.location.pathname);
+      setInviteForm(null);
+    } catch (error) {
+      console.error('Accept invitation error:', error);
+
+      const apiError = toApiError(error);
+      switch (apiError.code) {
+        case 'not_found':
+          toast.error('This invitation is invalid or has already been used.');
+          break;
+        case 'conflict':
+          toast.error('A user with this email already exists.');
+          break;
+        default:
+          toast.error(`Failed to join team: ${apiError.message}`);
       }
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Sign the new account in, starting the setup wizard unless skipped
+  const handleStartSetup = async (withSetup: boolean) => {
+    if (!createdAccount) return;
+    if (withSetup) {
+      startOnboarding(createdAccount.userId, keySaved ? 'done' : 'skipped');
+    }
+
+    setIsLoading(true);
+    try {
+      await login(createdAccount.apiKey);
+    } catch (error) {
+      console.error('Login error:', error);
+      toast.error(`Login failed: ${toApiError(error).message}`);
+      setCreatedAccount(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCopyKey = async () => {
+    if (!createdAccount) return;
+    try {
+      await navigator.clipboard.writeText(createdAccount.apiKey);
+      toast.success('API key copied to clipboard');
+    } catch (error) {
+      console.error('Error copying API key:', error);
+      toast.error('Could not copy to clipboard');
+    }
+  };
+
   const updateCreateUserForm = (field: string, value: string) => {
     if (field.startsWith('address.')) {
       const addressField = field.split('.')[1];
@@ -156,11 +259,123 @@ const LoginPage: React.FC = () => {
             🎁 GiftLib
           </h2>
           <p className="mt-2 text-center text-sm text-gray-600">
-            {showCreateUser ? 'Create your account' : 'Sign in to your account'}
+            {createdAccount
+              ? 'Your account is ready'
+              : inviteForm ? 'Join your team' : showCreateUser ? 'Create your account' : 'Sign in to your account'}
           </p>
+          <div className="mt-4 flex flex-col items-center space-y-1">
+            <EnvironmentSwitcher variant="light" />
+            <span className="text-xs font-mono text-gray-500">{environment.baseUrl}</span>
+          </div>
         </div>
         
-        {!showCreateUser ? (
+        {createdAccount ? (
+          // New account's API key, the first onboarding step
+          <div className="mt-8 space-y-6">
+            <div className="p-4 rounded-md bg-yellow-50 border border-yellow-200">
+              <p className="text-sm text-yellow-800 mb-3">
+                🔑 This is your API key. It is shown <strong>only once</strong>, and you need it to sign in again.
+              </p>
+              <div className="flex items-center space-x-2">
+                <code className="flex-1 text-xs font-mono bg-white px-3 py-2 rounded border border-yellow-200 break-all">
+                  {createdAccount.apiKey}
+                </code>
+                <button
+                  type="button"
+                  onClick={handleCopyKey}
+                  className="px-3 py-2 text-sm font-medium text-white bg-yellow-600 rounded-md hover:bg-yellow-700"
+                >
+                  📋 Copy
+                </button>
+              </div>
+            </div>
+
+            <label className="flex items-start space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={keySaved}
+                onChange={(e) => setKeySaved(e.target.checked)}
+                className="mt-0.5"
+                disabled={isLoading}
+              />
+              <span>I have saved my API key somewhere safe</span>
+            </label>
+
+            <div className="space-y-3">
+              <button
+                type="button"
+                onClick={() => handleStartSetup(true)}
+                disabled={isLoading}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? <LoadingSpinner size="sm" /> : keySaved ? 'Continue to setup' : 'Skip this step and continue to setup'}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleStartSetup(false)}
+                disabled={isLoading}
+                className="w-full flex justify-center py-2 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                Skip setup and go to the dashboard
+              </button>
+            </div>
+          </div>
+        ) : inviteForm ? (
+          // Join Team Form
+          <form className="mt-8 space-y-6" onSubmit={handleAcceptInvitation}>
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="invite-code" className="block text-sm font-medium text-gray-700">
+                  Invite Code *
+                </label>
+                <input
+                  id="invite-code"
+                  type="text"
+                  required
+                  className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md font-mono focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  placeholder="From your invitation email"
+                  value={inviteForm.token}
+                  onChange={(e) => setInviteForm({ ...inviteForm, token: e.target.value })}
+                  disabled={isLoading}
+                />
+              </div>
+              <div>
+                <label htmlFor="invite-full-name" className="block text-sm font-medium text-gray-700">
+                  Full Name *
+                </label>
+                <input
+                  id="invite-full-name"
+                  type="text"
+                  required
+                  className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  placeholder="Enter your full name"
+                  value={inviteForm.fullName}
+                  onChange={(e) => setInviteForm({ ...inviteForm, fullName: e.target.value })}
+                  disabled={isLoading}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? <LoadingSpinner size="sm" /> : 'Join Team'}
+              </button>
+
+              <button
+                type="button"
+                onClick={() => setInviteForm(null)}
+                className="w-full flex justify-center py-2 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                disabled={isLoading}
+              >
+                Back to Login
+              </button>
+            </div>
+          </form>
+        ) : !showCreateUser ? (
           // Login Form
           <form className="mt-8 space-y-6" onSubmit={handleLogin}>
             <div>
@@ -178,6 +393,19 @@ const LoginPage: React.FC = () => {
                 onChange={(e) => setApiKey(e.target.value)}
                 disabled={isLoading}
               />
+              {environment.transport === 'mock' && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Offline mock backend. Use the demo key{' '}
+                  <button
+                    type="button"
+                    onClick={() => setApiKey(MOCK_DEMO_API_KEY)}
+                    className="font-mono text-blue-600 hover:text-blue-500"
+                  >
+                    {MOCK_DEMO_API_KEY}
+                  </button>
+                  {' '}or create an account.
+                </p>
+              )}
             </div>
 
             <div>
@@ -197,8 +425,18 @@ const LoginPage: React.FC = () => {
                 className="text-blue-600 hover:text-blue-500 text-sm"
                 disabled={isLoading}
               >
-                Don't have an account? Create one
+                Don&apos;t have an account? Create one
               </button>
+              <div>
+                <button
+                  type="button"
+                  onClick={() => setInviteForm({ token: '', fullName: '' })}
+                  className="text-blue-600 hover:text-blue-500 text-sm"
+                  disabled={isLoading}
+                >
+                  Have an invite code? Join your team
+                </button>
+              </div>
             </div>
           </form>
         ) : (
@@ -1,77 +1,69 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { Suspense, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
-import { formatApiKey } from '@/lib/utils';
-import InitiateGift from './sections/InitiateGift';
-import GiftManagement from './sections/GiftManagement';
-import Statistics from './sections/Statistics';
-import BulkOperations from './sections/BulkOperations';
-import ExcelOperations from './sections/ExcelOperations';
-import MockVerification from './sections/MockVerification';
-import EmailConfiguration from './sections/EmailConfiguration';
-import FulfillmentConfiguration from './sections/FulfillmentConfiguration';
-import ApiStatus from './sections/APIStatus';
+import { cn } from '@/lib/utils';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useOnboarding } from '@/hooks/useOnboarding';
+import { ONBOARDING_STEPS } from '@/lib/onboarding';
+import { SECTION_PATHS, sectionForPath } from '@/lib/routes';
+import { AppSection } from '@/types';
+import EnvironmentSwitcher from './EnvironmentSwitcher';
+import AccountSwitcher from './AccountSwitcher';
+import OnboardingWizard from './OnboardingWizard';
+import LoadingSpinner from './LoadingSpinner';
+import GiftDetailDrawer from './GiftDetailDrawer';
 
-type Section = 
-  | 'initiate'
-  | 'management'
-  | 'statistics'
-  | 'bulk'
-  | 'excel'
-  | 'campaign'
-  | 'status'
-  | 'mock'
-  | 'email'
-  | 'fulfillment'
-  | 'api';
-
-const MainApp: React.FC = () => {
-  const { userInfo, logout, apiKey } = useAuth();
-  const [activeSection, setActiveSection] = useState<Section>('initiate');
+// Header and sidebar around the section routes in app/(dashboard)
+const MainApp: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { logout, maskedApiKey, environment, activeAccountId } = useAuth();
+  const { canViewSection } = usePermissions();
+  const pathname = usePathname();
+  const router = useRouter();
+  const onboarding = useOnboarding(activeAccountId);
+  const showOnboarding = Boolean(onboarding.progress && !onboarding.progress.dismissed);
 
   const sections = [
-    { id: 'initiate' as Section, label: '🎁 Initiate Gift', icon: '🎁' },
-    { id: 'management' as Section, label: '📋 Gift Management', icon: '📋' },
-    { id: 'statistics' as Section, label: '📊 Statistics', icon: '📊' },
-    { id: 'bulk' as Section, label: '📦 Bulk Operations', icon: '📦' },
-    { id: 'excel' as Section, label: '📄 Excel Operations', icon: '📄' },
-    // { id: 'campaign' as Section, label: '🎯 Campaign Management', icon: '🎯' },
-    // { id: 'status' as Section, label: '🔄 Gift Status Management', icon: '🔄' },
-    { id: 'mock' as Section, label: '🧪 Mock Verification (Sandbox Testing only)', icon: '🧪' },
-    { id: 'email' as Section, label: '📧 Email Configuration', icon: '📧' },
-    { id: 'fulfillment' as Section, label: '🚚 Fulfillment Configuration', icon: '🚚' },
-    { id: 'api' as Section, label: '⚙️ API Status', icon: '⚙️' }
-  ];
+    { id: 'initiate' as AppSection, label: '🎁 Initiate Gift', icon: '🎁' },
+    { id: 'management' as AppSection, label: '📋 Gift Management', icon: '📋' },
+    { id: 'statistics' as AppSection, label: '📊 Statistics', icon: '📊' },
+    { id: 'bulk' as AppSection, label: '📦 Bulk Operations', icon: '📦' },
+    { id: 'excel' as AppSection, label: '📄 Excel Operations', icon: '📄' },
+    // { id: 'campaign' as AppSection, label: '🎯 Campaign Management', icon: '🎯' },
+    // { id: 'status' as AppSection, label: '🔄 Gift Status Management', icon: '🔄' },
+    { id: 'mock' as AppSection, label: '🧪 Mock Verification (Sandbox Testing only)', icon: '🧪' },
+    { id: 'email' as AppSection, label: '📧 Email Configuration', icon: '📧' },
+    { id: 'fulfillment' as AppSection, label: '🚚 Fulfillment Configuration', icon: '🚚' },
+    { id: 'api' as AppSection, label: '⚙️ API Status', icon: '⚙️' },
+    { id: 'console' as AppSection, label: '🛰️ API Console', icon: '🛰️' },
+    { id: 'keys' as AppSection, label: '🔑 API Keys', icon: '🔑' },
+    { id: 'team' as AppSection, label: '👥 Team', icon: '👥' },
+    { id: 'profile' as AppSection, label: '👤 Profile', icon: '👤' }
+  ].filter(section => canViewSection(section.id));
+
+  // Sections left out of the sidebar are still reachable by URL
+  const currentSection = sectionForPath(pathname);
+  const isSectionAllowed = currentSection !== null && canViewSection(currentSection);
+  const fallbackPath = sections[0] ? SECTION_PATHS[sections[0].id] : null;
+
+  // Send / and sections the active role can't view (e.g. after switching
+  // accounts) to the first section it can
+  useEffect(() => {
+    if (!isSectionAllowed && fallbackPath && pathname !== fallbackPath) {
+      router.replace(fallbackPath);
+    }
+  }, [isSectionAllowed, fallbackPath, pathname, router]);
 
-  const renderSection = () => {
-    switch (activeSection) {
-      case 'initiate':
-        return <InitiateGift />;
-      case 'management':
-        return <GiftManagement />;
-      case 'statistics':
-        return <Statistics />;
-      case 'bulk':
-        return <BulkOperations />;
-      case 'excel':
-        return <ExcelOperations />;
-      // case 'campaign':
-      //   return <CampaignManagement />;
-      // case 'status':
-      //   return <GiftStatusManagement />;
-      case 'mock':
-        return <MockVerification />;
-      case 'email':
-        return <EmailConfiguration />;
-      case 'fulfillment':
-        return <FulfillmentConfiguration />;
-      case 'api':
-        return <ApiStatus />;
-      default:
-        return <InitiateGift />;
+  // Filters and selections in the URL belong to the previous account
+  const previousAccountIdRef = useRef(activeAccountId);
+  useEffect(() => {
+    if (previousAccountIdRef.current !== activeAccountId) {
+      previousAccountIdRef.current = activeAccountId;
+      router.replace(pathname);
     }
-  };
+  }, [activeAccountId, pathname, router]);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -88,19 +80,13 @@ const MainApp: React.FC = () => {
               </div>
               <div className="hidden md:flex items-center space-x-2 bg-blue-700 bg-opacity-50 px-3 py-1 rounded-full">
                 <span className="text-xs text-blue-100">API:</span>
-                <span className="text-xs font-mono text-white">{formatApiKey(apiKey)}</span>
+                <span className="text-xs font-mono text-white">{maskedApiKey}</span>
               </div>
+              <EnvironmentSwitcher />
             </div>
             
             <div className="flex items-center space-x-4">
-              <div className="text-right">
-                <div className="text-sm font-medium text-white">
-                  {userInfo?.full_name}
-                </div>
-                <div className="text-xs text-blue-100">
-                  {userInfo?.email}
-                </div>
-              </div>
+              <AccountSwitcher />
               
               <button
                 onClick={logout}
@@ -114,33 +100,62 @@ const MainApp: React.FC = () => {
             </div>
           </div>
         </div>
+
+        {/* Non-production environment banner */}
+        {!environment.isProduction && (
+          <div className="bg-amber-400 text-amber-900 text-sm px-6 py-1.5 flex items-center justify-between">
+            <span>
+              ⚠️ You are connected to the <strong>{environment.label}</strong> environment. Gifts sent here are not production gifts.
+            </span>
+            <span className="font-mono text-xs">{environment.baseUrl}</span>
+          </div>
+        )}
       </header>
 
-      <div className="flex h-[calc(100vh-80px)]">
+      <div className={cn('flex', environment.isProduction ? 'h-[calc(100vh-80px)]' : 'h-[calc(100vh-112px)]')}>
         {/* Sidebar Navigation */}
         <div className="w-64 flex-shrink-0 bg-white border-r border-gray-200 p-4">
+          {onboarding.progress?.dismissed && (
+            <button
+              onClick={() => onboarding.update({ dismissed: false })}
+              className="w-full mb-3 text-left px-3 py-2 rounded-md text-sm font-medium bg-blue-50 text-blue-700 border border-blue-200 hover:bg-blue-100"
+            >
+              🚀 Resume setup ({Object.keys(onboarding.progress.steps).length}/{ONBOARDING_STEPS.length})
+            </button>
+          )}
           <nav className="space-y-1">
             {sections.map((section) => (
-              <button
+              <Link
                 key={section.id}
-                onClick={() => setActiveSection(section.id)}
-                className={`w-full text-left px-3 py-2 rounded-md text-sm font-medium transition-colors ${
-                  activeSection === section.id
+                href={SECTION_PATHS[section.id]}
+                onClick={() => {
+                  if (showOnboarding) onboarding.update({ dismissed: true });
+                }}
+                className={`block w-full text-left px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                  !showOnboarding && currentSection === section.id
                     ? 'bg-blue-100 text-blue-700 border-l-4 border-blue-500'
                     : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
                 }`}
               >
                 <span className="mr-3">{section.icon}</span>
                 {section.label.replace(/^[^\s]+ /, '')}
-              </button>
+              </Link>
             ))}
           </nav>
         </div>
 
         {/* Main Content */}
         <div className="flex-1 overflow-auto">
-          <div className="p-6">
-            {renderSection()}
+          {/* Remount per account so filters and form state never carry over */}
+          <div key={activeAccountId ?? 'none'} className="p-6">
+            {showOnboarding ? (
+              <OnboardingWizard onboarding={onboarding} />
+            ) : isSectionAllowed ? (
+              <Suspense fallback={<div className="flex justify-center py-12"><LoadingSpinner size="lg" /></div>}>
+                {children}
+                <GiftDetailDrawer />
+              </Suspense>
+            ) : null}
           </div>
         </div>
       </div>
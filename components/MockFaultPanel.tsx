@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  DEFAULT_MOCK_FAULTS,
+  MOCK_ENDPOINTS,
+  MOCK_FAULT_STATUSES,
+  MockEndpoint,
+  MockFaultConfig,
+  MockFaultStatus,
+  getMockBackend
+} from '@/lib/mockBackend';
+import { queryCache } from '@/lib/queryCache';
+import { cn } from '@/lib/utils';
+import toast from 'react-hot-toast';
+
+const STATUS_LABELS: Record<string, string> = {
+  401: '401 Unauthorized',
+  403: '403 Forbidden',
+  409: '409 Conflict',
+  413: '413 Payload Too Large',
+  429: '429 Rate Limited',
+  500: '500 Server Error',
+  network: 'Network error',
+  timeout: 'Timeout'
+};
+
+// Helper function to convert between stored rates (0-1) and percent inputs
+const toPercent = (rate: number) => Math.round(rate * 100);
+const fromPercent = (value: string) => Math.min(100, Math.max(0, Number(value) || 0)) / 100;
+
+// Developer panel for injecting latency and errors into the local mock
+// backend, so every error branch in the sections can be exercised on purpose
+const MockFaultPanel: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [faults, setFaultsState] = useState<MockFaultConfig>(() => getMockBackend().getFaults());
+
+  const updateFaults = (next: MockFaultConfig) => {
+    setFaultsState(next);
+    getMockBackend().setFaults(next);
+  };
+
+  const updateEndpoint = (endpoint: MockEndpoint, patch: { errorRate?: number; status?: MockFaultStatus }) => {
+    const current = faults.endpoints[endpoint] ?? { errorRate: 0, status: 500 };
+    updateFaults({
+      ...faults,
+      endpoints: { ...faults.endpoints, [endpoint]: { ...current, ...patch } }
+    });
+  };
+
+  const handleResetData = () => {
+    getMockBackend().reset();
+    queryCache.clear();
+    toast.success('Mock backend data reset to the demo account');
+  };
+
+  const activeFaults = MOCK_ENDPOINTS.filter(endpoint => (faults.endpoints[endpoint]?.errorRate ?? 0) > 0).length
+    + (faults.latencyMs > 0 ? 1 : 0)
+    + (faults.bulkFailureRate > 0 ? 1 : 0);
+
+  return (
+    <div className="fixed bottom-6 left-6 z-50">
+      {isOpen && (
+        <div className="mb-3 w-96 max-h-[70vh] overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-xl p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-gray-900">🧪 Mock Fault Injection</h3>
+            <button
+              type="button"
+              onClick={() => updateFaults(DEFAULT_MOCK_FAULTS)}
+              className="text-xs text-blue-600 hover:text-blue-500"
+            >
+              Clear faults
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="block text-xs font-medium text-gray-700 mb-1">Extra latency (ms)</span>
+              <input
+                type="number"
+                min={0}
+                step={100}
+                value={faults.latencyMs}
+                onChange={(e) => updateFaults({ ...faults, latencyMs: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs font-medium text-gray-700 mb-1">Bulk item failures (%)</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={toPercent(faults.bulkFailureRate)}
+                onChange={(e) => updateFaults({ ...faults, bulkFailureRate: fromPercent(e.target.value) })}
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          </div>
+
+          <div>
+            <div className="grid grid-cols-[1fr_4rem_8rem] gap-2 text-xs font-medium text-gray-500 uppercase mb-1">
+              <span>Endpoint</span>
+              <span>Error %</span>
+              <span>Respond with</span>
+            </div>
+            <div className="space-y-1">
+              {MOCK_ENDPOINTS.map(endpoint => {
+                const fault = faults.endpoints[endpoint];
+                const rate = fault?.errorRate ?? 0;
+                return (
+                  <div key={endpoint} className="grid grid-cols-[1fr_4rem_8rem] gap-2 items-center">
+                    <span className={cn('text-xs font-mono truncate', rate > 0 ? 'text-red-700' : 'text-gray-700')}>
+                      {endpoint}
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={toPercent(rate)}
+                      onChange={(e) => updateEndpoint(endpoint, { errorRate: fromPercent(e.target.value) })}
+                      className="px-1 py-0.5 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                    <select
+                      value={String(fault?.status ?? 500)}
+                      onChange={(e) => {
+                        const value = e.target.value;
+                        updateEndpoint(endpoint, {
+                          status: (isNaN(Number(value)) ? value : Number(value)) as MockFaultStatus
+                        });
+                      }}
+                      className="px-1 py-0.5 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                      {MOCK_FAULT_STATUSES.map(status => (
+                        <option key={status} value={String(status)}>
+                          {STATUS_LABELS[status]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="pt-3 border-t border-gray-200 flex justify-end">
+            <button
+              type="button"
+              onClick={handleResetData}
+              className="text-xs px-3 py-1.5 text-red-700 border border-red-200 rounded-md hover:bg-red-50"
+            >
+              Reset mock data
+            </button>
+          </div>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className={cn(
+          'flex items-center space-x-2 px-4 py-2 rounded-full shadow-lg text-sm font-medium',
+          activeFaults > 0 ? 'bg-red-600 text-white hover:bg-red-700' : 'bg-gray-900 text-white hover:bg-gray-800'
+        )}
+      >
+        <span>🧪 Faults</span>
+        {activeFaults > 0 && (
+          <span className="bg-white text-red-700 text-xs rounded-full px-2">{activeFaults}</span>
+        )}
+      </button>
+    </div>
+  );
+};
+
+export default MockFaultPanel;
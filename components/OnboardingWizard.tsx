@@ -0,0 +1,306 @@
+'use client';
+
+import React, { useState } from 'react';
+import { apiService } from '@/lib/api';
+import { queryKeys } from '@/lib/queryCache';
+import { toApiError } from '@/lib/errors';
+import { useAuth } from '@/contexts/AuthContext';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { UseOnboardingResult } from '@/hooks/useOnboarding';
+import { ONBOARDING_STEPS } from '@/lib/onboarding';
+import { cn } from '@/lib/utils';
+import { OnboardingStep } from '@/types';
+import EmailConfiguration from './sections/EmailConfiguration';
+import FulfillmentConfiguration from './sections/FulfillmentConfiguration';
+import MockVerification from './sections/MockVerification';
+import LoadingSpinner from './LoadingSpinner';
+import toast from 'react-hot-toast';
+
+// Campaign the sandbox gift is filed under, so it is easy to find later
+const ONBOARDING_CAMPAIGN_ID = 'ONBOARDING';
+
+interface OnboardingWizardProps {
+  onboarding: UseOnboardingResult;
+}
+
+// Guided setup for a new account: key, email, fulfillment, then a sandbox
+// gift sent to the user and verified. Every step can be skipped, and
+// "Finish later" keeps the progress for the sidebar's resume button.
+const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ onboarding }) => {
+  const { progress, update, completeStep, goToStep, finish } = onboarding;
+  const { userInfo, environment } = useAuth();
+  const [isSendingGift, setIsSendingGift] = useState(false);
+  const { data: profile } = useApiQuery(queryKeys.userProfile, () => apiService.getUserProfile());
+
+  if (!progress) return null;
+
+  const { currentStep, checks } = progress;
+  const stepIndex = ONBOARDING_STEPS.findIndex(step => step.id === currentStep);
+  const current = ONBOARDING_STEPS[stepIndex];
+
+  // Whether the current step has done what it asks, enabling Continue
+  const isStepReady: Record<OnboardingStep, boolean> = {
+    api_key: progress.steps.api_key === 'done',
+    email: Boolean(checks.emailSaved && checks.emailTested),
+    fulfillment: Boolean(checks.fulfillmentSaved && checks.fulfillmentTested),
+    first_gift: Boolean(progress.giftId),
+    verify: progress.steps.verify === 'done'
+  };
+
+  const setCheck = (check: keyof typeof checks) => update({ checks: { ...checks, [check]: true } });
+
+  const handleSendSandboxGift = async () => {
+    if (!userInfo) return;
+    setIsSendingGift(true);
+    try {
+      // Sent to the new user, using their profile details where available
+      const address = profile?.address;
+      const response = await apiService.initiateGift({
+        recipient: {
+          fullName: userInfo.full_name,
+          email: userInfo.email,
+          phone: profile?.phone_number || '555-0100',
+          address: {
+            line1: address?.line1 || '1 Sandbox Way',
+            city: address?.city || 'Springfield',
+            state: address?.state || 'IL',
+            zip: address?.zip || '62701',
+            country: address?.country || 'USA'
+          }
+        },
+        gift: {
+          type: 'thank_you_card',
+          templateId: 'template1',
+          message: 'My first GiftLib gift 🎉',
+          deliveryDate: ''
+        },
+        meta: {
+          campaignId: ONBOARDING_CAMPAIGN_ID,
+          orderSource: 'Onboarding'
+        }
+      });
+      update({ giftId: response.giftId });
+      toast.success(`Sandbox gift sent to ${userInfo.email}`);
+    } catch (error) {
+      console.error('Error sending sandbox gift:', error);
+      toast.error(`Failed to send sandbox gift: ${toApiError(error).message}`);
+    } finally {
+      setIsSendingGift(false);
+    }
+  };
+
+  const handleFinishLater = () => {
+    update({ dismissed: true });
+    toast('Setup saved. Resume it any time from the sidebar.', { icon: '🚀' });
+  };
+
+  const renderChecklistItem = (done: boolean | undefined, label: string) => (
+    <li className={cn('flex items-center text-sm', done ? 'text-green-700' : 'text-gray-500')}>
+      <span className="mr-2">{done ? '✅' : '⬜'}</span>
+      {label}
+    </li>
+  );
+
+  const renderStep = () => {
+    switch (currentStep) {
+      case 'api_key':
+        return (
+          <div className="bg-white p-6 rounded-lg border border-gray-200">
+            <p className="text-gray-700 mb-3">
+              {progress.steps.api_key === 'done'
+                ? '✅ You confirmed that your API key is saved.'
+                : 'Your API key was shown once when the account was created.'}
+            </p>
+            <p className="text-sm text-gray-600">
+              If it is lost, create a new one under <strong>API Keys</strong>. Keys can be scoped and revoked there at any time.
+            </p>
+          </div>
+        );
+      case 'email':
+        return (
+          <>
+            <ul className="mb-6 space-y-1">
+              {renderChecklistItem(checks.emailSaved, 'Save your email configuration')}
+              {renderChecklistItem(checks.emailTested, 'Send a test email')}
+            </ul>
+            <EmailConfiguration onSaved={() => setCheck('emailSaved')} onTestSent={() => setCheck('emailTested')} />
+          </>
+        );
+      case 'fulfillment':
+        return (
+          <>
+            <ul className="mb-6 space-y-1">
+              {renderChecklistItem(checks.fulfillmentSaved, 'Save your fulfillment configuration')}
+              {renderChecklistItem(checks.fulfillmentTested, 'Test the fulfillment connection')}
+            </ul>
+            <FulfillmentConfiguration onSaved={() => setCheck('fulfillmentSaved')} onTested={() => setCheck('fulfillmentTested')} />
+          </>
+        );
+      case 'first_gift':
+        return (
+          <div className="bg-white p-6 rounded-lg border border-gray-200">
+            <p className="text-gray-700 mb-4">
+              Send a thank-you card to yourself ({userInfo?.email}) to see the whole flow end to end.
+              It is filed under the <span className="font-mono">{ONBOARDING_CAMPAIGN_ID}</span> campaign.
+            </p>
+            {environment.isProduction ? (
+              <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-3">
+                ⚠️ You are connected to {environment.label}, where this would be a real gift. Switch to a sandbox
+                environment to send a test gift, or skip this step.
+              </p>
+            ) : progress.giftId ? (
+              <p className="text-sm text-green-700">
+                ✅ Sandbox gift sent: <span className="font-mono">{progress.giftId}</span>
+              </p>
+            ) : (
+              <button
+                type="button"
+                onClick={handleSendSandboxGift}
+                disabled={isSendingGift}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSendingGift ? <LoadingSpinner size="sm" /> : '🎁 Send sandbox gift'}
+              </button>
+            )}
+          </div>
+        );
+      case 'verify':
+        return progress.giftId ? (
+          <MockVerification
+            key={progress.giftId}
+            initialGiftId={progress.giftId}
+            onVerified={() => completeStep('verify', 'done')}
+          />
+        ) : (
+          <div className="bg-white p-6 rounded-lg border border-gray-200 text-gray-700">
+            No sandbox gift was sent, so there is nothing to verify. Go back to send one, or skip this step.
+          </div>
+        );
+    }
+  };
+
+  if (progress.completedAt) {
+    const doneCount = ONBOARDING_STEPS.filter(step => progress.steps[step.id] === 'done').length;
+    return (
+      <div className="max-w-3xl mx-auto">
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">🎉 You&apos;re all set</h2>
+          <p className="text-gray-600">
+            {doneCount} of {ONBOARDING_STEPS.length} setup steps completed. Skipped steps can be finished from their sections later.
+          </p>
+        </div>
+        <ul className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-200 mb-6">
+          {ONBOARDING_STEPS.map(step => (
+            <li key={step.id} className="px-4 py-3 flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {progress.steps[step.id] === 'done' ? '✅' : '⏭️'} {step.title}
+                </p>
+                <p className="text-xs text-gray-500">{step.description}</p>
+              </div>
+              {progress.steps[step.id] !== 'done' && step.id !== 'api_key' && (
+                <button
+                  type="button"
+                  onClick={() => goToStep(step.id)}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  Do it now
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={finish}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            Go to the dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">🚀 Set up GiftLib</h2>
+          <p className="text-gray-600">
+            Step {stepIndex + 1} of {ONBOARDING_STEPS.length}: {current.description}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleFinishLater}
+          className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Finish later
+        </button>
+      </div>
+
+      {/* Steps */}
+      <ol className="flex flex-wrap gap-2 mb-8">
+        {ONBOARDING_STEPS.map((step, index) => {
+          const status = progress.steps[step.id];
+          return (
+            <li key={step.id}>
+              <button
+                type="button"
+                onClick={() => goToStep(step.id)}
+                className={cn(
+                  'px-3 py-1.5 rounded-full text-sm border transition-colors',
+                  step.id === currentStep
+                    ? 'bg-blue-600 text-white border-blue-600'
+                    : status === 'done'
+                      ? 'bg-green-50 text-green-800 border-green-200 hover:bg-green-100'
+                      : status === 'skipped'
+                        ? 'bg-gray-50 text-gray-500 border-gray-200 hover:bg-gray-100'
+                        : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                )}
+              >
+                {status === 'done' ? '✅' : status === 'skipped' ? '⏭️' : `${index + 1}.`} {step.title}
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="mb-8">
+        {renderStep()}
+      </div>
+
+      <div className="flex items-center justify-between pt-4 border-t border-gray-200">
+        <button
+          type="button"
+          onClick={() => stepIndex > 0 && goToStep(ONBOARDING_STEPS[stepIndex - 1].id)}
+          disabled={stepIndex === 0}
+          className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          ← Back
+        </button>
+        <div className="flex space-x-3">
+          <button
+            type="button"
+            onClick={() => completeStep(currentStep, 'skipped')}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Skip this step
+          </button>
+          <button
+            type="button"
+            onClick={() => completeStep(currentStep, 'done')}
+            disabled={!isStepReady[currentStep]}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Continue →
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OnboardingWizard;
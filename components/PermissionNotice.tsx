@@ -0,0 +1,24 @@
+'use client';
+
+import React from 'react';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Permission } from '@/lib/permissions';
+
+interface PermissionNoticeProps {
+  permission: Permission;
+  action: string;
+}
+
+// Explains why a section's controls are disabled for the active role
+const PermissionNotice: React.FC<PermissionNoticeProps> = ({ permission, action }) => {
+  const { can, roleLabel } = usePermissions();
+  if (can(permission)) return null;
+
+  return (
+    <div className="mb-6 px-4 py-3 rounded-md bg-amber-50 border border-amber-200 text-sm text-amber-800">
+      🔒 Your {roleLabel} role can&apos;t {action}. Ask an admin if you need access.
+    </div>
+  );
+};
+
+export default PermissionNotice;
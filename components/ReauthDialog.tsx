@@ -0,0 +1,95 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { toApiError } from '@/lib/errors';
+import LoadingSpinner from './LoadingSpinner';
+import toast from 'react-hot-toast';
+
+// Shown over the app once the session has ended. Signing in again here keeps
+// the sections mounted, so unsaved gift and bulk forms are still there.
+const ReauthDialog: React.FC = () => {
+  const { lockReason, userInfo, accounts, environment, reauthenticate, logout } = useAuth();
+  const [apiKey, setApiKey] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!lockReason) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!apiKey.trim()) {
+      toast.error('Please enter your API key');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await reauthenticate(apiKey.trim());
+      setApiKey('');
+    } catch (error) {
+      console.error('Re-authentication error:', error);
+      const apiError = toApiError(error);
+      if (apiError.backendCode === 'unknown_account') {
+        toast.error(apiError.message);
+        return;
+      }
+      switch (apiError.code) {
+        case 'unauthorized':
+        case 'forbidden':
+          toast.error('Invalid API key. Please check your credentials.');
+          break;
+        case 'network_error':
+        case 'timeout':
+          toast.error(`Could not reach ${environment.label} backend. Please try again.`);
+          break;
+        default:
+          toast.error(`Sign in failed: ${apiError.message}`);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900 bg-opacity-60 backdrop-blur-sm">
+      <div role="dialog" aria-modal="true" className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">🔐 Sign in to continue</h3>
+        <p className="text-sm text-gray-600 mb-1">{lockReason}</p>
+        <p className="text-sm text-gray-600 mb-6">
+          Enter your API key{userInfo ? <> for <strong>{userInfo.email}</strong></> : ''} to pick up where you left off. Unsaved forms are kept{accounts.length > 1 ? ', and so are your other saved accounts' : ''}.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <input
+            type="password"
+            autoFocus
+            placeholder="Enter your API key"
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+            disabled={isSubmitting}
+          />
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={logout}
+              disabled={isSubmitting}
+              className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Log out
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSubmitting ? <LoadingSpinner size="sm" /> : 'Sign in'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ReauthDialog;
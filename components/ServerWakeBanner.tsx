@@ -0,0 +1,30 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { getServerStatus, subscribeServerStatus, ServerStatus } from '@/lib/serverStatus';
+import LoadingSpinner from './LoadingSpinner';
+
+// Shown while requests are being retried against a sleeping backend
+const ServerWakeBanner: React.FC = () => {
+  const [status, setStatus] = useState<ServerStatus>(getServerStatus);
+
+  useEffect(() => subscribeServerStatus(setStatus), []);
+
+  if (status !== 'waking') return null;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50">
+      <div className="flex items-center space-x-3 bg-white border border-blue-200 shadow-lg rounded-full px-5 py-3">
+        <LoadingSpinner size="sm" />
+        <div>
+          <div className="text-sm font-medium text-gray-900">Waking up server…</div>
+          <div className="text-xs text-gray-500">
+            The backend was idle and can take up to a minute to start. Your request will be retried automatically.
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ServerWakeBanner;
@@ -0,0 +1,108 @@
+'use client';
+
+import React, { useState } from 'react';
+import { requiresStatusReason } from '@/lib/giftStatus';
+import { statusIcons } from '@/lib/utils';
+import { GiftStatus } from '@/types';
+
+interface StatusChangeDialogProps {
+  // What is being changed, e.g. a gift ID or "12 gifts"
+  subject: string;
+  fromStatus?: GiftStatus;
+  status: GiftStatus;
+  force?: boolean;
+  // Notes already entered elsewhere, e.g. the status form's tracking info
+  initialNotes?: string;
+  onConfirm: (notes: string) => void;
+  onCancel: () => void;
+}
+
+// What confirming a destructive status means for the gift
+const STATUS_CONSEQUENCES: Partial<Record<GiftStatus, string>> = {
+  cancelled: 'Cancelled gifts can\'t be reopened or sent.',
+  failed: 'The gift stops here until it is moved back to pending for another attempt.'
+};
+
+// Confirms a status change and asks for the notes sent with it. A reason is
+// required for cancelled/failed and for forced changes, which skip the
+// transition rules.
+const StatusChangeDialog: React.FC<StatusChangeDialogProps> = ({
+  subject,
+  fromStatus,
+  status,
+  force = false,
+  initialNotes = '',
+  onConfirm,
+  onCancel
+}) => {
+  const [notes, setNotes] = useState(initialNotes);
+  const reasonRequired = requiresStatusReason(status, force);
+  const isDestructive = force || status === 'cancelled' || status === 'failed';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (reasonRequired && !notes.trim()) return;
+    onConfirm(notes.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900 bg-opacity-60 backdrop-blur-sm">
+      <div role="dialog" aria-modal="true" className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">
+          {statusIcons[status]} {force ? 'Force status to' : 'Mark as'} {status}
+        </h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {subject}{fromStatus ? <> is currently <strong>{fromStatus}</strong>.</> : '.'}
+        </p>
+
+        {force && (
+          <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-3 mb-4">
+            ⚠️ This skips the allowed status transitions. The change, your name and the reason are recorded on the gift&apos;s timeline.
+          </p>
+        )}
+        {STATUS_CONSEQUENCES[status] && (
+          <p className="text-sm text-red-800 bg-red-50 border border-red-200 rounded-md p-3 mb-4">
+            {STATUS_CONSEQUENCES[status]} You can still undo it for a few seconds after confirming. Leaving the page before then drops the change.
+          </p>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="status-change-notes" className="block text-sm font-medium text-gray-700 mb-1">
+              {reasonRequired ? 'Reason *' : 'Notes (optional)'}
+            </label>
+            <textarea
+              id="status-change-notes"
+              rows={3}
+              autoFocus
+              placeholder={reasonRequired ? 'Why is this gift being changed?' : 'Tracking number or other details...'}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Back
+            </button>
+            <button
+              type="submit"
+              disabled={reasonRequired && !notes.trim()}
+              className={`px-4 py-2 text-sm font-medium text-white rounded-md disabled:opacity-50 ${
+                isDestructive ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {force ? 'Force change' : `Mark ${status}`}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default StatusChangeDialog;
@@ -0,0 +1,37 @@
+'use client';
+
+import React from 'react';
+import toast, { Toast } from 'react-hot-toast';
+import { STATUS_UNDO_WINDOW_MS } from '@/lib/api';
+
+interface UndoToastProps {
+  toast: Toast;
+  message: string;
+  onUndo: () => void;
+}
+
+// Toast body for a change that is held back until the toast closes, with a
+// button to take it back. Shown with toast() for the change's undo window.
+const UndoToast: React.FC<UndoToastProps> = ({ toast: t, message, onUndo }) => (
+  <span className="flex items-center text-sm">
+    <span>{message}</span>
+    <button
+      type="button"
+      onClick={() => {
+        toast.dismiss(t.id);
+        onUndo();
+      }}
+      className="ml-4 px-2 py-1 font-medium text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded"
+    >
+      ↩️ Undo
+    </button>
+  </span>
+);
+
+// Helper function to show the undo toast for a change deferred with the
+// status undo window
+export const showUndoToast = (message: string, onUndo: () => void) => {
+  toast((t) => <UndoToast toast={t} message={message} onUndo={onUndo} />, { duration: STATUS_UNDO_WINDOW_MS });
+};
+
+export default UndoToast;
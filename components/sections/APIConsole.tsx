@@ -0,0 +1,267 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  RequestLogEntry,
+  clearRequestLog,
+  getRequestLog,
+  replayRequest,
+  subscribeRequestLog,
+  toCurlCommand
+} from '@/lib/requestLog';
+import { toApiError } from '@/lib/errors';
+import { cn } from '@/lib/utils';
+import toast from 'react-hot-toast';
+
+type OutcomeFilter = 'all' | 'success' | 'error' | 'pending';
+
+const METHOD_COLORS: Record<string, string> = {
+  GET: 'bg-blue-100 text-blue-800',
+  POST: 'bg-green-100 text-green-800',
+  PUT: 'bg-yellow-100 text-yellow-800',
+  DELETE: 'bg-red-100 text-red-800'
+};
+
+// Helper function to pick a colour for a response status
+const statusColor = (entry: RequestLogEntry) => {
+  if (entry.status === null) {
+    return entry.error ? 'text-red-600' : 'text-gray-400';
+  }
+  if (entry.status >= 500) return 'text-red-600';
+  if (entry.status >= 400) return 'text-orange-600';
+  return 'text-green-600';
+};
+
+const outcomeOf = (entry: RequestLogEntry): OutcomeFilter => {
+  if (entry.error) return 'error';
+  if (entry.status === null) return 'pending';
+  return 'success';
+};
+
+const formatJson = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+};
+
+const CodeBlock: React.FC<{ title: string; value: unknown }> = ({ title, value }) => (
+  <div>
+    <h4 className="text-xs font-semibold text-gray-500 uppercase mb-1">{title}</h4>
+    <pre className="text-xs font-mono bg-gray-50 border border-gray-200 rounded-md p-3 overflow-auto max-h-64 whitespace-pre-wrap break-all">
+      {formatJson(value)}
+    </pre>
+  </div>
+);
+
+const APIConsole: React.FC = () => {
+  const [entries, setEntries] = useState<RequestLogEntry[]>(getRequestLog);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [methodFilter, setMethodFilter] = useState('');
+  const [outcomeFilter, setOutcomeFilter] = useState<OutcomeFilter>('all');
+  const [isReplaying, setIsReplaying] = useState(false);
+
+  useEffect(() => subscribeRequestLog(setEntries), []);
+
+  const methods = useMemo(() => Array.from(new Set(entries.map(entry => entry.method))).sort(), [entries]);
+
+  const filteredEntries = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return entries.filter(entry => {
+      if (methodFilter && entry.method !== methodFilter) return false;
+      if (outcomeFilter !== 'all' && outcomeOf(entry) !== outcomeFilter) return false;
+      if (term && !`${entry.url} ${entry.status ?? ''} ${entry.error ?? ''}`.toLowerCase().includes(term)) {
+        return false;
+      }
+      return true;
+    });
+  }, [entries, search, methodFilter, outcomeFilter]);
+
+  const selected = entries.find(entry => entry.id === selectedId) ?? null;
+
+  const handleReplay = async (entry: RequestLogEntry) => {
+    setIsReplaying(true);
+    try {
+      const response = await replayRequest(entry);
+      toast.success(`Replayed ${entry.method} → ${response.status}`);
+    } catch (error) {
+      const apiError = toApiError(error);
+      toast.error(`Replay failed: ${apiError.status ?? apiError.code} ${apiError.message}`);
+    } finally {
+      // The replay is the newest entry
+      setSelectedId(getRequestLog()[0]?.id ?? null);
+      setIsReplaying(false);
+    }
+  };
+
+  const handleCopyCurl = async (entry: RequestLogEntry) => {
+    try {
+      await navigator.clipboard.writeText(toCurlCommand(entry));
+      toast.success(entry.hasRedactedBody
+        ? 'curl command copied. Set GIFTLIB_API_KEY and fill in the [REDACTED] fields before running it.'
+        : 'curl command copied. Set GIFTLIB_API_KEY before running it.');
+    } catch (error) {
+      console.error('Error copying curl command:', error);
+      toast.error('Could not copy to clipboard');
+    }
+  };
+
+  const handleClear = () => {
+    clearRequestLog();
+    setSelectedId(null);
+  };
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">🛰️ API Console</h2>
+        <p className="text-gray-600">
+          Every request made by the dashboard in this tab, with headers, payloads and timing. API keys are redacted.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-lg border border-gray-200 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Search</label>
+            <input
+              type="text"
+              placeholder="URL, status or error..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
+            <select
+              value={methodFilter}
+              onChange={(e) => setMethodFilter(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All methods</option>
+              {methods.map(method => (
+                <option key={method} value={method}>{method}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Outcome</label>
+            <select
+              value={outcomeFilter}
+              onChange={(e) => setOutcomeFilter(e.target.value as OutcomeFilter)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">All</option>
+              <option value="success">Completed</option>
+              <option value="error">Failed</option>
+              <option value="pending">In flight</option>
+            </select>
+          </div>
+        </div>
+        <div className="mt-4 flex items-center justify-between text-sm text-gray-500">
+          <span>
+            Showing {filteredEntries.length} of {entries.length} requests
+          </span>
+          <button
+            onClick={handleClear}
+            disabled={entries.length === 0}
+            className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            🗑️ Clear log
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {/* Request list */}
+        <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+          {filteredEntries.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <div className="text-4xl mb-2">🛰️</div>
+              <p>No requests recorded yet. Use any section and its API calls will appear here.</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-100 max-h-[70vh] overflow-y-auto">
+              {filteredEntries.map(entry => (
+                <button
+                  key={entry.id}
+                  onClick={() => setSelectedId(entry.id)}
+                  className={cn(
+                    'w-full text-left px-4 py-2 flex items-center space-x-3 hover:bg-gray-50',
+                    entry.id === selectedId && 'bg-blue-50'
+                  )}
+                >
+                  <span className={cn('text-xs font-semibold px-2 py-0.5 rounded', METHOD_COLORS[entry.method] ?? 'bg-gray-100 text-gray-800')}>
+                    {entry.method}
+                  </span>
+                  <span className={cn('text-sm font-mono w-10', statusColor(entry))}>
+                    {entry.status ?? (entry.error ? 'ERR' : '…')}
+                  </span>
+                  <span className="flex-1 text-sm font-mono text-gray-800 truncate" title={entry.url}>
+                    {entry.url}
+                  </span>
+                  {entry.retryAttempt > 0 && (
+                    <span className="text-xs text-amber-700">retry {entry.retryAttempt}</span>
+                  )}
+                  <span className="text-xs text-gray-500 w-16 text-right">
+                    {entry.durationMs !== null ? `${entry.durationMs} ms` : ''}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Request detail */}
+        <div className="bg-white rounded-lg border border-gray-200 p-4">
+          {!selected ? (
+            <div className="text-center py-12 text-gray-500">Select a request to inspect it</div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="text-sm font-mono text-gray-900 break-all">
+                    {selected.method} {selected.url}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {new Date(selected.startedAt).toLocaleTimeString()} · via {selected.source}
+                    {selected.durationMs !== null && ` · ${selected.durationMs} ms`}
+                    {selected.responseHeaders['x-request-id'] && ` · request ${selected.responseHeaders['x-request-id']}`}
+                  </div>
+                  <div className={cn('text-sm font-medium mt-1', statusColor(selected))}>
+                    {selected.status !== null ? `Status ${selected.status}` : selected.error ? 'No response' : 'In flight'}
+                    {selected.error && ` — ${selected.error}`}
+                  </div>
+                </div>
+                <div className="flex space-x-2 flex-shrink-0">
+                  <button
+                    onClick={() => handleReplay(selected)}
+                    disabled={isReplaying || selected.hasRedactedBody}
+                    title={selected.hasRedactedBody ? 'The body had secrets, which are not kept in the log' : undefined}
+                    className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {isReplaying ? 'Replaying...' : '🔁 Replay'}
+                  </button>
+                  <button
+                    onClick={() => handleCopyCurl(selected)}
+                    className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    📋 Copy as curl
+                  </button>
+                </div>
+              </div>
+
+              <CodeBlock title="Request headers" value={selected.requestHeaders} />
+              <CodeBlock title="Request body" value={selected.requestBody} />
+              <CodeBlock title="Response headers" value={selected.responseHeaders} />
+              <CodeBlock title="Response body" value={selected.responseBody} />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default APIConsole;
@@ -1,31 +1,13 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { apiService } from '@/lib/api';
 import { useAuth } from '@/contexts/AuthContext';
 import { formatDate } from '@/lib/utils';
+import { HealthCheck } from '@/types';
 import LoadingSpinner from '../LoadingSpinner';
 import toast from 'react-hot-toast';
 
-interface HealthCheck {
-  status: string;
-  timestamp: string;
-  version?: string;
-  uptime?: number;
-  database?: {
-    status: string;
-    response_time?: number;
-  };
-  email_service?: {
-    status: string;
-    provider?: string;
-  };
-  fulfillment_service?: {
-    status: string;
-    provider?: string;
-  };
-}
-
 interface ProductionReadiness {
   overall_status: string;
   checks: {
@@ -45,34 +27,9 @@ const APIStatus: React.FC = () => {
   const [isLoadingProduction, setIsLoadingProduction] = useState(false);
   const [lastRefresh, setLastRefresh] = useState<Date | null>(null);
   const [autoRefresh, setAutoRefresh] = useState(false);
-  const [refreshInterval, setRefreshInterval] = useState<NodeJS.Timeout | null>(null);
-
-  useEffect(() => {
-    loadHealthStatus();
-    loadProductionReadiness();
-  }, []);
-
-  useEffect(() => {
-    if (autoRefresh) {
-      const interval = setInterval(() => {
-        loadHealthStatus();
-      }, 30000); // Refresh every 30 seconds
-      setRefreshInterval(interval);
-    } else {
-      if (refreshInterval) {
-        clearInterval(refreshInterval);
-        setRefreshInterval(null);
-      }
-    }
-
-    return () => {
-      if (refreshInterval) {
-        clearInterval(refreshInterval);
-      }
-    };
-  }, [autoRefresh]);
 
-  const loadHealthStatus = async () => {
+  // Quiet loads (auto-refresh) show the error state without a toast
+  const loadHealthStatus = useCallback(async ({ quiet = false } = {}) => {
     setIsLoadingHealth(true);
     try {
       const response = await apiService.healthCheck();
@@ -84,15 +41,15 @@ const APIStatus: React.FC = () => {
         status: 'error',
         timestamp: new Date().toISOString()
       });
-      if (!autoRefresh) {
+      if (!quiet) {
         toast.error('Failed to load API health status');
       }
     } finally {
       setIsLoadingHealth(false);
     }
-  };
+  }, []);
 
-  const loadProductionReadiness = async () => {
+  const loadProductionReadiness = useCallback(async () => {
     setIsLoadingProduction(true);
     try {
       // Simulate production readiness check
@@ -131,11 +88,24 @@ const APIStatus: React.FC = () => {
     } finally {
       setIsLoadingProduction(false);
     }
-  };
+  }, []);
 
-  const handleRefresh = () => {
+  useEffect(() => {
     loadHealthStatus();
     loadProductionReadiness();
+  }, [loadHealthStatus, loadProductionReadiness]);
+
+  useEffect(() => {
+    if (!autoRefresh) return;
+    const interval = setInterval(() => {
+      loadHealthStatus({ quiet: true });
+    }, 30000); // Refresh every 30 seconds
+    return () => clearInterval(interval);
+  }, [autoRefresh, loadHealthStatus]);
+
+  const handleRefresh = () => {
+    loadHealthStatus({ quiet: autoRefresh });
+    loadProductionReadiness();
   };
 
   const handleClearSession = () => {
@@ -348,7 +318,7 @@ const APIStatus: React.FC = () => {
         ) : (
           <div className="text-center py-8">
             <div className="text-4xl mb-4">🔍</div>
-            <p className="text-gray-500">Click "Refresh" to check API health status</p>
+            <p className="text-gray-500">Click &quot;Refresh&quot; to check API health status</p>
           </div>
         )}
       </div>
@@ -409,7 +379,7 @@ const APIStatus: React.FC = () => {
         ) : (
           <div className="text-center py-8">
             <div className="text-4xl mb-4">🚀</div>
-            <p className="text-gray-500">Click "Refresh" to check production readiness</p>
+            <p className="text-gray-500">Click &quot;Refresh&quot; to check production readiness</p>
           </div>
         )}
       </div>
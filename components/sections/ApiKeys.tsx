@@ -0,0 +1,362 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { apiService } from '@/lib/api';
+import { queryKeys } from '@/lib/queryCache';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { useAuth } from '@/contexts/AuthContext';
+import { toApiError } from '@/lib/errors';
+import { cn, formatDate } from '@/lib/utils';
+import { ApiKey, ApiKeyScope, IssuedApiKey } from '@/types';
+import LoadingSpinner from '../LoadingSpinner';
+import toast from 'react-hot-toast';
+
+const SCOPE_OPTIONS: Array<{ value: ApiKeyScope; label: string; description: string }> = [
+  { value: 'read', label: 'Read', description: 'List gifts, statuses and settings' },
+  { value: 'send', label: 'Send', description: 'Initiate, verify and update gifts' },
+  { value: 'configure', label: 'Configure', description: 'Change email and fulfillment settings and manage keys' }
+];
+
+const EXPIRY_OPTIONS = [
+  { days: 0, label: 'Never' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' }
+];
+
+type KeyState = 'current' | 'active' | 'expired' | 'revoked';
+
+const KEY_STATE_STYLES: Record<KeyState, string> = {
+  current: 'bg-blue-100 text-blue-800',
+  active: 'bg-green-100 text-green-800',
+  expired: 'bg-yellow-100 text-yellow-800',
+  revoked: 'bg-gray-100 text-gray-600'
+};
+
+// Helper function to work out whether a key still authenticates
+const keyState = (key: ApiKey): KeyState => {
+  if (key.revoked_at) return 'revoked';
+  if (key.expires_at && new Date(key.expires_at).getTime() <= Date.now()) return 'expired';
+  return key.is_current ? 'current' : 'active';
+};
+
+const ApiKeys: React.FC = () => {
+  const { maskedApiKey, rotateApiKey } = useAuth();
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['read']);
+  const [expiryDays, setExpiryDays] = useState(90);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  // Shown once, right after a key is issued
+  const [issuedKey, setIssuedKey] = useState<IssuedApiKey | null>(null);
+
+  const { data: keys, error: loadError, isLoading, isFetching, refetch } = useApiQuery(
+    queryKeys.apiKeys,
+    () => apiService.listApiKeys()
+  );
+
+  useEffect(() => {
+    if (loadError) {
+      console.error('Error loading API keys:', loadError);
+      toast.error(`Failed to load API keys: ${toApiError(loadError).message}`);
+    }
+  }, [loadError]);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes(current => current.includes(scope) ? current.filter(value => value !== scope) : [...current, scope]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error('Please give the key a name');
+      return;
+    }
+    if (scopes.length === 0) {
+      toast.error('Select at least one scope');
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const issued = await apiService.createApiKey({
+        name: name.trim(),
+        scopes,
+        expires_at: expiryDays ? new Date(Date.now() + expiryDays * 24 * 3600 * 1000).toISOString() : null
+      });
+      setIssuedKey(issued);
+      setName('');
+      toast.success(`API key "${issued.key.name}" created`);
+    } catch (error) {
+      console.error('Error creating API key:', error);
+      toast.error(`Failed to create API key: ${toApiError(error).message}`);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRotate = async () => {
+    if (!window.confirm('Rotate the key you are signed in with? It stops working immediately, so update any scripts or integrations that use it.')) {
+      return;
+    }
+
+    setIsRotating(true);
+    try {
+      setIssuedKey(await rotateApiKey());
+      toast.success('API key rotated. You are now signed in with the new key.');
+    } catch (error) {
+      console.error('Error rotating API key:', error);
+      toast.error(`Failed to rotate API key: ${toApiError(error).message}`);
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    if (!window.confirm(`Revoke "${key.name}"? Anything using it will stop working immediately.`)) {
+      return;
+    }
+
+    setRevokingId(key.key_id);
+    try {
+      await apiService.revokeApiKey(key.key_id);
+      toast.success(`API key "${key.name}" revoked`);
+    } catch (error) {
+      console.error('Error revoking API key:', error);
+      toast.error(`Failed to revoke API key: ${toApiError(error).message}`);
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleCopy = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success('API key copied to clipboard');
+    } catch (error) {
+      console.error('Error copying API key:', error);
+      toast.error('Could not copy to clipboard');
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">🔑 API Keys</h2>
+        <p className="text-gray-600">
+          Issue scoped keys for scripts and reporting tools, revoke the ones you no longer need and rotate a leaked key.
+        </p>
+      </div>
+
+      {/* Newly issued key */}
+      {issuedKey && (
+        <div className="bg-green-50 p-6 rounded-lg border border-green-200 mb-8">
+          <h3 className="text-lg font-semibold text-green-900 mb-2">✅ {issuedKey.key.name}</h3>
+          <p className="text-sm text-green-800 mb-4">
+            Copy this key now. For your security it will not be shown again.
+          </p>
+          <div className="flex items-center space-x-3">
+            <code className="flex-1 text-sm font-mono bg-white px-3 py-2 rounded border border-green-200 break-all">
+              {issuedKey.api_key}
+            </code>
+            <button
+              type="button"
+              onClick={() => handleCopy(issuedKey.api_key)}
+              className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700"
+            >
+              📋 Copy
+            </button>
+            <button
+              type="button"
+              onClick={() => setIssuedKey(null)}
+              className="px-4 py-2 text-sm text-green-800 border border-green-300 rounded-md hover:bg-green-100"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Current key */}
+      <div className="bg-gray-50 p-6 rounded-lg border border-gray-200 mb-8">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">🔐 Signed-in Key</h3>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <div className="text-sm font-mono text-gray-800 bg-white px-3 py-2 rounded border inline-block">{maskedApiKey}</div>
+            <p className="text-xs text-gray-500 mt-2">
+              Rotating issues a replacement with the same scopes and expiry, revokes this key and keeps you signed in.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleRotate}
+            disabled={isRotating}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-orange-600 rounded-md hover:bg-orange-700 disabled:opacity-50"
+          >
+            {isRotating ? <LoadingSpinner size="sm" /> : '🔄 Rotate key'}
+          </button>
+        </div>
+      </div>
+
+      {/* Create key */}
+      <div className="bg-white p-6 rounded-lg border border-gray-200 mb-8">
+        <h3 className="text-lg font-semibold text-gray-900 mb-6">➕ Create Key</h3>
+        <form onSubmit={handleCreate} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="api-key-name" className="block text-sm font-medium text-gray-700 mb-1">
+                Name *
+              </label>
+              <input
+                id="api-key-name"
+                type="text"
+                placeholder="e.g. Reporting dashboard"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={isCreating}
+              />
+            </div>
+            <div>
+              <label htmlFor="api-key-expiry" className="block text-sm font-medium text-gray-700 mb-1">
+                Expires after
+              </label>
+              <select
+                id="api-key-expiry"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                value={expiryDays}
+                onChange={(e) => setExpiryDays(Number(e.target.value))}
+                disabled={isCreating}
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.days} value={option.days}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-2">Scopes *</legend>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {SCOPE_OPTIONS.map(option => (
+                <label
+                  key={option.value}
+                  className={cn(
+                    'flex items-start space-x-3 p-3 rounded-md border cursor-pointer',
+                    scopes.includes(option.value) ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  )}
+                >
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={scopes.includes(option.value)}
+                    onChange={() => toggleScope(option.value)}
+                    disabled={isCreating}
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                    <span className="block text-xs text-gray-500">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <button
+            type="submit"
+            disabled={isCreating}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isCreating ? <LoadingSpinner size="sm" /> : 'Create key'}
+          </button>
+        </form>
+      </div>
+
+      {/* Key list */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">📋 Keys</h3>
+          <button
+            type="button"
+            onClick={() => refetch().catch(() => undefined)}
+            disabled={isFetching}
+            className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isFetching ? 'Refreshing...' : '🔄 Refresh'}
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : !keys || keys.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <div className="text-4xl mb-2">🔑</div>
+            <p>No API keys to show.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Name', 'Key', 'Scopes', 'Created', 'Last used', 'Expires', 'Status', ''].map(heading => (
+                    <th key={heading} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {keys.map(key => {
+                  const state = keyState(key);
+                  return (
+                    <tr key={key.key_id} className={cn(state === 'revoked' && 'opacity-60')}>
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">{key.name}</td>
+                      <td className="px-4 py-3 text-sm font-mono text-gray-600">{key.masked_key}</td>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="flex flex-wrap gap-1">
+                          {key.scopes.map(scope => (
+                            <span key={scope} className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">{scope}</span>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">{formatDate(key.created_at)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                        {key.last_used_at ? formatDate(key.last_used_at) : 'Never'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                        {key.expires_at ? formatDate(key.expires_at) : 'Never'}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={cn('px-2 py-0.5 text-xs font-medium rounded-full capitalize', KEY_STATE_STYLES[state])}>
+                          {state === 'current' ? 'In use' : state}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right">
+                        {state !== 'revoked' && !key.is_current && (
+                          <button
+                            type="button"
+                            onClick={() => handleRevoke(key)}
+                            disabled={revokingId === key.key_id}
+                            className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                          >
+                            {revokingId === key.key_id ? 'Revoking...' : 'Revoke'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeys;
@@ -1,18 +1,27 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { apiService } from '@/lib/api';
-import { generateSampleBulkData } from '@/lib/utils';
+import { toApiError } from '@/lib/errors';
+import { generateIdempotencyKey, generateSampleBulkData } from '@/lib/utils';
+import { BulkGiftResponse } from '@/types';
+import { usePermissions } from '@/hooks/usePermissions';
 import LoadingSpinner from '../LoadingSpinner';
+import PermissionNotice from '../PermissionNotice';
 import toast from 'react-hot-toast';
 
 const BulkOperations: React.FC = () => {
+  const { can } = usePermissions();
+  const canSendBulk = can('gifts:bulk');
   const [isLoading, setIsLoading] = useState(false);
   const [jsonInput, setJsonInput] = useState('');
   const [validationError, setValidationError] = useState('');
-  const [lastResult, setLastResult] = useState<any>(null);
+  const [lastResult, setLastResult] = useState<BulkGiftResponse | null>(null);
+  // Stays the same until the JSON changes so resubmitting after a timeout is replayed
+  const idempotencyKeyRef = useRef<string | null>(null);
 
   const handleLoadSample = () => {
+    idempotencyKeyRef.current = null;
     const sampleData = generateSampleBulkData();
     setJsonInput(JSON.stringify(sampleData, null, 2));
     setValidationError('');
@@ -87,6 +96,7 @@ const BulkOperations: React.FC = () => {
   };
 
   const handleJsonChange = (value: string) => {
+    idempotencyKeyRef.current = null;
     setJsonInput(value);
     
     if (value.trim()) {
@@ -111,6 +121,10 @@ const BulkOperations: React.FC = () => {
       return;
     }
 
+    if (!idempotencyKeyRef.current) {
+      idempotencyKeyRef.current = generateIdempotencyKey();
+    }
+
     setIsLoading(true);
     try {
       const data = JSON.parse(jsonInput);
@@ -130,25 +144,45 @@ const BulkOperations: React.FC = () => {
         meta: data.meta || {}
       };
       
-      const response = await apiService.bulkInitiateGifts(transformedData);
+      const response = await apiService.bulkInitiateGifts(transformedData, {
+        idempotencyKey: idempotencyKeyRef.current
+      });
       
       setLastResult(response);
-      toast.success(`Successfully initiated ${response.successfulGifts || data.gifts.length} gifts!`);
+      if (response.replayed) {
+        toast.success('This batch was already submitted. Showing the original results.', { duration: 8000 });
+      } else {
+        toast.success(`Successfully initiated ${response.successfulGifts || data.gifts.length} gifts!`);
+      }
       
       if (response.failedGifts && response.failedGifts > 0) {
         toast.error(`${response.failedGifts} gifts failed to initiate`);
       }
       
       // Clear the input after successful submission
+      idempotencyKeyRef.current = null;
       setJsonInput('');
       setValidationError('');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error initiating bulk gifts:', error);
       
-      if (error.response?.status === 400) {
-        toast.error('Invalid bulk gift data. Please check your JSON format.');
-      } else {
-        toast.error('Failed to initiate bulk gifts. Please try again.');
+      const apiError = toApiError(error);
+      switch (apiError.code) {
+        case 'bad_request':
+        case 'validation_error':
+          toast.error(apiError.fieldErrors.length > 0
+            ? `Invalid bulk gift data: ${apiError.message}`
+            : apiError.detail || 'Invalid bulk gift data. Please check your JSON format.');
+          break;
+        case 'payload_too_large':
+          toast.error('Too many gifts in one request. Please split the batch.');
+          break;
+        case 'network_error':
+        case 'timeout':
+          toast.error('The request did not complete. Submitting the same batch again is safe and will not create duplicates.');
+          break;
+        default:
+          toast.error(`Failed to initiate bulk gifts: ${apiError.message}`);
       }
     } finally {
       setIsLoading(false);
@@ -171,6 +205,8 @@ const BulkOperations: React.FC = () => {
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* JSON Input */}
         <div>
+          <PermissionNotice permission="gifts:bulk" action="send bulk gifts" />
+
           <form onSubmit={handleSubmit} className="space-y-4">
             <div>
               <div className="flex items-center justify-between mb-2">
@@ -226,7 +262,7 @@ const BulkOperations: React.FC = () => {
             <div className="flex space-x-4">
               <button
                 type="submit"
-                disabled={isLoading || !!validationError || !jsonInput.trim()}
+                disabled={isLoading || !canSendBulk || !!validationError || !jsonInput.trim()}
                 className="flex-1 inline-flex items-center justify-center px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isLoading ? (
@@ -250,9 +286,9 @@ const BulkOperations: React.FC = () => {
             <div className="text-sm text-blue-800 space-y-2">
               <p>1. Prepare your gift data in JSON format</p>
               <p>2. Each gift must include recipient details, gift information, and optional metadata</p>
-              <p>3. Use the "Load Sample" button to see the expected format</p>
+              <p>3. Use the &quot;Load Sample&quot; button to see the expected format</p>
               <p>4. Validate your JSON before submitting</p>
-              <p>5. Click "Initiate Bulk Gifts" to process all gifts</p>
+              <p>5. Click &quot;Initiate Bulk Gifts&quot; to process all gifts</p>
             </div>
           </div>
 
@@ -282,34 +318,35 @@ const BulkOperations: React.FC = () => {
           {lastResult && (
             <div className="bg-gray-50 p-6 rounded-lg border border-gray-200">
               <h3 className="text-lg font-semibold text-gray-900 mb-3">📊 Last Operation Result</h3>
+              {lastResult.replayed && (
+                <div className="mb-3 text-sm text-blue-800 bg-blue-50 border border-blue-200 p-2 rounded">
+                  🔁 Duplicate submission detected. These are the results of the original request; no new gifts were created.
+                </div>
+              )}
               <div className="text-sm space-y-2">
-                {(lastResult.successful_count !== undefined || lastResult.successfulGifts !== undefined) && (
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">Successful:</span>
-                    <span className="font-medium text-green-600">{lastResult.successfulGifts || lastResult.successful_count}</span>
-                  </div>
-                )}
-                {(lastResult.failed_count !== undefined || lastResult.failedGifts !== undefined) && (
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">Failed:</span>
-                    <span className="font-medium text-red-600">{lastResult.failedGifts || lastResult.failed_count}</span>
-                  </div>
-                )}
-                {lastResult.gift_ids && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Successful:</span>
+                  <span className="font-medium text-green-600">{lastResult.successfulGifts}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Failed:</span>
+                  <span className="font-medium text-red-600">{lastResult.failedGifts}</span>
+                </div>
+                {lastResult.giftIds.length > 0 && (
                   <div>
                     <div className="text-gray-600 mb-1">Gift IDs:</div>
                     <div className="bg-white p-2 rounded border text-xs font-mono max-h-32 overflow-y-auto">
-                      {lastResult.gift_ids.map((id: string, index: number) => (
+                      {lastResult.giftIds.map((id, index) => (
                         <div key={index}>{id}</div>
                       ))}
                     </div>
                   </div>
                 )}
-                {lastResult.errors && lastResult.errors.length > 0 && (
+                {lastResult.errors.length > 0 && (
                   <div>
                     <div className="text-gray-600 mb-1">Errors:</div>
                     <div className="bg-red-50 p-2 rounded border text-xs max-h-32 overflow-y-auto">
-                      {lastResult.errors.map((error: string, index: number) => (
+                      {lastResult.errors.map((error, index) => (
                         <div key={index} className="text-red-700">{error}</div>
                       ))}
                     </div>
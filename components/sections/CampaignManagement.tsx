@@ -1,19 +1,47 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { apiService } from '@/lib/api';
+import { queryKeys } from '@/lib/queryCache';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { toApiError } from '@/lib/errors';
 import { statusIcons, statusColors, formatDate, calculateStatistics } from '@/lib/utils';
-import { Gift, GiftStatus } from '@/types';
+import { GiftStatus } from '@/types';
+import { useUrlParams } from '@/hooks/useUrlParams';
 import LoadingSpinner from '../LoadingSpinner';
+import GiftIdLink from '../GiftIdLink';
 import toast from 'react-hot-toast';
 
 const CampaignManagement: React.FC = () => {
-  const [campaignId, setCampaignId] = useState('');
-  const [gifts, setGifts] = useState<Gift[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [hasSearched, setHasSearched] = useState(false);
-  
-  const handleSearch = async (e: React.FormEvent) => {
+  // The searched campaign is kept in ?campaign= so results can be linked to
+  // and back/forward moves between searches
+  const { params, setParams } = useUrlParams();
+  const searchedCampaignId = params.get('campaign')?.trim() ?? '';
+  const [campaignId, setCampaignId] = useState(searchedCampaignId);
+  const hasSearched = Boolean(searchedCampaignId);
+
+  useEffect(() => {
+    setCampaignId(searchedCampaignId);
+  }, [searchedCampaignId]);
+
+  // Shared with other sections through the query cache
+  const { data, error: loadError, isLoading } = useApiQuery(
+    queryKeys.campaignGifts(searchedCampaignId),
+    () => apiService.getCampaignGifts(searchedCampaignId),
+    { enabled: hasSearched }
+  );
+  const gifts = useMemo(() => data?.gifts ?? [], [data]);
+
+  useEffect(() => {
+    if (!loadError) return;
+    console.error('Error fetching campaign gifts:', loadError);
+    const apiError = toApiError(loadError);
+    toast.error(apiError.code === 'not_found'
+      ? 'Campaign not found'
+      : `Failed to fetch campaign gifts: ${apiError.message}`);
+  }, [loadError]);
+
+  const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!campaignId.trim()) {
@@ -21,42 +49,12 @@ const CampaignManagement: React.FC = () => {
       return;
     }
 
-    setIsLoading(true);
-    setHasSearched(true);
-    
-    try {
-      const response = await apiService.getCampaignGifts(campaignId.trim());
-      setGifts(response.gifts || []);
-
-      if (response.gifts && response.gifts.length > 0) {
-        toast.success(`Found ${response.gifts.length} gifts for campaign "${campaignId}"`);
-      } else {
-        toast(`No gifts found for campaign "${campaignId}"`, {
-          icon: 'ℹ️',
-          style: {
-            background: '#EFF6FF',
-            color: '#1E40AF'
-          }
-        });
-      }
-    } catch (error: any) {
-      console.error('Error fetching campaign gifts:', error);
-      
-      if (error.response?.status === 404) {
-        toast.error('Campaign not found');
-        setGifts([]);
-      } else {
-        toast.error('Failed to fetch campaign gifts');
-      }
-    } finally {
-      setIsLoading(false);
-    }
+    setParams({ campaign: campaignId.trim() });
   };
 
   const handleClear = () => {
     setCampaignId('');
-    setGifts([]);
-    setHasSearched(false);
+    setParams({ campaign: null });
   };
 
   const stats = calculateStatistics(gifts);
@@ -120,7 +118,7 @@ const CampaignManagement: React.FC = () => {
           {gifts.length > 0 && (
             <div>
               <h3 className="text-lg font-semibold text-gray-900 mb-4">
-                📊 Campaign Summary: "{campaignId}"
+                📊 Campaign Summary: &quot;{searchedCampaignId}&quot;
               </h3>
               
               <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
@@ -238,8 +236,8 @@ const CampaignManagement: React.FC = () => {
                   <tbody className="bg-white divide-y divide-gray-200">
                     {gifts.map((gift) => (
                       <tr key={gift.gift_id} className="hover:bg-gray-50">
-                        <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
-                          {gift.gift_id.slice(0, 8)}...
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <GiftIdLink giftId={gift.gift_id} />
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="text-sm font-medium text-gray-900">
@@ -286,7 +284,7 @@ const CampaignManagement: React.FC = () => {
                 No gifts found
               </h3>
               <p className="text-gray-500">
-                {campaignId ? `No gifts found for campaign "${campaignId}"` : 'Enter a campaign ID to search for gifts'}
+                {`No gifts found for campaign "${searchedCampaignId}"`}
               </p>
             </div>
           )}
@@ -299,7 +297,7 @@ const CampaignManagement: React.FC = () => {
           <h3 className="text-lg font-semibold text-blue-900 mb-3">💡 How to use Campaign Management</h3>
           <div className="text-sm text-blue-800 space-y-2">
             <p>1. Enter a campaign ID in the search field above</p>
-            <p>2. Click "Search" to find all gifts associated with that campaign</p>
+            <p>2. Click &quot;Search&quot; to find all gifts associated with that campaign</p>
             <p>3. View summary statistics and status distribution</p>
             <p>4. Browse the detailed list of gifts in the campaign</p>
             <p>5. Use this to track campaign performance and gift delivery status</p>
@@ -2,9 +2,13 @@
 
 import React, { useState, useEffect } from 'react';
 import { apiService } from '@/lib/api';
+import { queryCache, queryKeys } from '@/lib/queryCache';
+import { toApiError } from '@/lib/errors';
 import { formatApiKey, isValidEmail } from '@/lib/utils';
 import { EmailConfigResponse } from '@/types';
+import { usePermissions } from '@/hooks/usePermissions';
 import LoadingSpinner from '../LoadingSpinner';
+import PermissionNotice from '../PermissionNotice';
 import toast from 'react-hot-toast';
 
 interface EmailConfigForm {
@@ -13,7 +17,15 @@ interface EmailConfigForm {
   sending_domain: string;
 }
 
-const EmailConfiguration: React.FC = () => {
+interface EmailConfigurationProps {
+  // Used by the onboarding wizard to track its email step
+  onSaved?: () => void;
+  onTestSent?: () => void;
+}
+
+const EmailConfiguration: React.FC<EmailConfigurationProps> = ({ onSaved, onTestSent }) => {
+  const { can } = usePermissions();
+  const canEditConfig = can('config:email');
   const [config, setConfig] = useState<EmailConfigResponse | null>(null);
   const [form, setForm] = useState<EmailConfigForm>({
     resend_api_key: '',
@@ -35,17 +47,19 @@ const EmailConfiguration: React.FC = () => {
   const loadEmailConfig = async () => {
     setIsLoadingConfig(true);
     try {
-      const response = await apiService.getEmailConfig();
+      // Served from the shared cache unless stale or invalidated by a save
+      const response = await queryCache.ensure(queryKeys.emailConfig, () => apiService.getEmailConfig());
       setConfig(response);
       setForm({
         resend_api_key: response.resend_api_key || '',
         from_email: response.from_email || '',
         sending_domain: response.sending_domain || ''
       });
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error loading email config:', error);
-      if (error.response?.status !== 404) {
-        toast.error('Failed to load email configuration');
+      const apiError = toApiError(error);
+      if (apiError.code !== 'not_found') {
+        toast.error(`Failed to load email configuration: ${apiError.message}`);
       }
     } finally {
       setIsLoadingConfig(false);
@@ -85,22 +99,27 @@ const EmailConfiguration: React.FC = () => {
         sending_domain: form.sending_domain.trim()
       };
       
-      const response = await apiService.updateEmailConfig(updateData);
+      await apiService.updateEmailConfig(updateData);
+      await loadEmailConfig();
       
-      setConfig(response);
       setLastUpdate({
         timestamp: new Date().toISOString(),
         config: updateData
       });
       
       toast.success('Email configuration updated successfully');
-    } catch (error: any) {
+      onSaved?.();
+    } catch (error) {
       console.error('Error updating email config:', error);
       
-      if (error.response?.status === 400) {
-        toast.error(error.response.data?.detail || 'Invalid configuration');
-      } else {
-        toast.error('Failed to update email configuration');
+      const apiError = toApiError(error);
+      switch (apiError.code) {
+        case 'bad_request':
+        case 'validation_error':
+          toast.error(apiError.detail || apiError.message || 'Invalid configuration');
+          break;
+        default:
+          toast.error(`Failed to update email configuration: ${apiError.message}`);
       }
     } finally {
       setIsLoading(false);
@@ -133,15 +152,21 @@ const EmailConfiguration: React.FC = () => {
       
       toast.success(`Test email sent successfully to ${testEmail}`);
       setTestEmail('');
-    } catch (error: any) {
+      onTestSent?.();
+    } catch (error) {
       console.error('Error sending test email:', error);
       
-      if (error.response?.status === 400) {
-        toast.error(error.response.data?.detail || 'Failed to send test email');
-      } else if (error.response?.status === 500) {
-        toast.error('Email service configuration error');
-      } else {
-        toast.error('Failed to send test email');
+      const apiError = toApiError(error);
+      switch (apiError.code) {
+        case 'bad_request':
+        case 'validation_error':
+          toast.error(apiError.detail || 'Failed to send test email');
+          break;
+        case 'server_error':
+          toast.error(apiError.detail ? `Email service configuration error: ${apiError.detail}` : 'Email service configuration error');
+          break;
+        default:
+          toast.error(`Failed to send test email: ${apiError.message}`);
       }
     } finally {
       setIsTestingEmail(false);
@@ -209,6 +234,8 @@ const EmailConfiguration: React.FC = () => {
       <div className="bg-white p-6 rounded-lg border border-gray-200 mb-8">
         <h3 className="text-lg font-semibold text-gray-900 mb-6">⚙️ Update Configuration</h3>
         
+        <PermissionNotice permission="config:email" action="change the email configuration" />
+
         <form onSubmit={handleSubmit} className="space-y-6">
           {/* Resend API Key */}
           <div>
@@ -223,7 +250,7 @@ const EmailConfiguration: React.FC = () => {
                 className="w-full px-3 py-2 pr-12 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
                 value={form.resend_api_key}
                 onChange={(e) => setForm({ ...form, resend_api_key: e.target.value })}
-                disabled={isLoading}
+                disabled={isLoading || !canEditConfig}
                 required
               />
               <button
@@ -235,7 +262,7 @@ const EmailConfiguration: React.FC = () => {
               </button>
             </div>
             <p className="text-xs text-gray-500 mt-1">
-              Your Resend API key (starts with "re_")
+              Your Resend API key (starts with &quot;re_&quot;)
             </p>
           </div>
 
@@ -251,7 +278,7 @@ const EmailConfiguration: React.FC = () => {
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               value={form.from_email}
               onChange={(e) => setForm({ ...form, from_email: e.target.value })}
-              disabled={isLoading}
+              disabled={isLoading || !canEditConfig}
               required
             />
             <p className="text-xs text-gray-500 mt-1">
@@ -271,7 +298,7 @@ const EmailConfiguration: React.FC = () => {
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               value={form.sending_domain}
               onChange={(e) => setForm({ ...form, sending_domain: e.target.value })}
-              disabled={isLoading}
+              disabled={isLoading || !canEditConfig}
               required
             />
             <p className="text-xs text-gray-500 mt-1">
@@ -283,7 +310,7 @@ const EmailConfiguration: React.FC = () => {
           <div className="flex space-x-4">
             <button
               type="submit"
-              disabled={isLoading}
+              disabled={isLoading || !canEditConfig}
               className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
             >
               {isLoading ? (
@@ -299,7 +326,7 @@ const EmailConfiguration: React.FC = () => {
             <button
               type="button"
               onClick={handleReset}
-              disabled={isLoading}
+              disabled={isLoading || !canEditConfig}
               className="px-6 py-3 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 font-medium"
             >
               🔄 Reset
@@ -324,7 +351,7 @@ const EmailConfiguration: React.FC = () => {
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               value={testEmail}
               onChange={(e) => setTestEmail(e.target.value)}
-              disabled={isTestingEmail}
+              disabled={isTestingEmail || !canEditConfig}
               required
             />
             <p className="text-xs text-gray-500 mt-1">
@@ -334,7 +361,7 @@ const EmailConfiguration: React.FC = () => {
           
           <button
             type="submit"
-            disabled={isTestingEmail || !testEmail.trim()}
+            disabled={isTestingEmail || !canEditConfig || !testEmail.trim()}
             className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
           >
             {isTestingEmail ? (
@@ -392,9 +419,9 @@ const EmailConfiguration: React.FC = () => {
             <h4 className="text-sm font-semibold text-yellow-900 mb-2">🔑 Getting Your API Key</h4>
             <div className="text-sm text-yellow-800 space-y-1">
               <p>1. Sign up for a Resend account at <a href="https://resend.com" target="_blank" rel="noopener noreferrer" className="underline">resend.com</a></p>
-              <p>2. Go to your dashboard and navigate to "API Keys"</p>
+              <p>2. Go to your dashboard and navigate to &quot;API Keys&quot;</p>
               <p>3. Create a new API key with sending permissions</p>
-              <p>4. Copy the API key (it starts with "re_")</p>
+              <p>4. Copy the API key (it starts with &quot;re_&quot;)</p>
             </div>
           </div>
           
@@ -403,7 +430,7 @@ const EmailConfiguration: React.FC = () => {
             <div className="text-sm text-yellow-800 space-y-1">
               <p>1. Add your domain in the Resend dashboard</p>
               <p>2. Verify your domain by adding the required DNS records</p>
-              <p>3. Use a verified domain for the "From Email" and "Sending Domain"</p>
+              <p>3. Use a verified domain for the &quot;From Email&quot; and &quot;Sending Domain&quot;</p>
               <p>4. For testing, you can use the Resend sandbox domain</p>
             </div>
           </div>
@@ -2,14 +2,20 @@
 
 import React, { useState, useRef } from 'react';
 import { apiService } from '@/lib/api';
+import { toApiError } from '@/lib/errors';
 import { downloadFile } from '@/lib/utils';
+import { ExcelUploadResult } from '@/types';
+import { usePermissions } from '@/hooks/usePermissions';
 import LoadingSpinner from '../LoadingSpinner';
+import PermissionNotice from '../PermissionNotice';
 import toast from 'react-hot-toast';
 
 const ExcelOperations: React.FC = () => {
+  const { can } = usePermissions();
+  const canUpload = can('gifts:bulk');
   const [isDownloading, setIsDownloading] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
-  const [uploadResult, setUploadResult] = useState<any>(null);
+  const [uploadResult, setUploadResult] = useState<ExcelUploadResult | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleDownloadTemplate = async () => {
@@ -25,9 +31,9 @@ const ExcelOperations: React.FC = () => {
       // Download the file
       downloadFile(blob, 'gift_template.xlsx');
       toast.success('Template downloaded successfully!');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error downloading template:', error);
-      toast.error('Failed to download template');
+      toast.error(`Failed to download template: ${toApiError(error).message}`);
     } finally {
       setIsDownloading(false);
     }
@@ -70,27 +76,30 @@ const ExcelOperations: React.FC = () => {
       const response = await apiService.uploadExcelFile(file, 'default-campaign');
       
       setUploadResult(response);
-      const processedCount = response.processedGifts || response.successful_count || response.successfulGifts || 0;
-      toast.success(`Successfully processed ${processedCount} gifts!`);
+      toast.success(`Successfully processed ${response.processedGifts} gifts!`);
       
-      const failedCount = response.invalidRows || response.failed_count || response.failedGifts || 0;
-      if (failedCount > 0) {
-        toast.error(`${failedCount} rows failed to process`);
+      if (response.invalidRows > 0) {
+        toast.error(`${response.invalidRows} rows failed to process`);
       }
       
       // Clear the file input
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error uploading file:', error);
       
-      if (error.response?.status === 400) {
-        toast.error('Invalid Excel file format or data');
-      } else if (error.response?.status === 413) {
-        toast.error('File too large. Please use a smaller file.');
-      } else {
-        toast.error('Failed to upload Excel file');
+      const apiError = toApiError(error);
+      switch (apiError.code) {
+        case 'bad_request':
+        case 'validation_error':
+          toast.error(apiError.detail || 'Invalid Excel file format or data');
+          break;
+        case 'payload_too_large':
+          toast.error('File too large. Please use a smaller file.');
+          break;
+        default:
+          toast.error(`Failed to upload Excel file: ${apiError.message}`);
       }
     } finally {
       setIsUploading(false);
@@ -105,6 +114,7 @@ const ExcelOperations: React.FC = () => {
   const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
+    if (!canUpload) return;
     
     const files = Array.from(e.dataTransfer.files);
     const excelFile = files.find(file => 
@@ -172,6 +182,8 @@ const ExcelOperations: React.FC = () => {
             <p className="text-sm text-gray-600">
               Upload a completed Excel file to create multiple gifts at once.
             </p>
+
+            <PermissionNotice permission="gifts:bulk" action="upload gifts" />
             
             {/* Drag and Drop Area */}
             <div
@@ -196,7 +208,8 @@ const ExcelOperations: React.FC = () => {
                   </div>
                   <button
                     onClick={handleFileSelect}
-                    className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                    disabled={!canUpload}
+                    className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     📁 Browse Files
                   </button>
@@ -213,7 +226,7 @@ const ExcelOperations: React.FC = () => {
               accept=".xlsx,.xls"
               onChange={handleFileChange}
               className="hidden"
-              disabled={isUploading}
+              disabled={isUploading || !canUpload}
             />
           </div>
         </div>
@@ -227,33 +240,33 @@ const ExcelOperations: React.FC = () => {
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
             <div className="bg-green-50 p-4 rounded-lg border border-green-200">
               <div className="text-2xl font-bold text-green-600">
-                {uploadResult.processedGifts || uploadResult.successful_count || uploadResult.successfulGifts || 0}
+                {uploadResult.processedGifts}
               </div>
               <div className="text-sm text-green-800">Gifts Created</div>
             </div>
             
             <div className="bg-red-50 p-4 rounded-lg border border-red-200">
               <div className="text-2xl font-bold text-red-600">
-                {uploadResult.invalidRows || uploadResult.failed_count || uploadResult.failedGifts || 0}
+                {uploadResult.invalidRows}
               </div>
               <div className="text-sm text-red-800">Invalid Rows</div>
             </div>
             
             <div className="bg-blue-50 p-4 rounded-lg border border-blue-200">
               <div className="text-2xl font-bold text-blue-600">
-                {uploadResult.totalRows || 0}
+                {uploadResult.totalRows}
               </div>
               <div className="text-sm text-blue-800">Total Rows</div>
             </div>
           </div>
           
           {/* Gift IDs */}
-          {uploadResult.giftIds && uploadResult.giftIds.length > 0 && (
+          {uploadResult.giftIds.length > 0 && (
             <div className="mb-6">
               <h4 className="font-medium text-gray-900 mb-2">✅ Created Gift IDs</h4>
               <div className="bg-gray-50 p-3 rounded border max-h-32 overflow-y-auto">
                 <div className="text-xs font-mono space-y-1">
-                  {uploadResult.giftIds.map((id: string, index: number) => (
+                  {uploadResult.giftIds.map((id, index) => (
                     <div key={index} className="text-gray-700">{id}</div>
                   ))}
                 </div>
@@ -262,12 +275,12 @@ const ExcelOperations: React.FC = () => {
           )}
           
           {/* Errors */}
-          {uploadResult.errors && uploadResult.errors.length > 0 && (
+          {uploadResult.errors.length > 0 && (
             <div>
               <h4 className="font-medium text-gray-900 mb-2">❌ Errors</h4>
               <div className="bg-red-50 p-3 rounded border max-h-32 overflow-y-auto">
                 <div className="text-xs space-y-1">
-                  {uploadResult.errors.map((error: string, index: number) => (
+                  {uploadResult.errors.map((error, index) => (
                     <div key={index} className="text-red-700">{error}</div>
                   ))}
                 </div>
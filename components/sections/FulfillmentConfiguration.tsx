@@ -2,16 +2,28 @@
 
 import React, { useState, useEffect } from 'react';
 import { formatApiKey } from '@/lib/utils';
+import { usePermissions } from '@/hooks/usePermissions';
 import LoadingSpinner from '../LoadingSpinner';
+import PermissionNotice from '../PermissionNotice';
 import toast from 'react-hot-toast';
 import { apiService } from '@/lib/api';
+import { queryCache, queryKeys } from '@/lib/queryCache';
+import { toApiError } from '@/lib/errors';
 
 interface FulfillmentConfigForm {
   api_url: string;
   api_key: string;
 }
 
-const FulfillmentConfiguration: React.FC = () => {
+interface FulfillmentConfigurationProps {
+  // Used by the onboarding wizard to track its fulfillment step
+  onSaved?: () => void;
+  onTested?: () => void;
+}
+
+const FulfillmentConfiguration: React.FC<FulfillmentConfigurationProps> = ({ onSaved, onTested }) => {
+  const { can } = usePermissions();
+  const canEditConfig = can('config:fulfillment');
   const [form, setForm] = useState<FulfillmentConfigForm>({
     api_url: '',
     api_key: ''
@@ -27,7 +39,7 @@ const FulfillmentConfiguration: React.FC = () => {
   useEffect(() => {
     const loadConfig = async () => {
       try {
-        const response = await apiService.getFulfillmentConfig();
+        const response = await queryCache.ensure(queryKeys.fulfillmentConfig, () => apiService.getFulfillmentConfig());
         if (response) {
           setForm({
             api_url: response.api_url || '',
@@ -84,9 +96,10 @@ const FulfillmentConfiguration: React.FC = () => {
       });
       
       toast.success('Fulfillment configuration updated successfully');
-    } catch (error: any) {
+      onSaved?.();
+    } catch (error) {
       console.error('Error updating fulfillment config:', error);
-      toast.error(error.response?.data?.message || 'Failed to update fulfillment configuration');
+      toast.error(toApiError(error).detail || 'Failed to update fulfillment configuration');
     } finally {
       setIsLoading(false);
     }
@@ -112,12 +125,13 @@ const FulfillmentConfiguration: React.FC = () => {
         response: response
       });
       toast.success('Fulfillment API test successful');
-    } catch (error: any) {
+      onTested?.();
+    } catch (error) {
       console.error('Error testing fulfillment API:', error);
       setLastTest({
         timestamp: new Date().toISOString(),
         status: 'error',
-        error: error.response?.data?.message || 'Failed to test fulfillment API'
+        error: toApiError(error).detail || 'Failed to test fulfillment API'
       });
       toast.error('Fulfillment API test failed');
     } finally {
@@ -145,6 +159,8 @@ const FulfillmentConfiguration: React.FC = () => {
       <div className="bg-white p-6 rounded-lg border border-gray-200 mb-8">
         <h3 className="text-lg font-semibold text-gray-900 mb-6">⚙️ API Configuration</h3>
         
+        <PermissionNotice permission="config:fulfillment" action="change the fulfillment configuration" />
+
         <form onSubmit={handleSubmit} className="space-y-6">
           {/* API URL */}
           <div>
@@ -158,11 +174,11 @@ const FulfillmentConfiguration: React.FC = () => {
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               value={form.api_url}
               onChange={(e) => setForm({ ...form, api_url: e.target.value })}
-              disabled={isLoading}
+              disabled={isLoading || !canEditConfig}
               required
             />
             <p className="text-xs text-gray-500 mt-1">
-              The base URL for your fulfillment provider's API
+              The base URL for your fulfillment provider&apos;s API
             </p>
           </div>
 
@@ -179,7 +195,7 @@ const FulfillmentConfiguration: React.FC = () => {
                 className="w-full px-3 py-2 pr-12 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
                 value={form.api_key}
                 onChange={(e) => setForm({ ...form, api_key: e.target.value })}
-                disabled={isLoading}
+                disabled={isLoading || !canEditConfig}
                 required
               />
               <button
@@ -199,7 +215,7 @@ const FulfillmentConfiguration: React.FC = () => {
           <div className="flex space-x-4">
             <button
               type="submit"
-              disabled={isLoading}
+              disabled={isLoading || !canEditConfig}
               className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
             >
               {isLoading ? (
@@ -215,7 +231,7 @@ const FulfillmentConfiguration: React.FC = () => {
             <button
               type="button"
               onClick={handleTest}
-              disabled={isTesting || !form.api_url.trim() || !form.api_key.trim()}
+              disabled={isTesting || !canEditConfig || !form.api_url.trim() || !form.api_key.trim()}
               className="px-6 py-3 bg-green-600 text-white rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
             >
               {isTesting ? (
@@ -231,7 +247,7 @@ const FulfillmentConfiguration: React.FC = () => {
             <button
               type="button"
               onClick={handleClear}
-              disabled={isLoading || isTesting}
+              disabled={isLoading || isTesting || !canEditConfig}
               className="px-6 py-3 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 font-medium"
             >
               🗑️ Clear
@@ -363,7 +379,7 @@ const FulfillmentConfiguration: React.FC = () => {
           <div>
             <h4 className="text-sm font-semibold text-blue-900 mb-2">🔗 API Integration</h4>
             <div className="text-sm text-blue-800 space-y-1">
-              <p>• Configure your fulfillment provider's API endpoint</p>
+              <p>• Configure your fulfillment provider&apos;s API endpoint</p>
               <p>• Ensure the API supports gift delivery and tracking</p>
               <p>• Use the test connection feature to verify setup</p>
               <p>• API should support standard REST operations</p>
@@ -1,113 +1,459 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { apiService } from '@/lib/api';
-import { statusIcons, statusColors, formatDate, debounce } from '@/lib/utils';
-import { Gift, GiftStatus } from '@/types';
+import { queryKeys } from '@/lib/queryCache';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { toApiError } from '@/lib/errors';
+import { statusIcons, statusColors, formatDate, debounce, downloadFile, toCsv } from '@/lib/utils';
+import {
+  DEFAULT_GIFT_QUERY,
+  GIFT_SORT_FIELDS,
+  LEGACY_GIFT_LIMIT,
+  PAGE_SIZE_OPTIONS,
+  SORT_DIRECTIONS,
+  collectAllGifts
+} from '@/lib/giftQuery';
+import { GIFT_STATUSES } from '@/lib/schemas';
+import { BulkGiftAction, BulkGiftResult, Gift, GiftQuery, GiftSortField, GiftStatus } from '@/types';
+import { useGiftDetails } from '@/hooks/useGiftDetails';
+import { usePermissions } from '@/hooks/usePermissions';
+import { SetUrlParamsOptions, useUrlParams } from '@/hooks/useUrlParams';
+import { parseListParam } from '@/lib/routes';
+import { canTransitionGiftStatus, nextGiftStatuses, requiresStatusReason } from '@/lib/giftStatus';
 import LoadingSpinner from '../LoadingSpinner';
+import GiftIdLink from '../GiftIdLink';
+import StatusChangeDialog from '../StatusChangeDialog';
+import { showUndoToast } from '../UndoToast';
 import toast from 'react-hot-toast';
 
+// A row status change waiting for its reason in the dialog
+interface PendingStatusChange {
+  gift: Gift;
+  status: GiftStatus;
+  force: boolean;
+}
+
+// Row selects prefix forced options so they can't be confused with legal ones
+const FORCE_OPTION_PREFIX = 'force:';
+
+// A bulk status change waiting for its reason in the dialog, with the gifts
+// it will change and those it skips already worked out
+interface PendingBulkChange {
+  label: string;
+  action: Extract<BulkGiftAction, { type: 'status' }>;
+  giftIds: string[];
+  skipped: BulkGiftResult[];
+}
+
+// A bulk action in progress or just finished, kept for its report and retry
+interface BulkRun {
+  label: string;
+  action: BulkGiftAction;
+  total: number;
+  results: BulkGiftResult[];
+  isRunning: boolean;
+}
+
+const STATUS_OPTIONS: GiftStatus[] = ['pending', 'verified', 'cancelled', 'dispatched', 'delivered', 'failed'];
+
+// Why a bulk status change can't apply to a gift, or null if it can. Such
+// gifts are skipped instead of being sent only to be rejected.
+const bulkSkipReason = (gift: Gift, action: BulkGiftAction): string | null => {
+  if (action.type !== 'status') return null;
+  if (gift.status === action.status) return `Already ${action.status}`;
+  if (!action.force && !canTransitionGiftStatus(gift.status, action.status)) {
+    return `Can't move from ${gift.status} to ${action.status}`;
+  }
+  return null;
+};
+
 const GiftManagement: React.FC = () => {
-  const [gifts, setGifts] = useState<Gift[]>([]);
-  const [filteredGifts, setFilteredGifts] = useState<Gift[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isUpdating, setIsUpdating] = useState<string | null>(null);
-  
-  // Filters
-  const [campaignFilter, setCampaignFilter] = useState('');
-  const [statusFilter, setStatusFilter] = useState<GiftStatus | ''>('');
-  const [searchFilter, setSearchFilter] = useState('');
+  const { can, roleLabel } = usePermissions();
+  const canUpdateStatus = can('gifts:update_status');
+  const canVerify = can('gifts:verify');
+  const canForceStatus = can('gifts:force_status');
+  const [pendingStatusChange, setPendingStatusChange] = useState<PendingStatusChange | null>(null);
+  const [pendingBulkChange, setPendingBulkChange] = useState<PendingBulkChange | null>(null);
+  const [bulkForce, setBulkForce] = useState(false);
+  const [bulkStatus, setBulkStatus] = useState<GiftStatus | ''>('');
+  const [bulkNotes, setBulkNotes] = useState('');
+  const [bulkRun, setBulkRun] = useState<BulkRun | null>(null);
+  const [isResolvingSelection, setIsResolvingSelection] = useState(false);
+  const [updatingGiftIds, setUpdatingGiftIds] = useState<string[]>([]);
   
+  // Filters, sorting, pagination and selection live in the query string so
+  // a view can be bookmarked or shared and back/forward steps through it
+  const { params, setParams } = useUrlParams();
+  const campaignFilter = params.get('campaign') ?? '';
+  // Hand-edited or stale links fall back to the defaults
+  const statusFilter = GIFT_STATUSES.find(status => status === params.get('status')) ?? '';
+  const searchFilter = params.get('q') ?? '';
+  const createdFrom = params.get('from') ?? '';
+  const createdTo = params.get('to') ?? '';
+  const sortBy = GIFT_SORT_FIELDS.find(field => field === params.get('sort')) ?? DEFAULT_GIFT_QUERY.sortBy!;
+  const sortDirection = SORT_DIRECTIONS.find(direction => direction === params.get('dir')) ?? DEFAULT_GIFT_QUERY.sortDirection!;
+  const pageSize = PAGE_SIZE_OPTIONS.find(size => size === Number(params.get('size'))) ?? DEFAULT_GIFT_QUERY.pageSize!;
+  const selectedIds = parseListParam(params.get('selected'));
+  // ?all=1 selects every gift matching the filters, not just the listed IDs
+  const selectAllMatching = params.get('all') === '1';
+
+  // Pagination (cursor of every page visited so far, for "Previous"); the
+  // first page has no cursor and is left out of the URL
+  const visitedCursors = parseListParam(params.get('cursors'));
+  const cursorStack: (string | null)[] = [null, ...visitedCursors];
+  const currentCursor = cursorStack[cursorStack.length - 1];
+
+  const query = useMemo<GiftQuery>(() => ({
+    status: statusFilter || undefined,
+    campaignId: campaignFilter.trim() || undefined,
+    search: searchFilter.trim() || undefined,
+    createdFrom: createdFrom || undefined,
+    createdTo: createdTo || undefined,
+    sortBy,
+    sortDirection,
+    pageSize
+  }), [statusFilter, campaignFilter, searchFilter, createdFrom, createdTo, sortBy, sortDirection, pageSize]);
+
+  const pageQuery = useMemo(() => ({ ...query, cursor: currentCursor }), [query, currentCursor]);
+  const { data: page, error: loadError, isLoading, isFetching, refetch } = useApiQuery(
+    queryKeys.giftPage(pageQuery),
+    () => apiService.queryGifts(pageQuery),
+    { keepPreviousData: true }
+  );
+
+  useEffect(() => {
+    if (loadError) {
+      console.error('Error loading gifts:', loadError);
+      toast.error(`Failed to load gifts: ${toApiError(loadError).message}`);
+    }
+  }, [loadError]);
+
+  const loadGifts = () => {
+    refetch().catch(() => {
+      // Reported by the loadError effect
+    });
+  };
+
+  // Return to the first page whenever filters, sorting or page size change.
+  // "All matching" no longer means the same gifts once the filters change.
+  const setFilters = (patch: Record<string, string | number>, options?: SetUrlParamsOptions) => {
+    setParams({ ...patch, cursors: null, all: null }, options);
+  };
+
+  // The search box follows ?q= on back/forward. Typing replaces the history
+  // entry so Back doesn't replay every keystroke.
+  const [searchInput, setSearchInput] = useState(searchFilter);
+  useEffect(() => {
+    setSearchInput(searchFilter);
+  }, [searchFilter]);
+
+  const setFiltersRef = useRef(setFilters);
+  setFiltersRef.current = setFilters;
+  const debouncedSearch = useMemo(() => debounce((value: string) => {
+    setFiltersRef.current({ q: value }, { replace: true });
+  }, 300), []);
+
+  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSearchInput(e.target.value);
+    debouncedSearch(e.target.value);
+  };
+
+  const handleSort = (field: GiftSortField) => {
+    if (field === sortBy) {
+      setFilters({ sort: field, dir: sortDirection === 'asc' ? 'desc' : 'asc' });
+    } else {
+      setFilters({ sort: field, dir: field === 'recipient_name' || field === 'status' ? 'asc' : 'desc' });
+    }
+  };
+
+  // Selected gift IDs are kept across pages and filters until cleared
+  const setSelectedIds = (ids: string[]) => setParams({ selected: ids }, { replace: true });
+
+  const toggleSelected = (giftId: string) => {
+    setSelectedIds(selectedIds.includes(giftId)
+      ? selectedIds.filter(id => id !== giftId)
+      : [...selectedIds, giftId]);
+  };
+
+  const sortIndicator = (field: GiftSortField) => {
+    if (field !== sortBy) return '';
+    return sortDirection === 'asc' ? ' ▲' : ' ▼';
+  };
+
+  // The change is sent once its undo toast closes. Cached lists (including
+  // this page) show the new status meanwhile and are put back on undo.
+  const updateGiftStatus = async (gift: Gift, newStatus: GiftStatus, notes?: string, force = false) => {
+    const giftId = gift.gift_id;
+    setUpdatingGiftIds(prev => [...prev, giftId]);
+    const pending = apiService.deferGiftStatusUpdate({
+      giftId: giftId,
+      status: newStatus,
+      notes: notes || (newStatus === 'dispatched' ? 'Updated via web interface' : undefined),
+      force: force || undefined
+    }, { status: gift.status, updated_at: gift.updated_at });
+
+    showUndoToast(`Gift ${giftId.slice(0, 8)} marked ${newStatus}`, () => {
+      if (pending.undo()) {
+        toast.success(`Gift ${giftId.slice(0, 8)} is back to ${gift.status}`);
+      } else {
+        toast.error('Too late to undo, the change was already sent');
+      }
+    });
+
+    try {
+      await pending.result;
+    } catch (error) {
+      console.error('Error updating gift status:', error);
+      const apiError = toApiError(error);
+      toast.error(apiError.detail ? `Failed to update gift status: ${apiError.detail}` : 'Failed to update gift status');
+    } finally {
+      setUpdatingGiftIds(prev => prev.filter(id => id !== giftId));
+    }
+  };
+
+  // Changes that need a reason (cancelled, failed and forced ones) are
+  // confirmed in the dialog first
+  const handleRowStatusChange = (gift: Gift, value: string) => {
+    const force = value.startsWith(FORCE_OPTION_PREFIX);
+    const status = (force ? value.slice(FORCE_OPTION_PREFIX.length) : value) as GiftStatus;
+    if (requiresStatusReason(status, force)) {
+      setPendingStatusChange({ gift, status, force });
+    } else {
+      updateGiftStatus(gift, status);
+    }
+  };
+
   // Pagination
-  const [currentPage, setCurrentPage] = useState(1);
-  const itemsPerPage = 10;
+  const currentGifts = page?.gifts ?? [];
+  const totalCount = page?.totalCount ?? 0;
+  const currentPage = cursorStack.length;
+  const totalPages = Math.max(1, Math.ceil(totalCount / pageSize));
+  const startIndex = (currentPage - 1) * pageSize;
+  const endIndex = startIndex + currentGifts.length;
 
-  const loadGifts = async () => {
-    setIsLoading(true);
+  const goToNextPage = () => {
+    if (page?.nextCursor) {
+      setParams({ cursors: [...visitedCursors, page.nextCursor] });
+    }
+  };
+
+  const goToPreviousPage = () => {
+    setParams({ cursors: visitedCursors.slice(0, -1) });
+  };
+
+  const pageGiftIds = currentGifts.map(gift => gift.gift_id);
+  const isPageSelected = pageGiftIds.length > 0 && pageGiftIds.every(id => selectedIds.includes(id));
+
+  const togglePageSelected = () => {
+    setSelectedIds(isPageSelected
+      ? selectedIds.filter(id => !pageGiftIds.includes(id))
+      : Array.from(new Set([...selectedIds, ...pageGiftIds])));
+  };
+
+  const clearSelection = () => setParams({ selected: null, all: null }, { replace: true });
+
+  const selectionCount = selectAllMatching ? totalCount : selectedIds.length;
+  const isBulkBusy = isResolvingSelection || Boolean(bulkRun?.isRunning);
+
+  // Helper function to load the selected gifts. "All matching" walks every
+  // page of the filtered list; explicit selections reuse the gifts on this
+  // page and look up only the rest by ID.
+  const loadSelectedGifts = async (): Promise<Gift[]> => {
+    if (selectAllMatching) {
+      return collectAllGifts(query, (pageQuery: GiftQuery) => apiService.queryGifts(pageQuery));
+    }
+    const loaded = new Map(currentGifts.map(gift => [gift.gift_id, gift]));
+    const missingIds = selectedIds.filter(id => !loaded.has(id));
+    const fetched = await apiService.getGiftsById(missingIds);
+    fetched.forEach((gift, index) => loaded.set(missingIds[index], gift));
+    return selectedIds.map(id => loaded.get(id)!);
+  };
+
+  // The selected gifts' statuses decide which bulk statuses are offered.
+  // Gifts on this page come from the list; the others are looked up once
+  // each, so selecting one more costs at most one request.
+  const offPageDetails = useGiftDetails(
+    selectedIds.filter(id => !pageGiftIds.includes(id)),
+    { enabled: !selectAllMatching }
+  );
+  const knownStatuses = selectedIds.map(id =>
+    currentGifts.find(gift => gift.gift_id === id)?.status ?? offPageDetails.get(id)?.status);
+
+  // Current statuses of the selection, or null while any is unknown. "All
+  // matching" is only known when the list is filtered by status.
+  const selectedStatuses = selectAllMatching
+    ? (statusFilter ? [statusFilter] : null)
+    : knownStatuses.every(Boolean) ? knownStatuses as GiftStatus[] : null;
+  // Statuses at least one selected gift can move to. Forcing (admins only)
+  // offers them all.
+  const legalBulkStatuses = STATUS_OPTIONS.filter(status =>
+    (selectedStatuses ?? STATUS_OPTIONS).some(from => canTransitionGiftStatus(from, status)));
+  const bulkStatusOptions = bulkForce ? STATUS_OPTIONS : legalBulkStatuses;
+  // A status picked before the options narrowed is no longer applied
+  const selectedBulkStatus = bulkStatus && bulkStatusOptions.includes(bulkStatus) ? bulkStatus : '';
+  const canBulkCancel = legalBulkStatuses.includes('cancelled');
+
+  const resolveSelectedIds = async (): Promise<string[] | null> => {
+    if (!selectAllMatching) return selectedIds;
+    setIsResolvingSelection(true);
     try {
-      const response = await apiService.getAllGifts();
-      setGifts(response.gifts || []);
-    } catch (error: any) {
-      console.error('Error loading gifts:', error);
-      toast.error('Failed to load gifts');
+      return (await loadSelectedGifts()).map(gift => gift.gift_id);
+    } catch (error) {
+      console.error('Error loading selected gifts:', error);
+      toast.error(`Failed to load the selected gifts: ${toApiError(error).message}`);
+      return null;
     } finally {
-      setIsLoading(false);
+      setIsResolvingSelection(false);
     }
   };
 
-  useEffect(() => {
-    loadGifts();
-  }, []);
+  // Helper function to load the gifts a bulk action applies to: the given
+  // IDs when retrying, otherwise the selection
+  const resolveBulkGifts = async (giftIds?: string[]): Promise<Gift[] | null> => {
+    setIsResolvingSelection(true);
+    try {
+      return giftIds ? await apiService.getGiftsById(giftIds) : await loadSelectedGifts();
+    } catch (error) {
+      console.error('Error loading selected gifts:', error);
+      toast.error(`Failed to load the selected gifts: ${toApiError(error).message}`);
+      return null;
+    } finally {
+      setIsResolvingSelection(false);
+    }
+  };
 
-  // Filter gifts based on search criteria
-  useEffect(() => {
-    let filtered = gifts;
+  // Gifts the action can't apply to are reported as skipped up front, and
+  // only the rest are sent. Changes that need a reason (cancelled, failed
+  // and forced ones) are confirmed in the dialog first.
+  const runBulkAction = async (label: string, action: BulkGiftAction, giftIds?: string[]) => {
+    const gifts = await resolveBulkGifts(giftIds);
+    if (!gifts || gifts.length === 0) return;
 
-    if (campaignFilter) {
-      filtered = filtered.filter(gift => {
-        const campaignId = gift.meta?.campaign_id || (gift as any).campaign_id || '';
-        return campaignId.toLowerCase().includes(campaignFilter.toLowerCase());
-      });
+    const skipped: BulkGiftResult[] = [];
+    const ids: string[] = [];
+    gifts.forEach(gift => {
+      const reason = bulkSkipReason(gift, action);
+      if (reason) {
+        skipped.push({ giftId: gift.gift_id, success: false, skipped: true, error: reason });
+      } else {
+        ids.push(gift.gift_id);
+      }
+    });
+
+    if (ids.length > 0 && action.type === 'status' && requiresStatusReason(action.status, action.force)) {
+      setPendingBulkChange({ label, action, giftIds: ids, skipped });
+      return;
     }
+    startBulkRun(label, action, ids, skipped);
+  };
 
-    if (statusFilter) {
-      filtered = filtered.filter(gift => gift.status === statusFilter);
+  const startBulkRun = async (label: string, action: BulkGiftAction, ids: string[], skipped: BulkGiftResult[]) => {
+    const total = ids.length + skipped.length;
+    setBulkRun({ label, action, total, results: skipped, isRunning: ids.length > 0 });
+    if (ids.length === 0) {
+      toast.error(`${label}: none of the ${total} gifts can be changed`);
+      return;
     }
+    const onResult = (result: BulkGiftResult) => {
+      setBulkRun(prev => prev && { ...prev, results: [...prev.results, result] });
+    };
+    const skippedNote = skipped.length > 0 ? `, ${skipped.length} skipped` : '';
 
-    if (searchFilter) {
-      filtered = filtered.filter(gift => {
-        const recipientName = gift.recipient?.full_name || (gift as any).recipient_name || '';
-        const recipientEmail = gift.recipient?.email || (gift as any).recipient_email || '';
-        return recipientName.toLowerCase().includes(searchFilter.toLowerCase()) ||
-               recipientEmail.toLowerCase().includes(searchFilter.toLowerCase()) ||
-               gift.gift_id.toLowerCase().includes(searchFilter.toLowerCase());
+    let results: BulkGiftResult[] | null;
+    if (action.type === 'status') {
+      // Status changes wait out the undo window before the first request
+      const pending = apiService.deferBulkGiftAction(ids, action, onResult);
+      showUndoToast(`${label}: ${ids.length} gifts${skippedNote}`, () => {
+        if (!pending.undo()) {
+          toast.error('Too late to undo, the change has already started');
+        }
       });
+      results = await pending.result;
+    } else {
+      results = await apiService.runBulkGiftAction(ids, action, onResult);
     }
 
-    setFilteredGifts(filtered);
-    setCurrentPage(1); // Reset to first page when filters change
-  }, [gifts, campaignFilter, statusFilter, searchFilter]);
+    if (!results) {
+      setBulkRun(null);
+      toast.success(`${label}: undone, no gifts were changed`);
+      return;
+    }
+    setBulkRun(prev => prev && { ...prev, isRunning: false });
 
-  const debouncedSearch = debounce((value: string) => {
-    setSearchFilter(value);
-  }, 300);
+    const failedCount = results.filter(result => !result.success).length;
+    if (failedCount > 0) {
+      toast.error(`${label}: ${failedCount} of ${results.length} gifts failed${skippedNote}`);
+    } else {
+      toast.success(`${label}: ${results.length} gifts updated${skippedNote}`);
+    }
+  };
 
-  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    debouncedSearch(e.target.value);
+  const handleApplyBulkStatus = () => {
+    if (!selectedBulkStatus) return;
+    runBulkAction(
+      `${bulkForce ? 'Force' : 'Set'} status to ${selectedBulkStatus}`,
+      { type: 'status', status: selectedBulkStatus, notes: bulkNotes.trim() || undefined, force: bulkForce || undefined }
+    );
+  };
+
+  const handleBulkCancel = () => {
+    if (!canBulkCancel) return;
+    runBulkAction('Cancel', { type: 'status', status: 'cancelled', notes: bulkNotes.trim() || undefined });
   };
 
-  const updateGiftStatus = async (giftId: string, newStatus: GiftStatus) => {
-    setIsUpdating(giftId);
+  const bulkFailures = bulkRun?.results.filter(result => !result.success && !result.skipped) ?? [];
+  const bulkSkipped = bulkRun?.results.filter(result => result.skipped) ?? [];
+
+  const handleRetryFailed = () => {
+    if (!bulkRun) return;
+    // Skipped gifts would only be skipped again
+    const failedIds = bulkFailures.map(result => result.giftId);
+    runBulkAction(bulkRun.label, bulkRun.action, failedIds);
+  };
+
+  const handleExportSelected = async () => {
+    setIsResolvingSelection(true);
     try {
-      await apiService.updateGiftStatus({
-        giftId: giftId,
-        status: newStatus,
-        notes: newStatus === 'dispatched' ? 'Updated via web interface' : undefined
-      });
-      
-      // Update local state
-      setGifts(prev => prev.map(gift => 
-        gift.gift_id === giftId 
-          ? { ...gift, status: newStatus, updated_at: new Date().toISOString() }
-          : gift
-      ));
-      
-      toast.success(`Gift status updated to ${newStatus}`);
-    } catch (error: any) {
-      console.error('Error updating gift status:', error);
-      toast.error('Failed to update gift status');
+      const gifts = await loadSelectedGifts();
+      const csv = toCsv([
+        ['gift_id', 'recipient_name', 'recipient_email', 'recipient_phone', 'gift_type', 'status', 'verified',
+          'campaign_id', 'initiated_by', 'created_at', 'updated_at'],
+        ...gifts.map(gift => [
+          gift.gift_id,
+          gift.recipient_name,
+          gift.recipient_email,
+          gift.recipient?.phone,
+          gift.gift_type,
+          gift.status,
+          gift.verified,
+          gift.campaign_id,
+          gift.initiated_by?.email || gift.initiated_by?.full_name,
+          gift.created_at,
+          gift.updated_at
+        ])
+      ]);
+      downloadFile(new Blob([csv], { type: 'text/csv' }), `gifts_${new Date().toISOString().slice(0, 10)}.csv`);
+      toast.success(`Exported ${gifts.length} gifts`);
+    } catch (error) {
+      console.error('Error exporting gifts:', error);
+      toast.error(`Failed to export gifts: ${toApiError(error).message}`);
     } finally {
-      setIsUpdating(null);
+      setIsResolvingSelection(false);
     }
   };
 
-  // Pagination
-  const totalPages = Math.ceil(filteredGifts.length / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = startIndex + itemsPerPage;
-  const currentGifts = filteredGifts.slice(startIndex, endIndex);
-
-  const statusOptions: GiftStatus[] = ['pending', 'verified', 'cancelled', 'dispatched', 'delivered', 'failed'];
+  const handleCopyIds = async () => {
+    const ids = await resolveSelectedIds();
+    if (!ids) return;
+    try {
+      await navigator.clipboard.writeText(ids.join('\n'));
+      toast.success(`Copied ${ids.length} gift IDs`);
+    } catch (error) {
+      console.error('Error copying gift IDs:', error);
+      toast.error('Could not copy to clipboard');
+    }
+  };
 
   if (isLoading) {
     return (
@@ -125,8 +471,8 @@ const GiftManagement: React.FC = () => {
       </div>
 
       {/* Filters */}
-      <div className="mb-6 grid grid-cols-1 md:grid-cols-4 gap-4">
-        <div>
+      <div className="mb-6 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+        <div className="lg:col-span-2">
           <label className="block text-sm font-medium text-gray-700 mb-1">
             Search
           </label>
@@ -134,6 +480,7 @@ const GiftManagement: React.FC = () => {
             type="text"
             placeholder="Search by name, email, or ID..."
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            value={searchInput}
             onChange={handleSearchChange}
           />
         </div>
@@ -147,7 +494,7 @@ const GiftManagement: React.FC = () => {
             placeholder="Filter by campaign..."
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             value={campaignFilter}
-            onChange={(e) => setCampaignFilter(e.target.value)}
+            onChange={(e) => setFilters({ campaign: e.target.value }, { replace: true })}
           />
         </div>
         
@@ -158,10 +505,10 @@ const GiftManagement: React.FC = () => {
           <select
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value as GiftStatus | '')}
+            onChange={(e) => setFilters({ status: e.target.value })}
           >
             <option value="">All Statuses</option>
-            {statusOptions.map((status) => (
+            {STATUS_OPTIONS.map((status) => (
               <option key={status} value={status}>
                 {statusIcons[status]} {status.charAt(0).toUpperCase() + status.slice(1)}
               </option>
@@ -169,63 +516,262 @@ const GiftManagement: React.FC = () => {
           </select>
         </div>
         
-        <div className="flex items-end">
-          <button
-            onClick={loadGifts}
-            className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-          >
-            🔄 Refresh
-          </button>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Created From
+          </label>
+          <input
+            type="date"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            value={createdFrom}
+            max={createdTo || undefined}
+            onChange={(e) => setFilters({ from: e.target.value })}
+          />
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Created To
+          </label>
+          <input
+            type="date"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            value={createdTo}
+            min={createdFrom || undefined}
+            onChange={(e) => setFilters({ to: e.target.value })}
+          />
         </div>
       </div>
 
       {/* Summary */}
       <div className="mb-6 grid grid-cols-1 md:grid-cols-4 gap-4">
         <div className="bg-blue-50 p-4 rounded-lg">
-          <div className="text-2xl font-bold text-blue-600">{gifts.length}</div>
-          <div className="text-sm text-blue-800">Total Gifts</div>
+          <div className="text-2xl font-bold text-blue-600">{totalCount}</div>
+          <div className="text-sm text-blue-800">Matching Gifts</div>
         </div>
         <div className="bg-green-50 p-4 rounded-lg">
-          <div className="text-2xl font-bold text-green-600">{filteredGifts.length}</div>
-          <div className="text-sm text-green-800">Filtered Results</div>
+          <div className="text-2xl font-bold text-green-600">{currentGifts.length}</div>
+          <div className="text-sm text-green-800">On This Page</div>
         </div>
         <div className="bg-yellow-50 p-4 rounded-lg">
           <div className="text-2xl font-bold text-yellow-600">
-            {gifts.filter(g => g.verified).length}
+            {currentGifts.filter(g => g.verified).length}
           </div>
-          <div className="text-sm text-yellow-800">Verified</div>
+          <div className="text-sm text-yellow-800">Verified (this page)</div>
         </div>
-        <div className="bg-red-50 p-4 rounded-lg">
-          <div className="text-2xl font-bold text-red-600">
-            {gifts.filter(g => !g.verified).length}
-          </div>
-          <div className="text-sm text-red-800">Unverified</div>
+        <div className="flex items-end">
+          <button
+            onClick={loadGifts}
+            disabled={isFetching}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+          >
+            {isFetching ? 'Loading...' : '🔄 Refresh'}
+          </button>
         </div>
       </div>
 
+      {page && !page.serverPaginated && page.totalCount >= LEGACY_GIFT_LIMIT && (
+        <div className="mb-4 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md p-3">
+          ⚠️ This backend does not support server-side pagination. Only the first {LEGACY_GIFT_LIMIT} gifts are searched.
+        </div>
+      )}
+
+      {/* Bulk Actions */}
+      {selectionCount > 0 && (
+        <div className="mb-4 bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-blue-800">
+            <span>
+              {selectAllMatching
+                ? `All ${totalCount} gifts matching the filters are selected.`
+                : `${selectedIds.length} gift${selectedIds.length === 1 ? '' : 's'} selected.`}
+              {!selectAllMatching && isPageSelected && totalCount > pageGiftIds.length && (
+                <button onClick={() => setParams({ all: '1', selected: null }, { replace: true })} className="ml-2 font-medium text-blue-600 hover:text-blue-800 underline">
+                  Select all {totalCount} gifts matching the filters
+                </button>
+              )}
+            </span>
+            <button onClick={clearSelection} className="text-blue-600 hover:text-blue-800">
+              Clear selection
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={selectedBulkStatus}
+              onChange={(e) => setBulkStatus(e.target.value as GiftStatus | '')}
+              disabled={!canUpdateStatus || isBulkBusy}
+              className="text-sm border border-gray-300 rounded px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+            >
+              <option value="">Set status...</option>
+              {bulkStatusOptions.map((status) => (
+                <option key={status} value={status}>
+                  {statusIcons[status]} {status.charAt(0).toUpperCase() + status.slice(1)}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={bulkNotes}
+              onChange={(e) => setBulkNotes(e.target.value)}
+              placeholder={bulkForce ? 'Reason for forcing' : 'Notes, or the reason when cancelling or failing'}
+              disabled={!canUpdateStatus || isBulkBusy}
+              className="flex-1 min-w-[12rem] text-sm border border-gray-300 rounded px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+            />
+            {canForceStatus && (
+              <label className="flex items-center text-sm text-gray-700" title="Skip the allowed status transitions (recorded on each gift)">
+                <input
+                  type="checkbox"
+                  checked={bulkForce}
+                  onChange={(e) => setBulkForce(e.target.checked)}
+                  disabled={isBulkBusy}
+                  className="h-4 w-4 text-red-600 border-gray-300 rounded mr-1"
+                />
+                Force
+              </label>
+            )}
+            <button
+              onClick={handleApplyBulkStatus}
+              disabled={!selectedBulkStatus || !canUpdateStatus || isBulkBusy}
+              title={canUpdateStatus ? undefined : `Your ${roleLabel} role can't change gift statuses`}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Apply
+            </button>
+            <button
+              onClick={() => runBulkAction('Mark verified', { type: 'verify' })}
+              disabled={!canVerify || isBulkBusy}
+              title={canVerify ? undefined : `Your ${roleLabel} role can't verify gifts`}
+              className="px-3 py-1.5 text-sm border border-gray-300 bg-white rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              ✅ Mark verified
+            </button>
+            <button
+              onClick={handleBulkCancel}
+              disabled={!canUpdateStatus || !canBulkCancel || isBulkBusy}
+              title={!canUpdateStatus
+                ? `Your ${roleLabel} role can't change gift statuses`
+                : !canBulkCancel ? 'None of the selected gifts can be cancelled' : undefined}
+              className="px-3 py-1.5 text-sm border border-red-300 bg-white rounded-md text-red-700 hover:bg-red-50 disabled:opacity-50"
+            >
+              🚫 Cancel
+            </button>
+            <button
+              onClick={handleExportSelected}
+              disabled={isBulkBusy}
+              className="px-3 py-1.5 text-sm border border-gray-300 bg-white rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              📤 Export CSV
+            </button>
+            <button
+              onClick={handleCopyIds}
+              disabled={isBulkBusy}
+              className="px-3 py-1.5 text-sm border border-gray-300 bg-white rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              📋 Copy IDs
+            </button>
+            {isResolvingSelection && <LoadingSpinner size="sm" />}
+          </div>
+        </div>
+      )}
+
+      {/* Bulk Action Progress and Report */}
+      {bulkRun && (
+        <div className="mb-4 bg-white border border-gray-200 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-gray-900">
+              {bulkRun.label}: {bulkRun.results.length} of {bulkRun.total} processed
+            </h3>
+            <div className="flex items-center space-x-3 text-sm">
+              {!bulkRun.isRunning && bulkFailures.length > 0 && (
+                <button onClick={handleRetryFailed} disabled={isBulkBusy} className="text-blue-600 hover:text-blue-800 disabled:opacity-50">
+                  🔁 Retry {bulkFailures.length} failed
+                </button>
+              )}
+              {!bulkRun.isRunning && (
+                <button onClick={() => setBulkRun(null)} className="text-gray-500 hover:text-gray-700">
+                  Dismiss
+                </button>
+              )}
+            </div>
+          </div>
+          <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden mb-2">
+            <div
+              className={`h-full transition-all ${bulkFailures.length > 0 ? 'bg-yellow-500' : 'bg-green-500'}`}
+              style={{ width: `${(bulkRun.results.length / bulkRun.total) * 100}%` }}
+            />
+          </div>
+          <p className="text-sm text-gray-600">
+            <span className="text-green-600 font-medium">{bulkRun.results.length - bulkFailures.length - bulkSkipped.length} succeeded</span>
+            {' · '}
+            <span className="text-red-600 font-medium">{bulkFailures.length} failed</span>
+            {bulkSkipped.length > 0 && (
+              <>
+                {' · '}
+                <span className="text-gray-500 font-medium">{bulkSkipped.length} skipped</span>
+              </>
+            )}
+            {bulkRun.isRunning && (bulkRun.action.type === 'status' && bulkRun.results.length === bulkSkipped.length
+              ? ' · starting in a few seconds, undo from the notification (leaving the page drops it)'
+              : ' · working...')}
+          </p>
+          {bulkRun.results.length > 0 && (
+            <details className="mt-3" open={!bulkRun.isRunning && bulkFailures.length + bulkSkipped.length > 0}>
+              <summary className="text-sm text-gray-700 cursor-pointer">Per-gift results</summary>
+              <ul className="mt-2 max-h-60 overflow-y-auto divide-y divide-gray-100 text-sm">
+                {[...bulkFailures, ...bulkSkipped, ...bulkRun.results.filter(result => result.success)].map((result) => (
+                  <li key={result.giftId} className="py-1.5 flex items-start">
+                    <span className="mr-2">{result.success ? '✅' : result.skipped ? '⏭️' : '❌'}</span>
+                    <GiftIdLink giftId={result.giftId} />
+                    {result.error && <span className={`ml-2 ${result.skipped ? 'text-gray-500' : 'text-red-600'}`}>{result.error}</span>}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+
       {/* Gifts Table */}
       <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
         <div className="overflow-x-auto">
           <table className="w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
+                <th className="pl-6 py-3 text-left">
+                  <input
+                    type="checkbox"
+                    checked={selectAllMatching || isPageSelected}
+                    onChange={selectAllMatching ? clearSelection : togglePageSelected}
+                    aria-label="Select all gifts on this page"
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Gift ID
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Recipient
+                  <button onClick={() => handleSort('recipient_name')} className="uppercase tracking-wider hover:text-gray-700">
+                    Recipient{sortIndicator('recipient_name')}
+                  </button>
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Gift Type
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Status
+                  <button onClick={() => handleSort('status')} className="uppercase tracking-wider hover:text-gray-700">
+                    Status{sortIndicator('status')}
+                  </button>
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Campaign
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Created
+                  Initiated By
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <button onClick={() => handleSort('created_at')} className="uppercase tracking-wider hover:text-gray-700">
+                    Created{sortIndicator('created_at')}
+                  </button>
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Actions
@@ -234,9 +780,20 @@ const GiftManagement: React.FC = () => {
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {currentGifts.map((gift) => (
-                <tr key={gift.gift_id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
-                    {gift.gift_id.slice(0, 8)}...
+                <tr key={gift.gift_id} className={selectAllMatching || selectedIds.includes(gift.gift_id) ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                  <td className="pl-6 py-4">
+                    <input
+                      type="checkbox"
+                      checked={selectAllMatching || selectedIds.includes(gift.gift_id)}
+                      onChange={() => toggleSelected(gift.gift_id)}
+                      disabled={selectAllMatching}
+                      title={selectAllMatching ? 'Clear the selection to pick individual gifts' : undefined}
+                      aria-label={`Select gift ${gift.gift_id}`}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                    />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <GiftIdLink giftId={gift.gift_id} />
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm font-medium text-gray-900">
@@ -267,23 +824,42 @@ const GiftManagement: React.FC = () => {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {gift.meta?.campaign_id || 'N/A'}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900" title={gift.initiated_by?.email}>
+                    {gift.initiated_by?.full_name || 'N/A'}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {formatDate(gift.created_at)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                     <select
                       value={gift.status}
-                      onChange={(e) => updateGiftStatus(gift.gift_id, e.target.value as GiftStatus)}
-                      disabled={isUpdating === gift.gift_id}
-                      className="text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      onChange={(e) => handleRowStatusChange(gift, e.target.value)}
+                      disabled={
+                        updatingGiftIds.includes(gift.gift_id)
+                        || !canUpdateStatus
+                        || (nextGiftStatuses(gift.status).length === 0 && !canForceStatus)
+                      }
+                      title={canUpdateStatus ? undefined : `Your ${roleLabel} role can't change gift statuses`}
+                      className="text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-60 disabled:cursor-not-allowed"
                     >
-                      {statusOptions.map((status) => (
+                      {[gift.status, ...nextGiftStatuses(gift.status)].map((status) => (
                         <option key={status} value={status}>
                           {statusIcons[status]} {status.charAt(0).toUpperCase() + status.slice(1)}
                         </option>
                       ))}
+                      {canForceStatus && (
+                        <optgroup label="Force (admin)">
+                          {STATUS_OPTIONS
+                            .filter(status => status !== gift.status && !nextGiftStatuses(gift.status).includes(status))
+                            .map((status) => (
+                              <option key={status} value={`${FORCE_OPTION_PREFIX}${status}`}>
+                                ⚠️ {status.charAt(0).toUpperCase() + status.slice(1)}
+                              </option>
+                            ))}
+                        </optgroup>
+                      )}
                     </select>
-                    {isUpdating === gift.gift_id && (
+                    {updatingGiftIds.includes(gift.gift_id) && (
                       <LoadingSpinner size="sm" className="ml-2" />
                     )}
                   </td>
@@ -293,7 +869,7 @@ const GiftManagement: React.FC = () => {
           </table>
         </div>
         
-        {filteredGifts.length === 0 && (
+        {currentGifts.length === 0 && (
           <div className="text-center py-12">
             <div className="text-gray-500 text-lg mb-2">📭</div>
             <div className="text-gray-500">No gifts found matching your criteria</div>
@@ -301,17 +877,66 @@ const GiftManagement: React.FC = () => {
         )}
       </div>
 
+      {pendingStatusChange && (
+        <StatusChangeDialog
+          subject={`Gift ${pendingStatusChange.gift.gift_id}`}
+          fromStatus={pendingStatusChange.gift.status}
+          status={pendingStatusChange.status}
+          force={pendingStatusChange.force}
+          onConfirm={(notes) => {
+            const { gift, status, force } = pendingStatusChange;
+            setPendingStatusChange(null);
+            updateGiftStatus(gift, status, notes, force);
+          }}
+          onCancel={() => setPendingStatusChange(null)}
+        />
+      )}
+
+      {pendingBulkChange && (
+        <StatusChangeDialog
+          subject={`${pendingBulkChange.giftIds.length} gift${pendingBulkChange.giftIds.length === 1 ? '' : 's'} will change${
+            pendingBulkChange.skipped.length > 0
+              ? `; ${pendingBulkChange.skipped.length} more ${pendingBulkChange.skipped.length === 1 ? 'is' : 'are'} skipped because their status doesn't allow it`
+              : ''}`}
+          status={pendingBulkChange.action.status}
+          force={pendingBulkChange.action.force}
+          initialNotes={pendingBulkChange.action.notes}
+          onConfirm={(notes) => {
+            const { label, action, giftIds, skipped } = pendingBulkChange;
+            setPendingBulkChange(null);
+            startBulkRun(label, { ...action, notes: notes || undefined }, giftIds, skipped);
+          }}
+          onCancel={() => setPendingBulkChange(null)}
+        />
+      )}
+
       {/* Pagination */}
-      {totalPages > 1 && (
-        <div className="mt-6 flex items-center justify-between">
-          <div className="text-sm text-gray-700">
-            Showing {startIndex + 1} to {Math.min(endIndex, filteredGifts.length)} of {filteredGifts.length} results
-          </div>
-          
+      <div className="mt-6 flex items-center justify-between">
+        <div className="flex items-center space-x-4 text-sm text-gray-700">
+          <span>
+            {totalCount > 0
+              ? `Showing ${startIndex + 1} to ${endIndex} of ${totalCount} results`
+              : 'No results'}
+          </span>
+          <label className="flex items-center space-x-2">
+            <span>Per page</span>
+            <select
+              value={pageSize}
+              onChange={(e) => setFilters({ size: e.target.value === String(DEFAULT_GIFT_QUERY.pageSize) ? '' : e.target.value })}
+              className="border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {PAGE_SIZE_OPTIONS.map((size) => (
+                <option key={size} value={size}>{size}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        
+        {totalPages > 1 && (
           <div className="flex space-x-2">
             <button
-              onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
-              disabled={currentPage === 1}
+              onClick={goToPreviousPage}
+              disabled={currentPage === 1 || isFetching}
               className="px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Previous
@@ -322,15 +947,15 @@ const GiftManagement: React.FC = () => {
             </span>
             
             <button
-              onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
-              disabled={currentPage === totalPages}
+              onClick={goToNextPage}
+              disabled={!page?.nextCursor || isFetching}
               className="px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Next
             </button>
           </div>
-        </div>
-      )}
+        )}
+      </div>
     </div>
   );
 };
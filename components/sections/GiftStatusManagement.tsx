@@ -1,16 +1,25 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { apiService } from '@/lib/api';
+import { queryKeys } from '@/lib/queryCache';
+import { toApiError } from '@/lib/errors';
 import { statusIcons, statusColors } from '@/lib/utils';
-import { GiftStatus } from '@/types';
+import { nextGiftStatuses, requiresStatusReason } from '@/lib/giftStatus';
+import { GiftStatus, StatusUpdate } from '@/types';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { usePermissions } from '@/hooks/usePermissions';
 import LoadingSpinner from '../LoadingSpinner';
+import PermissionNotice from '../PermissionNotice';
+import StatusChangeDialog from '../StatusChangeDialog';
+import { showUndoToast } from '../UndoToast';
 import toast from 'react-hot-toast';
 
 interface StatusUpdateForm {
   gift_id: string;
-  status: GiftStatus;
+  status: GiftStatus | '';
   tracking_info?: string;
+  force: boolean;
 }
 
 interface LastUpdateResult {
@@ -22,12 +31,17 @@ interface LastUpdateResult {
 }
 
 const GiftStatusManagement: React.FC = () => {
+  const { can } = usePermissions();
+  const canUpdateStatus = can('gifts:update_status');
+  const canForceStatus = can('gifts:force_status');
   const [form, setForm] = useState<StatusUpdateForm>({
     gift_id: '',
-    status: 'pending',
-    tracking_info: ''
+    status: '',
+    tracking_info: '',
+    force: false
   });
   const [isLoading, setIsLoading] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
   const [lastUpdate, setLastUpdate] = useState<LastUpdateResult | null>(null);
 
   const statusOptions: { value: GiftStatus; label: string; description: string }[] = [
@@ -39,6 +53,30 @@ const GiftStatusManagement: React.FC = () => {
     { value: 'failed', label: 'Failed', description: 'Gift delivery failed' }
   ];
 
+  // Look up the gift's current status once typing pauses, so only the
+  // legal next states are offered
+  const [lookupGiftId, setLookupGiftId] = useState('');
+  useEffect(() => {
+    const timer = setTimeout(() => setLookupGiftId(form.gift_id.trim()), 400);
+    return () => clearTimeout(timer);
+  }, [form.gift_id]);
+
+  const { data: currentGiftStatus, error: lookupError, isLoading: isLookingUp } = useApiQuery(
+    queryKeys.giftStatus(lookupGiftId),
+    () => apiService.getGiftStatus(lookupGiftId),
+    { enabled: Boolean(lookupGiftId) }
+  );
+  const isLookupCurrent = Boolean(lookupGiftId) && lookupGiftId === form.gift_id.trim();
+  const fromStatus = isLookupCurrent ? currentGiftStatus?.status : undefined;
+
+  const allowedStatuses: GiftStatus[] = !fromStatus
+    ? []
+    : form.force
+      ? statusOptions.map(option => option.value).filter(status => status !== fromStatus)
+      : nextGiftStatuses(fromStatus);
+  const selectedStatus = form.status && allowedStatuses.includes(form.status) ? form.status : '';
+  const reasonRequired = selectedStatus ? requiresStatusReason(selectedStatus, form.force) : false;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -47,45 +85,89 @@ const GiftStatusManagement: React.FC = () => {
       return;
     }
 
+    if (!selectedStatus) {
+      toast.error('Please choose a new status');
+      return;
+    }
+
+    if (reasonRequired && !form.tracking_info?.trim()) {
+      toast.error(form.force ? 'Please enter a reason for forcing this change' : `Please enter a reason for marking the gift ${selectedStatus}`);
+      return;
+    }
+
+    // Cancelled, failed and forced changes are confirmed first
+    if (reasonRequired) {
+      setIsConfirming(true);
+      return;
+    }
+
+    submitUpdate(form.tracking_info?.trim() ?? '');
+  };
+
+  // The change is sent once its undo toast closes
+  const submitUpdate = async (notes: string) => {
+    if (!selectedStatus || !fromStatus) return;
+    const giftId = form.gift_id.trim();
     setIsLoading(true);
     
     try {
-      const updateData: any = {
-        giftId: form.gift_id.trim(),
-        status: form.status
+      const updateData: StatusUpdate = {
+        giftId,
+        status: selectedStatus
       };
       
-      if (form.tracking_info?.trim()) {
-        updateData.notes = form.tracking_info.trim();
+      if (notes) {
+        updateData.notes = notes;
+      }
+
+      if (form.force) {
+        updateData.force = true;
       }
       
-      const response = await apiService.updateGiftStatus(updateData);
+      const pending = apiService.deferGiftStatusUpdate(updateData, { status: fromStatus });
+      showUndoToast(`Gift ${giftId.slice(0, 8)} marked ${selectedStatus}`, () => {
+        if (pending.undo()) {
+          toast.success(`Gift ${giftId.slice(0, 8)} is back to ${fromStatus}`);
+        } else {
+          toast.error('Too late to undo, the change was already sent');
+        }
+      });
+
+      const response = await pending.result;
+      if (!response) return;
       
       setLastUpdate({
-        gift_id: form.gift_id,
-        status: form.status,
-        tracking_info: form.tracking_info,
+        gift_id: giftId,
+        status: selectedStatus,
+        tracking_info: notes,
         timestamp: new Date().toISOString(),
         response
       });
       
-      toast.success(`Gift status updated to "${form.status}"`);
+      toast.success(`Gift status updated to "${selectedStatus}"`);
       
       // Reset form
       setForm({
         gift_id: '',
-        status: 'pending',
-        tracking_info: ''
+        status: '',
+        tracking_info: '',
+        force: false
       });
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error updating gift status:', error);
       
-      if (error.response?.status === 404) {
-        toast.error('Gift not found');
-      } else if (error.response?.status === 400) {
-        toast.error(error.response.data?.detail || 'Invalid status update');
-      } else {
-        toast.error('Failed to update gift status');
+      const apiError = toApiError(error);
+      switch (apiError.code) {
+        case 'not_found':
+          toast.error('Gift not found');
+          break;
+        case 'bad_request':
+        case 'validation_error':
+        case 'conflict':
+          toast.error(apiError.detail || 'Invalid status update');
+          break;
+        default:
+          toast.error(`Failed to update gift status: ${apiError.message}`);
       }
     } finally {
       setIsLoading(false);
@@ -95,13 +177,24 @@ const GiftStatusManagement: React.FC = () => {
   const handleClear = () => {
     setForm({
       gift_id: '',
-      status: 'pending',
-      tracking_info: ''
+      status: '',
+      tracking_info: '',
+      force: false
     });
     setLastUpdate(null);
   };
 
-  const selectedStatusOption = statusOptions.find(option => option.value === form.status);
+  const selectedStatusOption = statusOptions.find(option => option.value === selectedStatus);
+
+  const statusPlaceholder = !form.gift_id.trim()
+    ? 'Enter a gift ID first'
+    : !isLookupCurrent || isLookingUp
+      ? 'Looking up gift...'
+      : lookupError
+        ? 'Gift not found'
+        : allowedStatuses.length === 0
+          ? `No changes allowed from ${fromStatus}`
+          : 'Choose a new status';
 
   return (
     <div>
@@ -112,6 +205,8 @@ const GiftStatusManagement: React.FC = () => {
 
       {/* Status Update Form */}
       <div className="bg-white p-6 rounded-lg border border-gray-200 mb-8">
+        <PermissionNotice permission="gifts:update_status" action="change gift statuses" />
+
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {/* Gift ID */}
@@ -130,7 +225,13 @@ const GiftStatusManagement: React.FC = () => {
                 required
               />
               <p className="text-xs text-gray-500 mt-1">
-                The unique identifier for the gift to update
+                {fromStatus ? (
+                  <>Current status: <span className={`font-medium ${statusColors[fromStatus]}`}>{statusIcons[fromStatus]} {fromStatus}</span></>
+                ) : isLookupCurrent && lookupError ? (
+                  <span className="text-red-600">{toApiError(lookupError).message}</span>
+                ) : (
+                  'The unique identifier for the gift to update'
+                )}
               </p>
             </div>
 
@@ -142,14 +243,15 @@ const GiftStatusManagement: React.FC = () => {
               <select
                 id="status"
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                value={form.status}
-                onChange={(e) => setForm({ ...form, status: e.target.value as GiftStatus })}
-                disabled={isLoading}
+                value={selectedStatus}
+                onChange={(e) => setForm({ ...form, status: e.target.value as GiftStatus | '' })}
+                disabled={isLoading || allowedStatuses.length === 0}
                 required
               >
-                {statusOptions.map((option) => (
+                <option value="">{statusPlaceholder}</option>
+                {statusOptions.filter(option => allowedStatuses.includes(option.value)).map((option) => (
                   <option key={option.value} value={option.value}>
-                    {option.label}
+                    {form.force && fromStatus && !nextGiftStatuses(fromStatus).includes(option.value) ? '⚠️ ' : ''}{option.label}
                   </option>
                 ))}
               </select>
@@ -158,14 +260,30 @@ const GiftStatusManagement: React.FC = () => {
                   {selectedStatusOption.description}
                 </p>
               )}
+              {canForceStatus && (
+                <label className="mt-2 flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.force}
+                    onChange={(e) => setForm({ ...form, force: e.target.checked })}
+                    disabled={isLoading}
+                    className="h-4 w-4 text-red-600 border-gray-300 rounded mr-2"
+                  />
+                  Force (admin): allow any status. Recorded on the gift&apos;s timeline with your reason.
+                </label>
+              )}
             </div>
           </div>
 
           {/* Tracking Info */}
           <div>
             <label htmlFor="tracking-info" className="block text-sm font-medium text-gray-700 mb-1">
-              Tracking Information
-              <span className="text-gray-400 font-normal"> (Optional)</span>
+              {reasonRequired ? 'Reason *' : (
+                <>
+                  Tracking Information
+                  <span className="text-gray-400 font-normal"> (Optional)</span>
+                </>
+              )}
             </label>
             <textarea
               id="tracking-info"
@@ -175,35 +293,40 @@ const GiftStatusManagement: React.FC = () => {
               value={form.tracking_info}
               onChange={(e) => setForm({ ...form, tracking_info: e.target.value })}
               disabled={isLoading}
+              required={reasonRequired}
             />
             <p className="text-xs text-gray-500 mt-1">
-              Additional information about the gift status (tracking numbers, delivery notes, etc.)
+              {reasonRequired
+                ? 'Explain why the gift is being changed. It is shown on the gift\'s status timeline.'
+                : 'Additional information about the gift status (tracking numbers, delivery notes, etc.)'}
             </p>
           </div>
 
           {/* Status Preview */}
-          <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
-            <h4 className="text-sm font-medium text-gray-700 mb-2">Status Preview</h4>
-            <div className="flex items-center">
-              <span className={`text-2xl mr-3 ${statusColors[form.status]}`}>
-                {statusIcons[form.status]}
-              </span>
-              <div>
-                <div className={`text-lg font-semibold ${statusColors[form.status]}`}>
-                  {form.status.charAt(0).toUpperCase() + form.status.slice(1)}
-                </div>
-                <div className="text-sm text-gray-600">
-                  {selectedStatusOption?.description}
+          {selectedStatus && (
+            <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Status Preview</h4>
+              <div className="flex items-center">
+                <span className={`text-2xl mr-3 ${statusColors[selectedStatus]}`}>
+                  {statusIcons[selectedStatus]}
+                </span>
+                <div>
+                  <div className={`text-lg font-semibold ${statusColors[selectedStatus]}`}>
+                    {selectedStatus.charAt(0).toUpperCase() + selectedStatus.slice(1)}
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    {selectedStatusOption?.description}
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
+          )}
 
           {/* Action Buttons */}
           <div className="flex space-x-4">
             <button
               type="submit"
-              disabled={isLoading || !form.gift_id.trim()}
+              disabled={isLoading || !canUpdateStatus || !selectedStatus || (reasonRequired && !form.tracking_info?.trim())}
               className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
             >
               {isLoading ? (
@@ -289,6 +412,11 @@ const GiftStatusManagement: React.FC = () => {
                 <div className="text-sm text-blue-700">
                   {option.description}
                 </div>
+                <div className="text-xs text-blue-600 mt-0.5">
+                  {nextGiftStatuses(option.value).length > 0
+                    ? `Can move to: ${nextGiftStatuses(option.value).join(', ')}`
+                    : 'Final status'}
+                </div>
               </div>
             </div>
           ))}
@@ -297,13 +425,29 @@ const GiftStatusManagement: React.FC = () => {
         <div className="mt-6 pt-4 border-t border-blue-200">
           <h4 className="text-sm font-semibold text-blue-900 mb-2">💡 Tips</h4>
           <div className="text-sm text-blue-800 space-y-1">
-            <p>• Use tracking information for "dispatched" and "delivered" statuses</p>
-            <p>• Include delivery notes or failure reasons when appropriate</p>
+            <p>• Use tracking information for &quot;dispatched&quot; and &quot;delivered&quot; statuses</p>
+            <p>• A reason is required when cancelling or failing a gift</p>
             <p>• Status updates are logged and can be tracked in Gift Management</p>
+            <p>• Updates are sent after a few seconds, so a mistake can be undone from the notification. Leaving the page before then drops the update.</p>
             <p>• Recipients may receive notifications for certain status changes</p>
           </div>
         </div>
       </div>
+
+      {isConfirming && selectedStatus && (
+        <StatusChangeDialog
+          subject={`Gift ${form.gift_id.trim()}`}
+          fromStatus={fromStatus}
+          status={selectedStatus}
+          force={form.force}
+          initialNotes={form.tracking_info?.trim()}
+          onConfirm={(notes) => {
+            setIsConfirming(false);
+            submitUpdate(notes);
+          }}
+          onCancel={() => setIsConfirming(false)}
+        />
+      )}
     </div>
   );
 };
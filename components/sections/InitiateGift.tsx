@@ -1,13 +1,25 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { apiService } from '@/lib/api';
-import { isValidEmail } from '@/lib/utils';
+import { toApiError } from '@/lib/errors';
+import { formatAddress, generateIdempotencyKey, isValidEmail } from '@/lib/utils';
+import { queryKeys } from '@/lib/queryCache';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { usePermissions } from '@/hooks/usePermissions';
 import LoadingSpinner from '../LoadingSpinner';
+import PermissionNotice from '../PermissionNotice';
 import toast from 'react-hot-toast';
 
 const InitiateGift: React.FC = () => {
+  const { can } = usePermissions();
+  const canSend = can('gifts:send');
   const [isLoading, setIsLoading] = useState(false);
+  // The sender address on the profile is printed as the card's return address
+  const { data: profile } = useApiQuery(queryKeys.userProfile, () => apiService.getUserProfile());
+  // Reused across resubmits of unchanged form data so a timed-out request
+  // that actually succeeded is replayed instead of creating a duplicate gift
+  const idempotencyKeyRef = useRef<string | null>(null);
   const [formData, setFormData] = useState({
     // Recipient details
     recipient: {
@@ -53,6 +65,7 @@ const InitiateGift: React.FC = () => {
   ];
 
   const updateFormData = (path: string, value: string) => {
+    idempotencyKeyRef.current = null;
     setFormData(prev => {
       const newData = { ...prev };
       const keys = path.split('.');
@@ -113,6 +126,10 @@ const InitiateGift: React.FC = () => {
       return;
     }
 
+    if (!idempotencyKeyRef.current) {
+      idempotencyKeyRef.current = generateIdempotencyKey();
+    }
+
     setIsLoading(true);
     try {
       const response = await apiService.initiateGift({
@@ -124,11 +141,16 @@ const InitiateGift: React.FC = () => {
         },
         gift: formData.gift,
         meta: formData.meta
-      });
+      }, { idempotencyKey: idempotencyKeyRef.current });
       
-      toast.success(`Gift initiated successfully! Gift ID: ${response.giftId}`);
+      if (response.replayed) {
+        toast.success(`This gift was already submitted. Original Gift ID: ${response.giftId}`, { duration: 8000 });
+      } else {
+        toast.success(`Gift initiated successfully! Gift ID: ${response.giftId}`);
+      }
       
       // Reset form
+      idempotencyKeyRef.current = null;
       setFormData({
         recipient: {
           fullName: '',
@@ -154,13 +176,23 @@ const InitiateGift: React.FC = () => {
           orderSource: 'Web Interface'
         }
       });
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error initiating gift:', error);
       
-      if (error.response?.status === 400) {
-        toast.error('Invalid gift data. Please check your information.');
-      } else {
-        toast.error('Failed to initiate gift. Please try again.');
+      const apiError = toApiError(error);
+      switch (apiError.code) {
+        case 'bad_request':
+        case 'validation_error':
+          toast.error(apiError.fieldErrors.length > 0
+            ? `Invalid gift data: ${apiError.message}`
+            : apiError.detail || 'Invalid gift data. Please check your information.');
+          break;
+        case 'network_error':
+        case 'timeout':
+          toast.error('The request did not complete. Submitting again is safe and will not send a duplicate gift.');
+          break;
+        default:
+          toast.error(`Failed to initiate gift: ${apiError.message}`);
       }
     } finally {
       setIsLoading(false);
@@ -174,6 +206,8 @@ const InitiateGift: React.FC = () => {
         <p className="text-gray-600">Send a personalized gift to someone special</p>
       </div>
 
+      <PermissionNotice permission="gifts:send" action="send gifts" />
+
       <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg border border-gray-200 max-w-4xl mx-auto">
         {/* Recipient Information */}
         <div className="mb-6">
@@ -420,10 +454,15 @@ const InitiateGift: React.FC = () => {
         </div>
 
         {/* Submit Button */}
-        <div className="flex justify-end pt-4 border-t border-gray-200">
+        <div className="flex items-center justify-between pt-4 border-t border-gray-200">
+          <p className="text-xs text-gray-500">
+            {profile?.address
+              ? <>📮 Return address: <span className="text-gray-700">{formatAddress(profile.address)}</span></>
+              : '📮 No sender address on your profile. Cards use your team owner\'s, if set; add yours under Profile.'}
+          </p>
           <button
             type="submit"
-            disabled={isLoading}
+            disabled={isLoading || !canSend}
             className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isLoading ? (
@@ -2,7 +2,10 @@
 
 import React, { useState } from 'react';
 import { apiService } from '@/lib/api';
+import { toApiError } from '@/lib/errors';
+import { usePermissions } from '@/hooks/usePermissions';
 import LoadingSpinner from '../LoadingSpinner';
+import PermissionNotice from '../PermissionNotice';
 import toast from 'react-hot-toast';
 
 interface VerificationForm {
@@ -10,14 +13,40 @@ interface VerificationForm {
   action: 'accept' | 'decline';
 }
 
-const MockVerification: React.FC = () => {
+interface MockVerificationProps {
+  // Prefilled by the onboarding wizard with its sandbox gift
+  initialGiftId?: string;
+  onVerified?: (giftId: string, accepted: boolean) => void;
+}
+
+const MockVerification: React.FC<MockVerificationProps> = ({ initialGiftId = '', onVerified }) => {
+  const { can } = usePermissions();
+  const canVerify = can('gifts:verify');
   const [form, setForm] = useState<VerificationForm>({
-    gift_id: '',
+    gift_id: initialGiftId,
     action: 'accept'
   });
   const [isLoading, setIsLoading] = useState(false);
   const [lastVerification, setLastVerification] = useState<any>(null);
 
+  const showVerificationError = (error: unknown) => {
+    const apiError = toApiError(error);
+    switch (apiError.code) {
+      case 'not_found':
+        toast.error('Gift not found');
+        break;
+      case 'bad_request':
+      case 'validation_error':
+        toast.error(apiError.detail || 'Invalid verification request');
+        break;
+      case 'conflict':
+        toast.error(apiError.detail || 'Gift has already been verified');
+        break;
+      default:
+        toast.error(`Failed to process verification: ${apiError.message}`);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -40,22 +69,16 @@ const MockVerification: React.FC = () => {
       
       const actionText = form.action === 'accept' ? 'accepted' : 'declined';
       toast.success(`Gift verification ${actionText} successfully`);
+      onVerified?.(form.gift_id.trim(), form.action === 'accept');
       
       // Reset form
       setForm({
         gift_id: '',
         action: 'accept'
       });
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error verifying gift:', error);
-      
-      if (error.response?.status === 404) {
-        toast.error('Gift not found');
-      } else if (error.response?.status === 400) {
-        toast.error(error.response.data?.detail || 'Invalid verification request');
-      } else {
-        toast.error('Failed to process verification');
-      }
+      showVerificationError(error);
     } finally {
       setIsLoading(false);
     }
@@ -92,22 +115,16 @@ const MockVerification: React.FC = () => {
       
       const actionText = action === 'accept' ? 'accepted' : 'declined';
       toast.success(`Gift verification ${actionText} successfully`);
+      onVerified?.(giftId.trim(), action === 'accept');
       
       // Reset form
       setForm({
         gift_id: '',
         action: 'accept'
       });
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error verifying gift:', error);
-      
-      if (error.response?.status === 404) {
-        toast.error('Gift not found');
-      } else if (error.response?.status === 400) {
-        toast.error(error.response.data?.detail || 'Invalid verification request');
-      } else {
-        toast.error('Failed to process verification');
-      }
+      showVerificationError(error);
     } finally {
       setIsLoading(false);
     }
@@ -138,6 +155,8 @@ const MockVerification: React.FC = () => {
 
       {/* Verification Form */}
       <div className="bg-white p-6 rounded-lg border border-gray-200 mb-8">
+        <PermissionNotice permission="gifts:verify" action="verify gifts" />
+
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {/* Gift ID */}
@@ -214,7 +233,7 @@ const MockVerification: React.FC = () => {
           <div className="flex space-x-4">
             <button
               type="submit"
-              disabled={isLoading || !form.gift_id.trim()}
+              disabled={isLoading || !canVerify || !form.gift_id.trim()}
               className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
             >
               {isLoading ? (
@@ -244,7 +263,7 @@ const MockVerification: React.FC = () => {
           <div className="flex space-x-3">
             <button
               onClick={() => handleQuickAction(form.gift_id, 'accept')}
-              disabled={isLoading || !form.gift_id.trim()}
+              disabled={isLoading || !canVerify || !form.gift_id.trim()}
               className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
             >
               ✅ Quick Accept
@@ -252,7 +271,7 @@ const MockVerification: React.FC = () => {
             
             <button
               onClick={() => handleQuickAction(form.gift_id, 'decline')}
-              disabled={isLoading || !form.gift_id.trim()}
+              disabled={isLoading || !canVerify || !form.gift_id.trim()}
               className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
             >
               ❌ Quick Decline
@@ -344,8 +363,8 @@ const MockVerification: React.FC = () => {
             <h4 className="text-sm font-semibold text-blue-900 mb-2">📋 How to Use</h4>
             <div className="text-sm text-blue-800 space-y-1">
               <p>1. Enter the Gift ID you want to test</p>
-              <p>2. Choose whether to simulate "Accept" or "Decline"</p>
-              <p>3. Click "Simulate" or use Quick Actions</p>
+              <p>2. Choose whether to simulate &quot;Accept&quot; or &quot;Decline&quot;</p>
+              <p>3. Click &quot;Simulate&quot; or use Quick Actions</p>
               <p>4. Check the gift status in Gift Management to see the changes</p>
             </div>
           </div>
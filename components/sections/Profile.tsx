@@ -0,0 +1,337 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { apiService } from '@/lib/api';
+import { queryCache, queryKeys } from '@/lib/queryCache';
+import { toApiError } from '@/lib/errors';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermissions';
+import { formatDate } from '@/lib/utils';
+import { UpdateUserProfileRequest, User } from '@/types';
+import LoadingSpinner from '../LoadingSpinner';
+import toast from 'react-hot-toast';
+
+interface ProfileForm {
+  full_name: string;
+  company_name: string;
+  phone_number: string;
+  address: {
+    line1: string;
+    line2: string;
+    city: string;
+    state: string;
+    zip: string;
+    country: string;
+  };
+}
+
+const EMPTY_ADDRESS: ProfileForm['address'] = {
+  line1: '',
+  line2: '',
+  city: '',
+  state: '',
+  zip: '',
+  country: 'USA'
+};
+
+// Helper function to fill the form from a saved profile
+const toForm = (profile: User): ProfileForm => ({
+  full_name: profile.full_name,
+  company_name: profile.company_name || '',
+  phone_number: profile.phone_number || '',
+  address: profile.address
+    ? { ...profile.address, line2: profile.address.line2 || '' }
+    : EMPTY_ADDRESS
+});
+
+const Profile: React.FC = () => {
+  const { updateProfile } = useAuth();
+  const { can } = usePermissions();
+  // The company name is shared by the whole team
+  const canEditCompany = can('account:manage');
+  const [profile, setProfile] = useState<User | null>(null);
+  const [form, setForm] = useState<ProfileForm>({
+    full_name: '',
+    company_name: '',
+    phone_number: '',
+    address: EMPTY_ADDRESS
+  });
+  const [isLoadingProfile, setIsLoadingProfile] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadProfile();
+  }, []);
+
+  const loadProfile = async () => {
+    setIsLoadingProfile(true);
+    try {
+      const response = await queryCache.ensure(queryKeys.userProfile, () => apiService.getUserProfile());
+      setProfile(response);
+      setForm(toForm(response));
+    } catch (error) {
+      console.error('Error loading profile:', error);
+      toast.error(`Failed to load profile: ${toApiError(error).message}`);
+    } finally {
+      setIsLoadingProfile(false);
+    }
+  };
+
+  const hasAddress = Object.entries(form.address)
+    .some(([field, value]) => field !== 'country' && value.trim() !== '');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.full_name.trim()) {
+      toast.error('Full name is required');
+      return;
+    }
+
+    // A partial address can't be printed, so it is all or nothing
+    if (hasAddress && (!form.address.line1.trim() || !form.address.city.trim() || !form.address.state.trim() || !form.address.zip.trim())) {
+      toast.error('Sender address needs line 1, city, state and ZIP code');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const request: UpdateUserProfileRequest = {
+        full_name: form.full_name.trim(),
+        company_name: canEditCompany ? form.company_name.trim() : profile?.company_name,
+        phone_number: form.phone_number.trim(),
+        address: hasAddress
+          ? {
+            line1: form.address.line1.trim(),
+            line2: form.address.line2.trim() || undefined,
+            city: form.address.city.trim(),
+            state: form.address.state.trim(),
+            zip: form.address.zip.trim(),
+            country: form.address.country.trim() || 'USA'
+          }
+          : null
+      };
+      // The session route returns only the account's user details, so the
+      // rest of the profile is what was just saved
+      const userInfo = await updateProfile(request);
+      if (profile) {
+        const saved: User = { ...profile, ...request, ...userInfo, address: request.address ?? undefined };
+        setProfile(saved);
+        setForm(toForm(saved));
+      }
+      toast.success('Profile saved');
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      const apiError = toApiError(error);
+      toast.error(apiError.fieldErrors.length > 0
+        ? `Invalid profile: ${apiError.message}`
+        : `Failed to save profile: ${apiError.message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateAddress = (field: keyof ProfileForm['address'], value: string) => {
+    setForm(prev => ({ ...prev, address: { ...prev.address, [field]: value } }));
+  };
+
+  if (isLoadingProfile) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50';
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">👤 Profile</h2>
+        <p className="text-gray-600">
+          Your contact details and the sender address printed as the return address on physical cards.
+        </p>
+      </div>
+
+      {profile && (
+        <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 mb-6 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+          <div>
+            <span className="text-gray-500">Email</span>
+            <p className="font-medium text-gray-900">{profile.email}</p>
+          </div>
+          <div>
+            <span className="text-gray-500">User ID</span>
+            <p className="font-mono text-gray-900">{profile.user_id}</p>
+          </div>
+          <div>
+            <span className="text-gray-500">Member since</span>
+            <p className="font-medium text-gray-900">{formatDate(profile.created_at || undefined)}</p>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-8">
+        {/* Contact details */}
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 mb-6">📇 Contact Details</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <label htmlFor="profile-full-name" className="block text-sm font-medium text-gray-700 mb-1">
+                Full Name *
+              </label>
+              <input
+                id="profile-full-name"
+                type="text"
+                className={inputClassName}
+                value={form.full_name}
+                onChange={(e) => setForm(prev => ({ ...prev, full_name: e.target.value }))}
+                disabled={isSaving}
+              />
+            </div>
+            <div>
+              <label htmlFor="profile-company" className="block text-sm font-medium text-gray-700 mb-1">
+                Company
+              </label>
+              <input
+                id="profile-company"
+                type="text"
+                className={inputClassName}
+                value={form.company_name}
+                onChange={(e) => setForm(prev => ({ ...prev, company_name: e.target.value }))}
+                disabled={isSaving || !canEditCompany}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {canEditCompany ? 'Shared by everyone on your team' : 'Only team admins can change the company name'}
+              </p>
+            </div>
+            <div>
+              <label htmlFor="profile-phone" className="block text-sm font-medium text-gray-700 mb-1">
+                Phone Number
+              </label>
+              <input
+                id="profile-phone"
+                type="tel"
+                className={inputClassName}
+                value={form.phone_number}
+                onChange={(e) => setForm(prev => ({ ...prev, phone_number: e.target.value }))}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Sender address */}
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">📮 Sender Address</h3>
+          <p className="text-sm text-gray-600 mb-6">
+            Printed as the return address on every card you send. Team members without their own use the team owner&apos;s.
+            Leave it empty to clear it.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="profile-line1" className="block text-sm font-medium text-gray-700 mb-1">
+                Address Line 1
+              </label>
+              <input
+                id="profile-line1"
+                type="text"
+                className={inputClassName}
+                value={form.address.line1}
+                onChange={(e) => updateAddress('line1', e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+            <div>
+              <label htmlFor="profile-line2" className="block text-sm font-medium text-gray-700 mb-1">
+                Address Line 2
+              </label>
+              <input
+                id="profile-line2"
+                type="text"
+                className={inputClassName}
+                value={form.address.line2}
+                onChange={(e) => updateAddress('line2', e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+            <div>
+              <label htmlFor="profile-city" className="block text-sm font-medium text-gray-700 mb-1">
+                City
+              </label>
+              <input
+                id="profile-city"
+                type="text"
+                className={inputClassName}
+                value={form.address.city}
+                onChange={(e) => updateAddress('city', e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="profile-state" className="block text-sm font-medium text-gray-700 mb-1">
+                  State
+                </label>
+                <input
+                  id="profile-state"
+                  type="text"
+                  className={inputClassName}
+                  value={form.address.state}
+                  onChange={(e) => updateAddress('state', e.target.value)}
+                  disabled={isSaving}
+                />
+              </div>
+              <div>
+                <label htmlFor="profile-zip" className="block text-sm font-medium text-gray-700 mb-1">
+                  ZIP Code
+                </label>
+                <input
+                  id="profile-zip"
+                  type="text"
+                  className={inputClassName}
+                  value={form.address.zip}
+                  onChange={(e) => updateAddress('zip', e.target.value)}
+                  disabled={isSaving}
+                />
+              </div>
+              <div>
+                <label htmlFor="profile-country" className="block text-sm font-medium text-gray-700 mb-1">
+                  Country
+                </label>
+                <input
+                  id="profile-country"
+                  type="text"
+                  className={inputClassName}
+                  value={form.address.country}
+                  onChange={(e) => updateAddress('country', e.target.value)}
+                  disabled={isSaving}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={() => profile && setForm(toForm(profile))}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Reset
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? <LoadingSpinner size="sm" /> : '💾 Save Profile'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default Profile;
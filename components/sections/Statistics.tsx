@@ -1,20 +1,24 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { apiService } from '@/lib/api';
+import { queryKeys } from '@/lib/queryCache';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { toApiError } from '@/lib/errors';
 import { statusIcons, statusColors, formatDate, calculateStatistics } from '@/lib/utils';
 import { Gift, GiftStatus } from '@/types';
+import { useUrlParams } from '@/hooks/useUrlParams';
 import LoadingSpinner from '../LoadingSpinner';
+import GiftIdLink from '../GiftIdLink';
 import toast from 'react-hot-toast';
 
 const Statistics: React.FC = () => {
-  const [gifts, setGifts] = useState<Gift[]>([]);
   const [filteredGifts, setFilteredGifts] = useState<Gift[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   
-  // Filters
-  const [campaignFilter, setCampaignFilter] = useState('');
-  const [statusFilter, setStatusFilter] = useState<GiftStatus | ''>('');
+  // Filters (kept in the query string so the view can be shared)
+  const { params, setParams } = useUrlParams();
+  const campaignFilter = params.get('campaign') ?? '';
+  const statusFilter = (params.get('status') ?? '') as GiftStatus | '';
   
   // Statistics
   const [stats, setStats] = useState({
@@ -30,22 +34,25 @@ const Statistics: React.FC = () => {
     statusCounts: {} as Record<string, number>
   });
 
-  const loadGifts = async () => {
-    setIsLoading(true);
-    try {
-      const response = await apiService.getAllGifts();
-      setGifts(response.gifts || []);
-    } catch (error: any) {
-      console.error('Error loading gifts:', error);
-      toast.error('Failed to load gifts');
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  // Shared with other sections through the query cache
+  const { data, error: loadError, isLoading, isFetching, refetch } = useApiQuery(
+    queryKeys.allGifts,
+    () => apiService.getAllGifts()
+  );
+  const gifts = useMemo(() => data?.gifts ?? [], [data]);
 
   useEffect(() => {
-    loadGifts();
-  }, []);
+    if (loadError) {
+      console.error('Error loading gifts:', loadError);
+      toast.error(`Failed to load gifts: ${toApiError(loadError).message}`);
+    }
+  }, [loadError]);
+
+  const loadGifts = () => {
+    refetch().catch(() => {
+      // Reported by the loadError effect
+    });
+  };
 
   // Filter gifts and calculate statistics
   useEffect(() => {
@@ -111,7 +118,7 @@ const Statistics: React.FC = () => {
           <select
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             value={campaignFilter}
-            onChange={(e) => setCampaignFilter(e.target.value)}
+            onChange={(e) => setParams({ campaign: e.target.value })}
           >
             <option value="">All Campaigns</option>
             {campaigns.map((campaign) => (
@@ -129,7 +136,7 @@ const Statistics: React.FC = () => {
           <select
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value as GiftStatus | '')}
+            onChange={(e) => setParams({ status: e.target.value })}
           >
             <option value="">All Statuses</option>
             {statusOptions.map((status) => (
@@ -143,9 +150,10 @@ const Statistics: React.FC = () => {
         <div className="flex items-end">
           <button
             onClick={loadGifts}
-            className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+            disabled={isFetching}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
           >
-            🔄 Refresh
+            {isFetching ? 'Loading...' : '🔄 Refresh'}
           </button>
         </div>
       </div>
@@ -256,7 +264,7 @@ const Statistics: React.FC = () => {
                       {gift.recipient?.full_name || 'N/A'}
                     </div>
                     <div className="text-xs text-gray-500">
-                      {gift.gift_id.slice(0, 8)}... • {(gift.gift?.type || 'Unknown').replace('_', ' ')}
+                      <GiftIdLink giftId={gift.gift_id} /> • {(gift.gift?.type || 'Unknown').replace('_', ' ')}
                     </div>
                   </div>
                 </div>
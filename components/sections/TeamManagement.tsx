@@ -0,0 +1,293 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { apiService } from '@/lib/api';
+import { queryKeys } from '@/lib/queryCache';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { usePermissions } from '@/hooks/usePermissions';
+import { toApiError } from '@/lib/errors';
+import { Role, ROLES, ROLE_LABELS, resolveRole } from '@/lib/permissions';
+import { cn, formatDate, isValidEmail } from '@/lib/utils';
+import { TeamMember } from '@/types';
+import LoadingSpinner from '../LoadingSpinner';
+import PermissionNotice from '../PermissionNotice';
+import toast from 'react-hot-toast';
+
+const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  admin: 'Everything, including settings, keys and the team',
+  operator: 'Send, verify and update gifts',
+  viewer: 'Read-only access to gifts and statistics'
+};
+
+// Helper function to build the link an invitee opens to join
+const inviteLink = (token: string) => `${window.location.origin}/?invite=${encodeURIComponent(token)}`;
+
+const TeamManagement: React.FC = () => {
+  const { can } = usePermissions();
+  const canManageTeam = can('account:manage');
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>('operator');
+  const [isInviting, setIsInviting] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  // Shown once after inviting, so the link can also be shared directly
+  const [lastInvite, setLastInvite] = useState<{ email: string; link: string } | null>(null);
+
+  const { data: members, error: loadError, isLoading, isFetching, refetch } = useApiQuery(
+    queryKeys.teamMembers,
+    () => apiService.listTeamMembers()
+  );
+
+  useEffect(() => {
+    if (loadError) {
+      console.error('Error loading team members:', loadError);
+      toast.error(`Failed to load team members: ${toApiError(loadError).message}`);
+    }
+  }, [loadError]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidEmail(email.trim())) {
+      toast.error('Please enter a valid email address');
+      return;
+    }
+
+    setIsInviting(true);
+    try {
+      const invitation = await apiService.inviteTeamMember({ email: email.trim(), role });
+      setLastInvite({ email: invitation.member.email, link: inviteLink(invitation.invite_token) });
+      setEmail('');
+      toast.success(`Invitation sent to ${invitation.member.email}`);
+    } catch (error) {
+      console.error('Error inviting team member:', error);
+      toast.error(`Failed to invite team member: ${toApiError(error).message}`);
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: TeamMember, nextRole: Role) => {
+    setUpdatingId(member.member_id);
+    try {
+      await apiService.updateTeamMemberRole(member.member_id, nextRole);
+      toast.success(`${member.full_name || member.email} is now ${ROLE_LABELS[nextRole] === 'Admin' ? 'an' : 'a'} ${ROLE_LABELS[nextRole]}`);
+    } catch (error) {
+      console.error('Error updating team member role:', error);
+      toast.error(`Failed to update role: ${toApiError(error).message}`);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleRemove = async (member: TeamMember) => {
+    const isInvite = member.status === 'invited';
+    const prompt = isInvite
+      ? `Cancel the invitation for ${member.email}?`
+      : `Remove ${member.full_name || member.email} from the team? Their API keys stop working immediately.`;
+    if (!window.confirm(prompt)) return;
+
+    setUpdatingId(member.member_id);
+    try {
+      await apiService.removeTeamMember(member.member_id);
+      toast.success(isInvite ? 'Invitation cancelled' : `${member.full_name || member.email} removed from the team`);
+    } catch (error) {
+      console.error('Error removing team member:', error);
+      toast.error(`Failed to remove team member: ${toApiError(error).message}`);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleCopyLink = async (link: string) => {
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success('Invite link copied to clipboard');
+    } catch (error) {
+      console.error('Error copying invite link:', error);
+      toast.error('Could not copy to clipboard');
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">👥 Team</h2>
+        <p className="text-gray-600">
+          Invite colleagues to your GiftLib account. Each member signs in with their own API key, and gifts record who sent them.
+        </p>
+      </div>
+
+      {/* Invite form */}
+      <div className="bg-white p-6 rounded-lg border border-gray-200 mb-8">
+        <h3 className="text-lg font-semibold text-gray-900 mb-6">✉️ Invite a Colleague</h3>
+
+        <PermissionNotice permission="account:manage" action="invite or manage team members" />
+
+        <form onSubmit={handleInvite} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="invite-email" className="block text-sm font-medium text-gray-700 mb-1">
+                Email *
+              </label>
+              <input
+                id="invite-email"
+                type="email"
+                placeholder="colleague@company.com"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                disabled={isInviting || !canManageTeam}
+              />
+            </div>
+            <div>
+              <label htmlFor="invite-role" className="block text-sm font-medium text-gray-700 mb-1">
+                Role
+              </label>
+              <select
+                id="invite-role"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                value={role}
+                onChange={(e) => setRole(e.target.value as Role)}
+                disabled={isInviting || !canManageTeam}
+              >
+                {ROLES.map(option => (
+                  <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">{ROLE_DESCRIPTIONS[role]}</p>
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={isInviting || !canManageTeam}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isInviting ? <LoadingSpinner size="sm" /> : 'Send invitation'}
+          </button>
+        </form>
+
+        {lastInvite && (
+          <div className="mt-6 p-4 rounded-md bg-green-50 border border-green-200">
+            <p className="text-sm text-green-800 mb-2">
+              ✅ {lastInvite.email} will receive an email with this link. You can also share it yourself:
+            </p>
+            <div className="flex items-center space-x-3">
+              <code className="flex-1 text-xs font-mono bg-white px-3 py-2 rounded border border-green-200 break-all">
+                {lastInvite.link}
+              </code>
+              <button
+                type="button"
+                onClick={() => handleCopyLink(lastInvite.link)}
+                className="px-3 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700"
+              >
+                📋 Copy
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Members */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">📋 Members</h3>
+          <button
+            type="button"
+            onClick={() => refetch().catch(() => undefined)}
+            disabled={isFetching}
+            className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isFetching ? 'Refreshing...' : '🔄 Refresh'}
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : !members || members.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <div className="text-4xl mb-2">👥</div>
+            <p>No team members to show.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Member', 'Role', 'Status', 'Joined', 'Last active', ''].map(heading => (
+                    <th key={heading} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {members.map(member => {
+                  const memberRole = resolveRole(member);
+                  const isInvite = member.status === 'invited';
+                  const isBusy = updatingId === member.member_id;
+                  return (
+                    <tr key={member.member_id} className={cn(member.is_current && 'bg-blue-50')}>
+                      <td className="px-4 py-3">
+                        <div className="text-sm font-medium text-gray-900">
+                          {member.full_name || member.email}
+                          {member.is_current && <span className="ml-2 text-xs text-blue-700">(you)</span>}
+                        </div>
+                        {member.full_name && <div className="text-sm text-gray-500">{member.email}</div>}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        {canManageTeam && !member.is_current ? (
+                          <select
+                            value={memberRole}
+                            onChange={(e) => handleRoleChange(member, e.target.value as Role)}
+                            disabled={isBusy}
+                            className="text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+                          >
+                            {ROLES.map(option => (
+                              <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-gray-900">{ROLE_LABELS[memberRole]}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={cn(
+                          'px-2 py-0.5 text-xs font-medium rounded-full',
+                          isInvite ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'
+                        )}>
+                          {isInvite ? 'Invited' : 'Active'}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                        {isInvite ? `Invited ${formatDate(member.invited_at ?? undefined)}` : formatDate(member.joined_at ?? undefined)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                        {member.last_active_at ? formatDate(member.last_active_at) : 'Never'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right">
+                        {canManageTeam && !member.is_current && (
+                          <button
+                            type="button"
+                            onClick={() => handleRemove(member)}
+                            disabled={isBusy}
+                            className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                          >
+                            {isInvite ? 'Cancel invite' : 'Remove'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TeamManagement;
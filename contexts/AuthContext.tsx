@@ -1,90 +1,306 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { UserInfo } from '@/types';
+import { EnvironmentId, EnvironmentProfile, IssuedApiKey, SessionAccount, SessionInfo, UpdateUserProfileRequest, UserInfo } from '@/types';
 import { apiService } from '@/lib/api';
+import { ApiError, toApiError } from '@/lib/errors';
+import { queryCache } from '@/lib/queryCache';
+import { broadcastAuthEvent, recordActivity, subscribeAuthEvents, subscribeSessionEnded } from '@/lib/sessionEvents';
 import { storage } from '@/lib/utils';
+import {
+  getActiveEnvironment,
+  getEnvironmentStorageKey,
+  setActiveEnvironment,
+  setEnvironmentBaseUrl
+} from '@/lib/environments';
 import toast from 'react-hot-toast';
 
+// Written by versions that kept the session in localStorage
+const LEGACY_USER_INFO_STORAGE_KEY = 'giftlib_user_info';
+
 interface AuthContextType {
   isLoggedIn: boolean;
+  // The active account's user
   userInfo: UserInfo | null;
-  apiKey: string;
-  login: (apiKey: string, userInfo: UserInfo) => void;
-  logout: () => void;
+  // Masked by the server; the raw key never reaches the browser
+  maskedApiKey: string;
+  sessionExpiresAt: string | null;
+  // Every account saved in this environment's session
+  accounts: SessionAccount[];
+  activeAccountId: string | null;
+  // Set when the session ended (401, idle timeout, expiry) while the page
+  // stays open; the re-authentication dialog shows it over the unsaved work
+  lockReason: string | null;
+  login: (apiKey: string) => Promise<void>;
+  // Sign in again from the lock dialog without unmounting the app
+  reauthenticate: (apiKey: string) => Promise<void>;
+  lockSession: (reason: string) => Promise<void>;
+  addAccount: (apiKey: string) => Promise<void>;
+  switchAccount: (accountId: string) => Promise<void>;
+  removeAccount: (accountId: string) => Promise<void>;
+  // Rotates the active account's key; the session keeps working on the new one
+  rotateApiKey: () => Promise<IssuedApiKey>;
+  // Saves the active account's profile and refreshes its session details
+  updateProfile: (profile: UpdateUserProfileRequest) => Promise<UserInfo>;
+  logout: () => Promise<void>;
   isLoading: boolean;
+  environment: EnvironmentProfile;
+  switchEnvironment: (id: EnvironmentId) => Promise<void>;
+  updateEnvironmentUrl: (id: EnvironmentId, baseUrl: string) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
-  const [userInfo, setUserInfo] = useState<UserInfo | null>(null);
-  const [apiKey, setApiKey] = useState('');
+  const [session, setSession] = useState<SessionInfo | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [lockReason, setLockReason] = useState<string | null>(null);
+  const [environment, setEnvironment] = useState<EnvironmentProfile>(getActiveEnvironment);
+
+  const activeAccount = session?.accounts.find(account => account.accountId === session.activeAccountId) ?? null;
+  const sessionExpiresAt = session?.expiresAt ?? null;
+
+  // Each account reads and writes its own cache scope, so switching never
+  // shows another company's data
+  const applySession = (next: SessionInfo) => {
+    queryCache.setScope(`${next.environment}:${next.activeAccountId}`);
+    setSession(next);
+  };
+
+  // Move a key saved in localStorage by older versions into a server session
+  const migrateLegacyKey = async (): Promise<SessionInfo | null> => {
+    const legacyApiKey = apiService.getApiKey();
+    storage.remove(getEnvironmentStorageKey(LEGACY_USER_INFO_STORAGE_KEY));
+    if (!legacyApiKey) return null;
+    try {
+      return await apiService.createSession(legacyApiKey);
+    } finally {
+      apiService.removeApiKey();
+    }
+  };
+
+  // Restore the session for the active environment profile
+  const restoreSession = async () => {
+    setIsLoading(true);
+    const activeEnvironment = getActiveEnvironment();
+    setEnvironment(activeEnvironment);
+    try {
+      let restored = await apiService.getSession();
+      if (!restored && activeEnvironment.transport === 'http') {
+        restored = await migrateLegacyKey();
+      }
+      if (restored) {
+        applySession(restored);
+        if (restored.locked) {
+          setLockReason('The dashboard is locked.');
+        }
+      }
+    } catch (error) {
+      const apiError = toApiError(error);
+      if (apiError.code === 'unauthorized' || apiError.code === 'forbidden') {
+        // Expired session or revoked key; the server has already dropped it
+        await apiService.endSession().catch(() => undefined);
+        toast.error('Session expired. Please login again.');
+      } else {
+        toast.error(`Could not restore session: ${apiError.message}`);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Initialize auth state from the server session
+  useEffect(() => {
+    restoreSession();
+  }, []);
+
+  const clearSessionState = () => {
+    setSession(null);
+    setLockReason(null);
+    // Cached data belongs to the previous accounts or environment
+    queryCache.clear();
+  };
+
+  // Lock the session but keep the page mounted, so forms survive until the
+  // user signs in again or logs out from the lock dialog. The saved accounts
+  // stay in the session; nothing is sent until a key is entered again.
+  const lockSession = async (reason: string) => {
+    setLockReason(reason);
+    broadcastAuthEvent('locked');
+    await apiService.lockSession().catch(error => {
+      console.error('Session lock error:', error);
+    });
+  };
+
+  // The server stops honoring the cookie at expiresAt; lock at the same time
+  useEffect(() => {
+    if (!sessionExpiresAt || lockReason) return;
+    const remaining = new Date(sessionExpiresAt).getTime() - Date.now();
+    const timer = setTimeout(() => {
+      lockSession('Your session expired.');
+    }, Math.max(0, remaining));
+    return () => clearTimeout(timer);
+  }, [sessionExpiresAt, lockReason]);
 
-  // Initialize auth state from localStorage
+  // Any request rejected with 401 means the session or key is no longer valid
   useEffect(() => {
-    const initializeAuth = async () => {
-      try {
-        const storedApiKey = apiService.getApiKey();
-        const storedUserInfo = storage.get('giftlib_user_info');
-
-        if (storedApiKey && storedUserInfo) {
-          // Verify the API key is still valid
-          try {
-            const profile = await apiService.getUserProfile();
-            setApiKey(storedApiKey);
-            setUserInfo(storedUserInfo);
-            setIsLoggedIn(true);
-          } catch (error) {
-            // API key is invalid, clear stored data
-            apiService.removeApiKey();
-            storage.remove('giftlib_user_info');
-            toast.error('Session expired. Please login again.');
+    if (!session || lockReason) return;
+    let isLocking = false;
+    return subscribeSessionEnded((error: ApiError) => {
+      if (isLocking) return;
+      isLocking = true;
+      lockSession(error.backendCode === 'session_expired' || error.backendCode === 'no_session'
+        ? 'Your session expired.'
+        : 'Your API key was rejected. It may have been revoked or rotated.');
+    });
+  }, [session, lockReason]);
+
+  // Follow logins and logouts made in this environment's other tabs
+  useEffect(() => {
+    return subscribeAuthEvents(async event => {
+      if (event.type === 'logout' && session) {
+        clearSessionState();
+        toast('You were logged out in another tab');
+      } else if (event.type === 'locked' && session && !lockReason) {
+        setLockReason('The dashboard was locked in another tab.');
+        // Already locked on the server; this stops this tab's requests too
+        apiService.lockSession().catch(() => undefined);
+      } else if (event.type === 'login' && (!session || lockReason)) {
+        // Pick up the new session without the loading screen, which would
+        // unmount unsaved forms
+        try {
+          const restored = await apiService.getSession();
+          if (restored && !restored.locked) {
+            applySession(restored);
+            setLockReason(null);
           }
+        } catch (error) {
+          console.error('Session sync error:', error);
         }
-      } catch (error) {
-        console.error('Error initializing auth:', error);
-      } finally {
-        setIsLoading(false);
       }
-    };
+    });
+  }, [session, lockReason]);
 
-    initializeAuth();
-  }, []);
+  const switchEnvironment = async (id: EnvironmentId) => {
+    setActiveEnvironment(id);
+    clearSessionState();
+    await restoreSession();
+  };
+
+  const updateEnvironmentUrl = async (id: EnvironmentId, baseUrl: string) => {
+    setEnvironmentBaseUrl(id, baseUrl);
+    if (id === environment.id) {
+      // The session was started against the previous host
+      await apiService.endSession().catch(() => undefined);
+      clearSessionState();
+      await restoreSession();
+    }
+  };
+
+  // Throws an ApiError when the key is rejected so the login form can explain why
+  const login = async (apiKey: string) => {
+    const created = await apiService.createSession(apiKey);
+    queryCache.clear();
+    applySession(created);
+    recordActivity(true);
+    broadcastAuthEvent('login');
+    const account = created.accounts.find(saved => saved.accountId === created.activeAccountId);
+    toast.success(`Welcome back, ${account?.userInfo.full_name}!`);
+  };
+
+  // Unlocks the session with a saved account's key, keeping the others.
+  // Cached data is kept when the same account signs back in; another
+  // account's content remounts (MainApp is keyed by the account)
+  const reauthenticate = async (apiKey: string) => {
+    const created = await apiService.createSession(apiKey, { unlock: true });
+    applySession(created);
+    setLockReason(null);
+    recordActivity(true);
+    broadcastAuthEvent('login');
+    toast.success('Signed in again');
+  };
+
+  // Save another company's key next to the current accounts and switch to it
+  const addAccount = async (apiKey: string) => {
+    const updated = await apiService.createSession(apiKey, { addAccount: true });
+    applySession(updated);
+    const account = updated.accounts.find(saved => saved.accountId === updated.activeAccountId);
+    toast.success(`Switched to ${account?.userInfo.company_name || account?.userInfo.full_name}`);
+  };
+
+  const switchAccount = async (accountId: string) => {
+    if (accountId === session?.activeAccountId) return;
+    try {
+      applySession(await apiService.switchAccount(accountId));
+    } catch (error) {
+      console.error('Account switch error:', error);
+      toast.error(`Could not switch account: ${toApiError(error).message}`);
+    }
+  };
+
+  const removeAccount = async (accountId: string) => {
+    try {
+      const remaining = await apiService.removeAccount(accountId);
+      queryCache.removeScope(`${environment.id}:${accountId}`);
+      if (remaining) {
+        applySession(remaining);
+      } else {
+        clearSessionState();
+      }
+      toast.success('Account removed');
+    } catch (error) {
+      console.error('Remove account error:', error);
+      toast.error(`Could not remove account: ${toApiError(error).message}`);
+    }
+  };
+
+  // Throws an ApiError when the backend refuses, leaving the session on the old key
+  const rotateApiKey = async () => {
+    const { session: rotated, ...issued } = await apiService.rotateSessionKey();
+    applySession(rotated);
+    return issued;
+  };
+
+  // Throws an ApiError when the backend refuses the update
+  const updateProfile = async (request: UpdateUserProfileRequest) => {
+    const { profile, session: updated } = await apiService.updateSessionProfile(request);
+    applySession(updated);
+    return profile;
+  };
 
-  const login = (newApiKey: string, newUserInfo: UserInfo) => {
-    setApiKey(newApiKey);
-    setUserInfo(newUserInfo);
-    setIsLoggedIn(true);
-    
-    // Store in localStorage
-    apiService.setApiKey(newApiKey);
-    storage.set('giftlib_user_info', newUserInfo);
-    
-    toast.success(`Welcome back, ${newUserInfo.full_name}!`);
-  };
-
-  const logout = () => {
-    setApiKey('');
-    setUserInfo(null);
-    setIsLoggedIn(false);
-    
-    // Clear localStorage
-    apiService.removeApiKey();
-    storage.remove('giftlib_user_info');
-    
-    toast.success('Logged out successfully');
+  const logout = async () => {
+    clearSessionState();
+    broadcastAuthEvent('logout');
+    try {
+      await apiService.endSession();
+      toast.success('Logged out successfully');
+    } catch (error) {
+      console.error('Logout error:', error);
+      toast.error('Logged out here, but the server session could not be cleared');
+    }
   };
 
   const value: AuthContextType = {
-    isLoggedIn,
-    userInfo,
-    apiKey,
+    isLoggedIn: session !== null,
+    userInfo: activeAccount?.userInfo ?? null,
+    maskedApiKey: activeAccount?.maskedApiKey ?? '',
+    sessionExpiresAt,
+    accounts: session?.accounts ?? [],
+    activeAccountId: session?.activeAccountId ?? null,
+    lockReason,
     login,
+    reauthenticate,
+    lockSession,
+    addAccount,
+    switchAccount,
+    removeAccount,
+    rotateApiKey,
+    updateProfile,
     logout,
-    isLoading
+    isLoading,
+    environment,
+    switchEnvironment,
+    updateEnvironmentUrl
   };
 
   return (
@@ -0,0 +1,69 @@
+'use client';
+
+import { useCallback, useEffect, useReducer, useRef } from 'react';
+import { DEFAULT_STALE_TIME, QueryKey, queryCache } from '@/lib/queryCache';
+
+interface UseApiQueryOptions {
+  staleTime?: number;
+  enabled?: boolean;
+  // Keep showing the previous key's data while a new key loads (pagination, filters)
+  keepPreviousData?: boolean;
+}
+
+interface UseApiQueryResult<T> {
+  data: T | undefined;
+  error: unknown;
+  isLoading: boolean;
+  isFetching: boolean;
+  updatedAt: number;
+  refetch: () => Promise<T>;
+}
+
+// Read data through the shared query cache with stale-while-revalidate:
+// cached data renders immediately and is refreshed in the background once stale.
+export function useApiQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { staleTime = DEFAULT_STALE_TIME, enabled = true, keepPreviousData = false }: UseApiQueryOptions = {}
+): UseApiQueryResult<T> {
+  const [, forceRender] = useReducer((count: number) => count + 1, 0);
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+  const previousDataRef = useRef<T | undefined>(undefined);
+
+  const hash = JSON.stringify(key);
+  const keyRef = useRef(key);
+  keyRef.current = key;
+
+  useEffect(() => {
+    const unsubscribe = queryCache.subscribe(keyRef.current, forceRender);
+    if (enabled && queryCache.isStale(keyRef.current, staleTime)) {
+      queryCache.fetch(keyRef.current, () => fetcherRef.current()).catch(() => {
+        // Exposed through `error`
+      });
+    }
+    return unsubscribe;
+  }, [hash, enabled, staleTime]);
+
+  const refetch = useCallback(
+    () => queryCache.fetch(keyRef.current, () => fetcherRef.current()),
+    []
+  );
+
+  const state = queryCache.getState<T>(key);
+  let data = state?.data;
+  if (data !== undefined) {
+    previousDataRef.current = data;
+  } else if (keepPreviousData) {
+    data = previousDataRef.current;
+  }
+
+  return {
+    data,
+    error: state?.error,
+    isLoading: data === undefined && enabled && state?.error === undefined,
+    isFetching: state?.isFetching ?? false,
+    updatedAt: state?.updatedAt ?? 0,
+    refetch
+  };
+}
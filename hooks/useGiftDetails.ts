@@ -0,0 +1,39 @@
+'use client';
+
+import { useEffect, useReducer } from 'react';
+import { GiftDetail } from '@/types';
+import { apiService } from '@/lib/api';
+import { queryCache, queryKeys } from '@/lib/queryCache';
+
+// Several gifts read through their own detail entries in the query cache
+// (shared with the gift drawer). Only gifts that aren't cached yet are
+// fetched, so adding an ID to the list costs at most one request; cached
+// ones follow status patches and refetch when invalidated.
+export function useGiftDetails(giftIds: string[], { enabled = true } = {}): Map<string, GiftDetail> {
+  const [, forceRender] = useReducer((count: number) => count + 1, 0);
+  const idsKey = giftIds.join(',');
+
+  useEffect(() => {
+    if (!enabled || !idsKey) return;
+    const unsubscribers = idsKey.split(',').map(giftId => {
+      const key = queryKeys.giftDetail(giftId);
+      const unsubscribe = queryCache.subscribe(key, forceRender);
+      if (queryCache.isStale(key, Infinity) && queryCache.getState(key)?.error === undefined) {
+        queryCache.fetch(key, () => apiService.getGift(giftId)).catch(() => {
+          // A gift that can't be loaded is left out of the result
+        });
+      }
+      return unsubscribe;
+    });
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [idsKey, enabled]);
+
+  const details = new Map<string, GiftDetail>();
+  if (enabled) {
+    giftIds.forEach(giftId => {
+      const gift = queryCache.getState<GiftDetail>(queryKeys.giftDetail(giftId))?.data;
+      if (gift) details.set(giftId, gift);
+    });
+  }
+  return details;
+}
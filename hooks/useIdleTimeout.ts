@@ -0,0 +1,63 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { IDLE_TIMEOUT_MS, IDLE_WARNING_MS, getLastActivity, recordActivity } from '@/lib/sessionEvents';
+
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart'];
+
+interface UseIdleTimeoutResult {
+  // Time left before sign-out while the warning is due, otherwise null
+  warningRemainingMs: number | null;
+  stayActive: () => void;
+}
+
+// Calls onTimeout after IDLE_TIMEOUT_MS without activity in any tab. Once
+// the warning is due only stayActive() (or activity in another tab) resets
+// it, so a stray mouse movement doesn't dismiss the dialog unread.
+export function useIdleTimeout(enabled: boolean, onTimeout: () => void): UseIdleTimeoutResult {
+  const [warningRemainingMs, setWarningRemainingMs] = useState<number | null>(null);
+  const onTimeoutRef = useRef(onTimeout);
+  onTimeoutRef.current = onTimeout;
+  const isWarningRef = useRef(false);
+
+  useEffect(() => {
+    if (!enabled || IDLE_TIMEOUT_MS <= 0) {
+      setWarningRemainingMs(null);
+      return;
+    }
+
+    recordActivity(true);
+    const handleActivity = () => {
+      if (!isWarningRef.current) {
+        recordActivity();
+      }
+    };
+    ACTIVITY_EVENTS.forEach(name => window.addEventListener(name, handleActivity, { passive: true }));
+
+    const timer = setInterval(() => {
+      const remaining = getLastActivity() + IDLE_TIMEOUT_MS - Date.now();
+      isWarningRef.current = remaining <= IDLE_WARNING_MS;
+      if (remaining <= 0) {
+        clearInterval(timer);
+        setWarningRemainingMs(null);
+        onTimeoutRef.current();
+      } else {
+        setWarningRemainingMs(isWarningRef.current ? remaining : null);
+      }
+    }, 1000);
+
+    return () => {
+      clearInterval(timer);
+      ACTIVITY_EVENTS.forEach(name => window.removeEventListener(name, handleActivity));
+      isWarningRef.current = false;
+    };
+  }, [enabled]);
+
+  const stayActive = () => {
+    isWarningRef.current = false;
+    recordActivity(true);
+    setWarningRemainingMs(null);
+  };
+
+  return { warningRemainingMs, stayActive };
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { OnboardingProgress, OnboardingStep, OnboardingStepStatus } from '@/types';
+import { finishOnboarding, getOnboarding, nextOnboardingStep, saveOnboarding } from '@/lib/onboarding';
+
+export interface UseOnboardingResult {
+  // Null when the account has no setup in progress
+  progress: OnboardingProgress | null;
+  update: (patch: Partial<OnboardingProgress>) => void;
+  // Mark a step done or skipped and move on to the next one
+  completeStep: (step: OnboardingStep, status: OnboardingStepStatus) => void;
+  goToStep: (step: OnboardingStep) => void;
+  finish: () => void;
+}
+
+// Onboarding progress for the active account, saved on every change
+export function useOnboarding(accountId: string | null): UseOnboardingResult {
+  const [progress, setProgress] = useState<OnboardingProgress | null>(null);
+
+  useEffect(() => {
+    setProgress(accountId ? getOnboarding(accountId) : null);
+  }, [accountId]);
+
+  const update = (patch: Partial<OnboardingProgress>) => {
+    if (!accountId || !progress) return;
+    const next = { ...progress, ...patch };
+    saveOnboarding(accountId, next);
+    setProgress(next);
+  };
+
+  const completeStep = (step: OnboardingStep, status: OnboardingStepStatus) => {
+    const nextStep = nextOnboardingStep(step);
+    update({
+      steps: { ...progress?.steps, [step]: status },
+      currentStep: nextStep ?? step,
+      ...(nextStep ? {} : { completedAt: new Date().toISOString() })
+    });
+  };
+
+  const goToStep = (step: OnboardingStep) => update({ currentStep: step, completedAt: undefined });
+
+  const finish = () => {
+    if (accountId) finishOnboarding(accountId);
+    setProgress(null);
+  };
+
+  return { progress, update, completeStep, goToStep, finish };
+}
@@ -0,0 +1,19 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { AppSection } from '@/types';
+import { Permission, ROLE_LABELS, canViewSection, hasPermission, resolveRole } from '@/lib/permissions';
+
+// Role of the active account and what it may do, for hiding and disabling UI
+export function usePermissions() {
+  const { userInfo } = useAuth();
+  const role = resolveRole(userInfo);
+
+  return useMemo(() => ({
+    role,
+    roleLabel: ROLE_LABELS[role],
+    can: (permission: Permission) => hasPermission(role, permission),
+    canViewSection: (section: AppSection) => canViewSection(role, section)
+  }), [role]);
+}
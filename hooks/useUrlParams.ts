@@ -0,0 +1,43 @@
+'use client';
+
+import { useCallback } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+
+export type UrlParamValue = string | number | string[] | null | undefined;
+
+export interface SetUrlParamsOptions {
+  // Replace the current history entry instead of adding one. Used for
+  // keystrokes and checkbox toggles so Back skips over them.
+  replace?: boolean;
+}
+
+// Section state kept in the query string, so views can be bookmarked and
+// shared and browser back/forward steps through them. Empty values are
+// dropped from the URL; arrays are stored comma-separated.
+export function useUrlParams() {
+  const searchParams = useSearchParams();
+  const pathname = usePathname();
+  const router = useRouter();
+
+  const setParams = useCallback((patch: Record<string, UrlParamValue>, { replace = false }: SetUrlParamsOptions = {}) => {
+    const params = new URLSearchParams(searchParams.toString());
+    Object.entries(patch).forEach(([key, value]) => {
+      const serialized = Array.isArray(value) ? value.join(',') : value;
+      if (serialized === null || serialized === undefined || serialized === '') {
+        params.delete(key);
+      } else {
+        params.set(key, String(serialized));
+      }
+    });
+
+    const query = params.toString();
+    const href = query ? `${pathname}?${query}` : pathname;
+    if (replace) {
+      router.replace(href, { scroll: false });
+    } else {
+      router.push(href, { scroll: false });
+    }
+  }, [searchParams, pathname, router]);
+
+  return { params: searchParams, setParams };
+}
@@ -0,0 +1,140 @@
+import { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Toasts render into the document, which these tests don't have
+vi.mock('react-hot-toast', () => ({ default: { error: vi.fn(), success: vi.fn() } }));
+
+type ApiModule = typeof import('@/lib/api');
+type UnloadListener = (event: { preventDefault: () => void; returnValue?: string }) => void;
+
+// lib/api.ts registers its unload warning when it loads, so the browser
+// globals are stubbed before it is imported
+const unloadListeners: UnloadListener[] = [];
+const stored = new Map<string, string>();
+
+const sent: InternalAxiosRequestConfig[] = [];
+const transport: AxiosAdapter = async config => {
+  sent.push(config);
+  return { data: { success: true }, status: 200, statusText: 'OK', headers: {}, config };
+};
+
+const statusUpdates = () => sent.filter(config => config.url === '/api/gift-status');
+
+const saveSession = (accountIds: string[]) => {
+  stored.set('giftlib_session', JSON.stringify({
+    accounts: accountIds.map(accountId => ({
+      accountId,
+      userInfo: { user_id: accountId, email: `${accountId}@example.test`, full_name: accountId },
+      maskedApiKey: 'gl_****'
+    })),
+    activeAccountId: accountIds[0],
+    environment: 'production',
+    expiresAt: null,
+    apiKeys: Object.fromEntries(accountIds.map(accountId => [accountId, `gl_${accountId}_key`]))
+  }));
+  stored.set('giftlib_api_key', `gl_${accountIds[0]}_key`);
+};
+
+let api: ApiModule;
+
+beforeAll(async () => {
+  vi.stubGlobal('window', {
+    location: { origin: 'http://localhost' },
+    addEventListener: (type: string, listener: UnloadListener) => {
+      if (type === 'beforeunload') unloadListeners.push(listener);
+    }
+  });
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => stored.set(key, String(value)),
+    removeItem: (key: string) => stored.delete(key)
+  });
+  api = await import('@/lib/api');
+  api.setApiTransport(transport);
+});
+
+afterAll(() => {
+  api.setApiTransport(null);
+  vi.unstubAllGlobals();
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  saveSession(['alice', 'bob']);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  sent.length = 0;
+  stored.clear();
+});
+
+const deferStatusChange = (giftId: string) =>
+  api.apiService.deferGiftStatusUpdate({ giftId, status: 'cancelled', notes: 'Duplicate' }, { status: 'pending' });
+
+describe('deferred status changes', () => {
+  it('are sent once the undo window ends', async () => {
+    const { result } = deferStatusChange('gift-1');
+
+    await vi.advanceTimersByTimeAsync(api.STATUS_UNDO_WINDOW_MS - 1);
+    expect(statusUpdates()).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toMatchObject({ success: true });
+    expect(statusUpdates()).toHaveLength(1);
+    expect(JSON.parse(statusUpdates()[0].data)).toMatchObject({ giftId: 'gift-1', status: 'cancelled' });
+  });
+
+  it('are never sent when undone within the window', async () => {
+    const { result, undo } = deferStatusChange('gift-1');
+
+    undo();
+    await expect(result).resolves.toBeNull();
+    await vi.advanceTimersByTimeAsync(api.STATUS_UNDO_WINDOW_MS);
+    expect(statusUpdates()).toHaveLength(0);
+  });
+
+  it('can no longer be undone once sent', async () => {
+    const { result, undo } = api.apiService.deferBulkGiftAction(['gift-1', 'gift-2'], { type: 'status', status: 'failed', notes: 'Bounced' });
+
+    await vi.advanceTimersByTimeAsync(api.STATUS_UNDO_WINDOW_MS);
+    expect(undo()).toBe(false);
+    await expect(result).resolves.toHaveLength(2);
+    expect(statusUpdates()).toHaveLength(2);
+  });
+
+  it('are sent as the account that made them before switching account', async () => {
+    const { result } = deferStatusChange('gift-1');
+
+    await api.apiService.switchAccount('bob');
+
+    await expect(result).resolves.toMatchObject({ success: true });
+    expect(statusUpdates()).toHaveLength(1);
+    expect(statusUpdates()[0].headers.get('X-API-Key')).toBe('gl_alice_key');
+    await vi.advanceTimersByTimeAsync(api.STATUS_UNDO_WINDOW_MS);
+    expect(statusUpdates()).toHaveLength(1);
+  });
+
+  it('are sent before the session ends', async () => {
+    const { result } = deferStatusChange('gift-1');
+
+    await api.apiService.endSession();
+
+    await expect(result).resolves.toMatchObject({ success: true });
+    expect(statusUpdates()).toHaveLength(1);
+  });
+
+  it('make leaving the page ask first without sending anything', async () => {
+    const { undo } = deferStatusChange('gift-1');
+    const event = { preventDefault: vi.fn(), returnValue: undefined as string | undefined };
+
+    unloadListeners.forEach(listener => listener(event));
+    expect(event.preventDefault).toHaveBeenCalled();
+    expect(statusUpdates()).toHaveLength(0);
+
+    undo();
+    const afterUndo = { preventDefault: vi.fn() };
+    unloadListeners.forEach(listener => listener(afterUndo));
+    expect(afterUndo.preventDefault).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { Gift, GiftPage, GiftQuery, GiftStatus } from '@/types';
+import { LEGACY_GIFT_LIMIT, collectAllGifts, matchesGiftQuery, paginateGiftsLocally } from '@/lib/giftQuery';
+
+const makeGift = (id: string, name: string, status: GiftStatus, createdAt: string, campaignId = 'SPRING-2025'): Gift => ({
+  gift_id: id,
+  recipient_name: name,
+  recipient_email: `${name.split(' ')[0].toLowerCase()}@example.test`,
+  gift_type: 'flowers',
+  status,
+  campaign_id: campaignId,
+  verified: status === 'verified',
+  created_at: createdAt,
+  recipient: { full_name: name, email: `${name.split(' ')[0].toLowerCase()}@example.test` },
+  gift: { type: 'flowers' },
+  meta: { campaign_id: campaignId }
+});
+
+const gifts = [
+  makeGift('gift-1', 'Ada Lovelace', 'pending', '2025-01-01T09:00:00Z'),
+  makeGift('gift-2', 'Grace Hopper', 'verified', '2025-01-02T23:59:59Z', 'WINTER'),
+  makeGift('gift-3', 'Alan Turing', 'pending', '2025-01-03T00:00:00Z'),
+  makeGift('gift-4', 'Edsger Dijkstra', 'delivered', '2025-01-04T12:00:00Z')
+];
+
+describe('matchesGiftQuery', () => {
+  it('matches status exactly and campaign as a case-insensitive substring', () => {
+    expect(matchesGiftQuery(gifts[0], { status: 'pending', campaignId: 'spring' })).toBe(true);
+    expect(matchesGiftQuery(gifts[0], { status: 'verified' })).toBe(false);
+    expect(matchesGiftQuery(gifts[1], { campaignId: 'spring' })).toBe(false);
+  });
+
+  it('searches the recipient name, email and gift ID', () => {
+    expect(matchesGiftQuery(gifts[1], { search: 'HOPPER' })).toBe(true);
+    expect(matchesGiftQuery(gifts[1], { search: 'grace@' })).toBe(true);
+    expect(matchesGiftQuery(gifts[1], { search: 'gift-2' })).toBe(true);
+    expect(matchesGiftQuery(gifts[1], { search: 'turing' })).toBe(false);
+  });
+
+  it('treats the date range as inclusive calendar days', () => {
+    const query: GiftQuery = { createdFrom: '2025-01-02', createdTo: '2025-01-03' };
+
+    expect(gifts.filter(gift => matchesGiftQuery(gift, query)).map(gift => gift.gift_id)).toEqual(['gift-2', 'gift-3']);
+  });
+});
+
+describe('paginateGiftsLocally', () => {
+  it('filters, sorts and pages with the offset as the cursor', () => {
+    const query: GiftQuery = { sortBy: 'recipient_name', sortDirection: 'asc', pageSize: 2 };
+
+    const first = paginateGiftsLocally(gifts, query);
+    const second = paginateGiftsLocally(gifts, { ...query, cursor: first.nextCursor });
+
+    expect(first.gifts.map(gift => gift.recipient_name)).toEqual(['Ada Lovelace', 'Alan Turing']);
+    expect(first).toMatchObject({ totalCount: 4, nextCursor: '2', pageSize: 2, serverPaginated: false });
+    expect(second.gifts.map(gift => gift.recipient_name)).toEqual(['Edsger Dijkstra', 'Grace Hopper']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('counts only matching gifts and defaults to the newest first', () => {
+    const page = paginateGiftsLocally(gifts, { status: 'pending' });
+
+    expect(page.gifts.map(gift => gift.gift_id)).toEqual(['gift-3', 'gift-1']);
+    expect(page).toMatchObject({ totalCount: 2, nextCursor: null, pageSize: 10 });
+  });
+
+  it('reads a cursor it did not issue as the first page', () => {
+    expect(paginateGiftsLocally(gifts, { pageSize: 1, cursor: 'not-an-offset' }).gifts[0].gift_id).toBe('gift-4');
+  });
+});
+
+describe('collectAllGifts', () => {
+  it('follows cursors until the last page, asking for the largest pages', async () => {
+    const requested: GiftQuery[] = [];
+    const fetchPage = async (query: GiftQuery): Promise<GiftPage> => {
+      requested.push(query);
+      return paginateGiftsLocally(gifts, { ...query, pageSize: 3 });
+    };
+
+    const collected = await collectAllGifts({ status: 'pending', pageSize: 10 }, fetchPage);
+
+    expect(collected.map(gift => gift.gift_id)).toEqual(['gift-3', 'gift-1']);
+    expect(requested).toEqual([{ status: 'pending', pageSize: LEGACY_GIFT_LIMIT, cursor: null }]);
+  });
+
+  it('collects every page', async () => {
+    const cursors: (string | null | undefined)[] = [];
+    const fetchPage = async (query: GiftQuery): Promise<GiftPage> => {
+      cursors.push(query.cursor);
+      return paginateGiftsLocally(gifts, { ...query, pageSize: 3 });
+    };
+
+    const collected = await collectAllGifts({}, fetchPage);
+
+    expect(collected).toHaveLength(4);
+    expect(cursors).toEqual([null, '3']);
+  });
+});
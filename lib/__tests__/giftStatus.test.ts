@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { GIFT_STATUS_TRANSITIONS, canTransitionGiftStatus, nextGiftStatuses, requiresStatusReason } from '@/lib/giftStatus';
+import { GIFT_STATUSES } from '@/lib/schemas';
+
+describe('gift status state machine', () => {
+  it('covers every status and only moves to known statuses', () => {
+    expect(Object.keys(GIFT_STATUS_TRANSITIONS).sort()).toEqual([...GIFT_STATUSES].sort());
+    Object.values(GIFT_STATUS_TRANSITIONS).flat().forEach(status => {
+      expect(GIFT_STATUSES).toContain(status);
+    });
+  });
+
+  it('follows the fulfilment path and allows retrying failed gifts', () => {
+    expect(canTransitionGiftStatus('pending', 'verified')).toBe(true);
+    expect(canTransitionGiftStatus('verified', 'dispatched')).toBe(true);
+    expect(canTransitionGiftStatus('dispatched', 'delivered')).toBe(true);
+    expect(canTransitionGiftStatus('failed', 'pending')).toBe(true);
+  });
+
+  it('rejects skipping ahead, going back and leaving terminal statuses', () => {
+    expect(canTransitionGiftStatus('pending', 'delivered')).toBe(false);
+    expect(canTransitionGiftStatus('dispatched', 'pending')).toBe(false);
+    expect(canTransitionGiftStatus('dispatched', 'cancelled')).toBe(false);
+    expect(nextGiftStatuses('delivered')).toEqual([]);
+    expect(nextGiftStatuses('cancelled')).toEqual([]);
+  });
+
+  it('never lists a status as its own next status', () => {
+    GIFT_STATUSES.forEach(status => {
+      expect(nextGiftStatuses(status)).not.toContain(status);
+    });
+  });
+
+  it('requires a reason for cancelled, failed and forced changes', () => {
+    expect(requiresStatusReason('cancelled')).toBe(true);
+    expect(requiresStatusReason('failed')).toBe(true);
+    expect(requiresStatusReason('verified')).toBe(false);
+    expect(requiresStatusReason('verified', true)).toBe(true);
+  });
+});
@@ -0,0 +1,108 @@
+import { AxiosAdapter, AxiosRequestConfig } from 'axios';
+import { describe, expect, it } from 'vitest';
+import { createGiftLibClient, staticCredentials } from '@/lib/giftlibClient';
+import { LEGACY_GIFT_LIMIT } from '@/lib/giftQuery';
+import { MOCK_BASE_URL, MOCK_DEMO_API_KEY, createMockBackend } from '@/lib/mockBackend';
+
+// Client on a fresh mock backend that records the URL of every request
+const makeClient = () => {
+  const backend = createMockBackend();
+  const urls: string[] = [];
+  const adapter: AxiosAdapter = config => {
+    urls.push(config.url ?? '');
+    return backend.adapter(config);
+  };
+  const client = createGiftLibClient({
+    baseUrl: MOCK_BASE_URL,
+    adapter,
+    credentials: staticCredentials(MOCK_DEMO_API_KEY),
+    retry: false
+  });
+  return { client, urls };
+};
+
+describe('createGiftLibClient path parameters', () => {
+  it('encodes gift and campaign IDs so they stay one path segment', async () => {
+    const { client, urls } = makeClient();
+
+    await expect(client.getGiftStatus('gift/1?x=1#top')).rejects.toMatchObject({ code: 'not_found' });
+    await expect(client.getGift('gift/1')).rejects.toMatchObject({ code: 'not_found' });
+    // The backend sees the whole ID, not a path cut short at / or #
+    await expect(client.getCampaignGifts('spring/2025 #1')).rejects.toThrow('Campaign spring/2025 #1 not found');
+
+    expect(urls).toEqual([
+      '/api/gift-status/gift%2F1%3Fx%3D1%23top',
+      '/api/gifts/gift%2F1',
+      '/api/campaign-gifts/spring%2F2025%20%231'
+    ]);
+  });
+});
+
+describe('createGiftLibClient gift queries', () => {
+  const gift = (id: string, status: string) => ({
+    gift_id: id,
+    recipient_name: `Recipient ${id}`,
+    recipient_email: `${id}@example.test`,
+    gift_type: 'flowers',
+    status,
+    created_at: `2025-01-0${id.slice(-1)}T00:00:00Z`
+  });
+  const gifts = [gift('gift-1', 'pending'), gift('gift-2', 'verified'), gift('gift-3', 'pending')];
+
+  // Backend that can be switched between the paginated and the legacy list
+  const makeBackend = () => {
+    const backend = { legacy: false, params: [] as AxiosRequestConfig['params'][] };
+    const adapter: AxiosAdapter = async config => {
+      backend.params.push(config.params);
+      const data = backend.legacy
+        ? { success: true, gifts }
+        : { gifts: gifts.slice(0, 1), total_count: gifts.length, next_cursor: 'c2' };
+      return { data, status: 200, statusText: 'OK', headers: {}, config };
+    };
+    const client = createGiftLibClient({ baseUrl: MOCK_BASE_URL, adapter, retry: false });
+    return { backend, client };
+  };
+
+  it('never sends the legacy limit to a paginated backend', async () => {
+    const { backend, client } = makeBackend();
+
+    const page = await client.queryGifts({ status: 'pending', pageSize: 1 });
+
+    expect(page).toMatchObject({ totalCount: 3, nextCursor: 'c2', serverPaginated: true });
+    expect(backend.params).toEqual([{ page_size: 1, sort_by: 'created_at', sort_dir: 'desc', status: 'pending' }]);
+  });
+
+  it('falls back to the limit-only request for a legacy backend and remembers it', async () => {
+    const { backend, client } = makeBackend();
+    backend.legacy = true;
+
+    const first = await client.queryGifts({ status: 'pending', pageSize: 1 });
+    await client.queryGifts({ pageSize: 10 });
+
+    expect(first).toMatchObject({ totalCount: 2, nextCursor: '1', serverPaginated: false });
+    expect(first.gifts.map(found => found.gift_id)).toEqual(['gift-3']);
+    expect(backend.params).toEqual([
+      { page_size: 1, sort_by: 'created_at', sort_dir: 'desc', status: 'pending' },
+      { limit: LEGACY_GIFT_LIMIT },
+      { limit: LEGACY_GIFT_LIMIT }
+    ]);
+  });
+
+  it('goes back to paginated queries when the backend starts paginating', async () => {
+    const { backend, client } = makeBackend();
+    backend.legacy = true;
+    await client.queryGifts({ pageSize: 1 });
+    backend.legacy = false;
+    backend.params = [];
+
+    const page = await client.queryGifts({ pageSize: 1 });
+    await client.queryGifts({ pageSize: 1 });
+
+    expect(page.serverPaginated).toBe(true);
+    expect(backend.params).toEqual([
+      { limit: LEGACY_GIFT_LIMIT },
+      { page_size: 1, sort_by: 'created_at', sort_dir: 'desc' },
+      { page_size: 1, sort_by: 'created_at', sort_dir: 'desc' }
+    ]);
+  });
+});
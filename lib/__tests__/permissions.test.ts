@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PROXY_ENVIRONMENT_HEADER } from '@/lib/environments';
+import { hasPermission, requiredPermission, resolveRole } from '@/lib/permissions';
+import { ServerSession, sealSession, sessionCookieName } from '@/lib/server/session';
+import { PUT } from '@/app/api/[...path]/route';
+
+describe('requiredPermission', () => {
+  it('maps mutating endpoints to their permission and leaves reads open', () => {
+    expect(requiredPermission('post', '/api/initiate-gift')).toBe('gifts:send');
+    expect(requiredPermission('PUT', '/api/gift-status/')).toBe('gifts:update_status');
+    expect(requiredPermission('get', '/api/gifts?limit=5')).toBeNull();
+    expect(requiredPermission('put', '/api/user/profile')).toBeNull();
+    expect(requiredPermission('delete', '/api/api-keys/key_1')).toBe('account:manage');
+  });
+
+  it('requires the force permission for forced status changes, from objects or JSON', () => {
+    expect(requiredPermission('put', '/api/gift-status', { giftId: 'g1', status: 'pending', force: true })).toBe('gifts:force_status');
+    expect(requiredPermission('put', '/api/gift-status', '{"giftId":"g1","status":"pending","force":true}')).toBe('gifts:force_status');
+    expect(requiredPermission('put', '/api/gift-status', { giftId: 'g1', status: 'pending', force: 'true' })).toBe('gifts:update_status');
+    expect(requiredPermission('put', '/api/gift-status', 'not json')).toBe('gifts:update_status');
+  });
+
+  it('only lets admins force a status change', () => {
+    expect(hasPermission('admin', 'gifts:force_status')).toBe(true);
+    expect(hasPermission('operator', 'gifts:force_status')).toBe(false);
+    expect(hasPermission('viewer', 'gifts:update_status')).toBe(false);
+    expect(resolveRole({ role: undefined })).toBe('admin');
+    expect(resolveRole({ role: 'owner' })).toBe('viewer');
+  });
+});
+
+describe('/api proxy', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const operatorSession = (): ServerSession => ({
+    baseUrl: 'https://giftlib-backend.onrender.com',
+    environment: 'production',
+    accounts: [{
+      apiKey: 'gl_operator_key',
+      userInfo: { user_id: 'op', email: 'op@example.test', full_name: 'Op', role: 'operator' },
+      addedAt: 0
+    } as ServerSession['accounts'][number]],
+    activeAccountId: 'op',
+    issuedAt: Date.now(),
+    expiresAt: Date.now() + 60_000
+  });
+
+  const statusRequest = (body: unknown) => new NextRequest('http://localhost/api/gift-status', {
+    method: 'PUT',
+    body: JSON.stringify(body),
+    headers: {
+      'content-type': 'text/plain',
+      [PROXY_ENVIRONMENT_HEADER]: 'production',
+      cookie: `${sessionCookieName('production')}=${sealSession(operatorSession())}`
+    }
+  });
+
+  it('refuses a forced status change from an operator before it reaches the backend', async () => {
+    process.env.GIFTLIB_SESSION_SECRET = 'test-secret';
+    const upstream = vi.fn();
+    vi.stubGlobal('fetch', upstream);
+
+    const response = await PUT(statusRequest({ giftId: 'g1', status: 'pending', force: true }), { params: { path: ['gift-status'] } });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: 'forbidden_role' });
+    expect(upstream).not.toHaveBeenCalled();
+  });
+
+  it('forwards an ordinary status change from an operator', async () => {
+    process.env.GIFTLIB_SESSION_SECRET = 'test-secret';
+    const upstream = vi.fn(async () => new Response('{"success":true}', { status: 200 }));
+    vi.stubGlobal('fetch', upstream);
+
+    const response = await PUT(statusRequest({ giftId: 'g1', status: 'verified' }), { params: { path: ['gift-status'] } });
+
+    expect(response.status).toBe(200);
+    expect(upstream).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { queryCache } from '@/lib/queryCache';
+
+// A fetcher whose calls are resolved by hand, in any order
+const deferredFetcher = <T>() => {
+  const calls: Array<(value: T) => void> = [];
+  const fetcher = vi.fn(() => new Promise<T>(resolve => calls.push(resolve)));
+  return { fetcher, resolve: (index: number, value: T) => calls[index](value) };
+};
+
+describe('queryCache', () => {
+  const unsubscribers: Array<() => void> = [];
+
+  beforeEach(() => {
+    queryCache.setScope('');
+    queryCache.clear();
+  });
+
+  afterEach(() => {
+    unsubscribers.splice(0).forEach(unsubscribe => unsubscribe());
+  });
+
+  it('shares one request between concurrent fetches of a key', async () => {
+    const { fetcher, resolve } = deferredFetcher<string>();
+    const first = queryCache.fetch(['gifts', 'all'], fetcher);
+    const second = queryCache.fetch(['gifts', 'all'], fetcher);
+    resolve(0, 'gifts');
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['gifts', 'gifts']);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(queryCache.getState(['gifts', 'all'])?.data).toBe('gifts');
+  });
+
+  it('returns fresh data from ensure without fetching', async () => {
+    queryCache.setData(['config'], 'cached');
+    const fetcher = vi.fn(async () => 'fetched');
+
+    await expect(queryCache.ensure(['config'], fetcher)).resolves.toBe('cached');
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it('marks every key under a prefix stale on invalidate', () => {
+    queryCache.setData(['gifts', 'all'], []);
+    queryCache.setData(['gifts', 'status', 'g1'], 'pending');
+    queryCache.setData(['config'], {});
+
+    queryCache.invalidate(['gifts']);
+
+    expect(queryCache.isStale(['gifts', 'all'])).toBe(true);
+    expect(queryCache.isStale(['gifts', 'status', 'g1'])).toBe(true);
+    expect(queryCache.isStale(['config'])).toBe(false);
+  });
+
+  it('discards a fetch that was in flight when its key was invalidated', async () => {
+    const key = ['gifts', 'all'];
+    const { fetcher, resolve } = deferredFetcher<string>();
+    unsubscribers.push(queryCache.subscribe(key, () => undefined));
+
+    const beforeMutation = queryCache.fetch(key, fetcher);
+    queryCache.invalidate(['gifts']);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    // The refetch answers first, then the request from before the mutation
+    resolve(1, 'after mutation');
+    resolve(0, 'before mutation');
+
+    await expect(beforeMutation).resolves.toBe('after mutation');
+    expect(queryCache.getState(key)?.data).toBe('after mutation');
+    expect(queryCache.isStale(key)).toBe(false);
+  });
+
+  it('hands callers of a discarded fetch the refetch that replaced it', async () => {
+    const key = ['gifts', 'all'];
+    const { fetcher, resolve } = deferredFetcher<string>();
+    unsubscribers.push(queryCache.subscribe(key, () => undefined));
+
+    const beforeMutation = queryCache.fetch(key, fetcher);
+    queryCache.invalidate(['gifts']);
+
+    // The request from before the mutation answers first this time
+    resolve(0, 'before mutation');
+    await Promise.resolve();
+    expect(queryCache.getState(key)?.data).toBeUndefined();
+
+    resolve(1, 'after mutation');
+    await expect(beforeMutation).resolves.toBe('after mutation');
+    expect(queryCache.getState(key)?.data).toBe('after mutation');
+  });
+
+  it('refetches an invalidated key that nobody is watching on its next fetch', async () => {
+    const key = ['gifts', 'all'];
+    const { fetcher, resolve } = deferredFetcher<string>();
+
+    const beforeMutation = queryCache.fetch(key, fetcher);
+    queryCache.invalidate(['gifts']);
+    resolve(0, 'before mutation');
+    await beforeMutation;
+
+    expect(queryCache.getState(key)?.data).toBeUndefined();
+    expect(queryCache.isStale(key)).toBe(true);
+
+    const next = queryCache.ensure(key, fetcher);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    resolve(1, 'after mutation');
+    await expect(next).resolves.toBe('after mutation');
+  });
+
+  it('patches cached data under a prefix with updateMatching', () => {
+    queryCache.setData(['gifts', 'page', 1], { gifts: [1, 2] });
+    queryCache.setData(['gifts', 'page', 2], { gifts: [3] });
+
+    queryCache.updateMatching<{ gifts: number[] }>(['gifts'], data => ({ gifts: data.gifts.map(n => n * 10) }));
+
+    expect(queryCache.getState(['gifts', 'page', 1])?.data).toEqual({ gifts: [10, 20] });
+    expect(queryCache.getState(['gifts', 'page', 2])?.data).toEqual({ gifts: [30] });
+  });
+
+  it('keeps each scope\'s data separate and writes late results into their own scope', async () => {
+    const key = ['user', 'profile'];
+    const { fetcher, resolve } = deferredFetcher<string>();
+
+    queryCache.setScope('account-a');
+    const request = queryCache.fetch(key, fetcher);
+    queryCache.setScope('account-b');
+    resolve(0, 'profile a');
+    await request;
+
+    expect(queryCache.getState(key)).toBeUndefined();
+    queryCache.setScope('account-a');
+    expect(queryCache.getState(key)?.data).toBe('profile a');
+  });
+});
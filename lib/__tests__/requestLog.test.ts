@@ -0,0 +1,112 @@
+import axios, { AxiosAdapter } from 'axios';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  attachRequestLog,
+  clearRequestLog,
+  containsSecrets,
+  getRequestLog,
+  redactSecrets,
+  replayRequest,
+  toCurlCommand
+} from '@/lib/requestLog';
+
+// Answers every request with a freshly issued key, like POST /api/keys
+const issuingAdapter: AxiosAdapter = async config => ({
+  data: { key_id: 'key_1', api_key: 'gl_live_issued', name: 'CI' },
+  status: 201,
+  statusText: 'Created',
+  headers: {},
+  config
+});
+
+const makeInstance = () => {
+  const instance = axios.create({ baseURL: 'https://api.example.test', adapter: issuingAdapter });
+  attachRequestLog(instance, 'api');
+  return instance;
+};
+
+describe('redactSecrets', () => {
+  it('replaces key, password and token fields at any depth', () => {
+    const body = {
+      resend_api_key: 're_secret',
+      from_email: 'gifts@example.test',
+      fulfillment: { api_key: 'ff_secret', base_url: 'https://ff.example.test' },
+      users: [{ email: 'a@example.test', password: 'hunter2', refresh_token: 'rt' }],
+      apiKey: 'gl_secret'
+    };
+
+    expect(redactSecrets(body)).toEqual({
+      resend_api_key: '[REDACTED]',
+      from_email: 'gifts@example.test',
+      fulfillment: { api_key: '[REDACTED]', base_url: 'https://ff.example.test' },
+      users: [{ email: 'a@example.test', password: '[REDACTED]', refresh_token: '[REDACTED]' }],
+      apiKey: '[REDACTED]'
+    });
+    expect(body.resend_api_key).toBe('re_secret');
+  });
+
+  it('leaves bodies without secrets alone', () => {
+    const body = { gift_id: 'g1', status: 'pending', key_id: 'key_1', api_key: '' };
+    expect(containsSecrets(body)).toBe(false);
+    expect(redactSecrets(body)).toEqual(body);
+    expect(redactSecrets('plain text')).toBe('plain text');
+  });
+});
+
+describe('request log', () => {
+  beforeEach(() => {
+    clearRequestLog();
+  });
+
+  it('redacts secrets in recorded request and response bodies and the replay copy', async () => {
+    await makeInstance().post('/api/email-config', { resend_api_key: 're_secret', from_email: 'gifts@example.test' }, {
+      headers: { 'X-API-Key': 'gl_session_key' }
+    });
+
+    const [entry] = getRequestLog();
+    expect(entry.requestHeaders['X-API-Key']).toBe('[REDACTED]');
+    expect(entry.requestBody).toEqual({ resend_api_key: '[REDACTED]', from_email: 'gifts@example.test' });
+    expect(entry.responseBody).toEqual({ key_id: 'key_1', api_key: '[REDACTED]', name: 'CI' });
+    expect(entry.replayConfig.data).toEqual({ resend_api_key: '[REDACTED]', from_email: 'gifts@example.test' });
+    expect(entry.hasRedactedBody).toBe(true);
+    expect(JSON.stringify(entry)).not.toMatch(/re_secret|gl_session_key|gl_live_issued/);
+  });
+
+  it('builds a curl command without any secret', async () => {
+    await makeInstance().put('/api/fulfillment-config', { api_key: 'ff_secret', provider: 'acme' }, {
+      headers: { 'X-API-Key': 'gl_session_key' }
+    });
+
+    const curl = toCurlCommand(getRequestLog()[0]);
+    expect(curl).toContain('-H "X-API-Key: $GIFTLIB_API_KEY"');
+    expect(curl).toContain('"api_key":"[REDACTED]"');
+    expect(curl).not.toMatch(/ff_secret|gl_session_key/);
+  });
+
+  it('redacts secrets in JSON string and FormData bodies', async () => {
+    const instance = makeInstance();
+    await instance.post('/api/session', JSON.stringify({ apiKey: 'gl_secret' }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+    const form = new FormData();
+    form.append('campaign_id', 'spring');
+    form.append('api_key', 'gl_secret');
+    await instance.post('/api/upload', form);
+
+    const [upload, session] = getRequestLog();
+    expect(session.requestBody).toEqual({ apiKey: '[REDACTED]' });
+    expect(session.replayConfig.data).toBe(JSON.stringify({ apiKey: '[REDACTED]' }));
+    expect(upload.requestBody).toEqual({ campaign_id: 'spring', api_key: '[REDACTED]' });
+    expect((upload.replayConfig.data as FormData).get('api_key')).toBe('[REDACTED]');
+  });
+
+  it('refuses to replay a request whose secrets were redacted', async () => {
+    const instance = makeInstance();
+    await instance.post('/api/email-config', { resend_api_key: 're_secret' });
+    await instance.get('/api/gifts');
+
+    const [gifts, emailConfig] = getRequestLog();
+    await expect(replayRequest(emailConfig)).rejects.toThrow(/secrets/);
+    await expect(replayRequest(gifts)).resolves.toMatchObject({ status: 201 });
+  });
+});
@@ -0,0 +1,74 @@
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { IDEMPOTENCY_KEY_HEADER, RetryOptions, getRetryDelay, isColdStartError, shouldRetry } from '@/lib/retry';
+
+const OPTIONS: RetryOptions = { retries: 3, baseDelayMs: 1000, maxDelayMs: 20000, retryOnStatus: [429, 502, 503, 504] };
+
+const makeError = (
+  config: Partial<InternalAxiosRequestConfig>,
+  { status, headers = {}, code }: { status?: number; headers?: Record<string, string>; code?: string } = {}
+): AxiosError => {
+  const fullConfig = { headers: {}, ...config } as InternalAxiosRequestConfig;
+  const response = status === undefined
+    ? undefined
+    : { status, statusText: '', headers, config: fullConfig, data: null } as AxiosResponse;
+  return new AxiosError('failed', code, fullConfig, null, response);
+};
+
+describe('shouldRetry', () => {
+  it('retries safe methods on retryable statuses and network errors', () => {
+    expect(shouldRetry(makeError({ method: 'get' }, { status: 503 }), OPTIONS)).toBe(true);
+    expect(shouldRetry(makeError({ method: 'get' }, { status: 429 }), OPTIONS)).toBe(true);
+    expect(shouldRetry(makeError({ method: 'get' }), OPTIONS)).toBe(true);
+  });
+
+  it('does not retry client errors', () => {
+    expect(shouldRetry(makeError({ method: 'get' }, { status: 404 }), OPTIONS)).toBe(false);
+    expect(shouldRetry(makeError({ method: 'get' }, { status: 500 }), OPTIONS)).toBe(false);
+  });
+
+  it('does not retry cancelled requests', () => {
+    expect(shouldRetry(makeError({ method: 'get' }, { code: 'ERR_CANCELED' }), OPTIONS)).toBe(false);
+  });
+
+  it('only retries unsafe methods with an idempotency key or an explicit retry option', () => {
+    expect(shouldRetry(makeError({ method: 'post' }, { status: 503 }), OPTIONS)).toBe(false);
+    expect(shouldRetry(makeError({ method: 'post', headers: { [IDEMPOTENCY_KEY_HEADER]: 'key' } as any }, { status: 503 }), OPTIONS)).toBe(true);
+    expect(shouldRetry(makeError({ method: 'put', retry: true }, { status: 503 }), OPTIONS)).toBe(true);
+  });
+
+  it('honours retry: false and the retry limit', () => {
+    expect(shouldRetry(makeError({ method: 'get', retry: false }, { status: 503 }), OPTIONS)).toBe(false);
+    expect(shouldRetry(makeError({ method: 'get', retryAttempt: 3 }, { status: 503 }), OPTIONS)).toBe(false);
+    expect(shouldRetry(makeError({ method: 'get', retryAttempt: 1, retry: { retries: 1 } }, { status: 503 }), OPTIONS)).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('uses Retry-After seconds for 429 and 503, capped at the max delay', () => {
+    expect(getRetryDelay(makeError({}, { status: 429, headers: { 'retry-after': '2' } }), 0, OPTIONS)).toBe(2000);
+    expect(getRetryDelay(makeError({}, { status: 503, headers: { 'retry-after': '600' } }), 0, OPTIONS)).toBe(20000);
+  });
+
+  it('backs off exponentially with full jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(getRetryDelay(makeError({}, { status: 502 }), 0, OPTIONS)).toBe(1000);
+    expect(getRetryDelay(makeError({}, { status: 502 }), 2, OPTIONS)).toBe(4000);
+    expect(getRetryDelay(makeError({}, { status: 502 }), 10, OPTIONS)).toBe(20000);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getRetryDelay(makeError({}, { status: 502 }), 2, OPTIONS)).toBe(0);
+  });
+});
+
+describe('isColdStartError', () => {
+  it('treats gateway errors and unanswered requests as a cold start', () => {
+    expect(isColdStartError(makeError({}, { status: 502 }))).toBe(true);
+    expect(isColdStartError(makeError({}))).toBe(true);
+    expect(isColdStartError(makeError({}, { status: 429 }))).toBe(false);
+  });
+});
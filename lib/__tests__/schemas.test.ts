@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ApiError } from '@/lib/errors';
+import {
+  bulkGiftResponseSchema,
+  campaignGiftsSchema,
+  giftListSchema,
+  giftPageResponseSchema,
+  giftSchema,
+  parseResponse,
+  userSchema
+} from '@/lib/schemas';
+
+const flatGift = {
+  gift_id: 'gift-1',
+  recipient_name: 'Ada Lovelace',
+  recipient_email: 'ada@example.test',
+  gift_type: 'flowers',
+  status: 'pending',
+  campaign_id: 'SPRING',
+  verified: null,
+  created_at: '2025-01-01T00:00:00Z'
+};
+
+const nestedGift = {
+  gift_id: 'gift-2',
+  status: 'verified',
+  verified: true,
+  created_at: '2025-01-02T00:00:00Z',
+  recipient: { full_name: 'Grace Hopper', email: 'grace@example.test', phone: '555-0100' },
+  gift: { type: 'book' },
+  meta: { campaign_id: 'SPRING' }
+};
+
+const captureError = (run: () => unknown): ApiError => {
+  try {
+    run();
+  } catch (error) {
+    return error as ApiError;
+  }
+  throw new Error('Expected the parse to fail');
+};
+
+describe('gift schemas', () => {
+  it('normalizes the flat and the legacy nested gift shape to the same fields', () => {
+    const flat = giftSchema.parse(flatGift);
+    const nested = giftSchema.parse(nestedGift);
+
+    expect(flat).toMatchObject({
+      recipient_name: 'Ada Lovelace',
+      recipient_email: 'ada@example.test',
+      gift_type: 'flowers',
+      campaign_id: 'SPRING',
+      verified: false,
+      recipient: { full_name: 'Ada Lovelace', email: 'ada@example.test' }
+    });
+    expect(nested).toMatchObject({
+      recipient_name: 'Grace Hopper',
+      recipient_email: 'grace@example.test',
+      gift_type: 'book',
+      campaign_id: 'SPRING',
+      verified: true,
+      recipient: { phone: '555-0100' },
+      meta: { campaign_id: 'SPRING' }
+    });
+  });
+
+  it('requires a recipient email in one of the shapes', () => {
+    const result = giftSchema.safeParse({ ...flatGift, recipient_email: undefined });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error.issues[0].path).toEqual(['recipient_email']);
+  });
+
+  it('reads paginated lists and the legacy unpaginated { success, gifts } shape', () => {
+    expect(giftPageResponseSchema.parse({ gifts: [flatGift], total_count: 12, next_cursor: 'c2' })).toMatchObject({
+      totalCount: 12,
+      nextCursor: 'c2',
+      paginated: true
+    });
+    expect(giftPageResponseSchema.parse({ success: true, gifts: [flatGift, nestedGift] })).toMatchObject({
+      totalCount: 2,
+      nextCursor: null,
+      paginated: false
+    });
+  });
+
+  it('counts campaign gifts when the total is missing', () => {
+    expect(campaignGiftsSchema.parse({ success: true, gifts: [flatGift, nestedGift] }).totalGifts).toBe(2);
+    expect(campaignGiftsSchema.parse({ success: true, totalGifts: 5, gifts: [flatGift] }).totalGifts).toBe(5);
+  });
+
+  it('fails lists without a gifts field instead of reading them as empty', () => {
+    expect(giftListSchema.safeParse({ success: true }).success).toBe(false);
+    expect(giftPageResponseSchema.safeParse({ total_count: 0 }).success).toBe(false);
+    expect(campaignGiftsSchema.safeParse({ success: true, totalGifts: 3 }).success).toBe(false);
+  });
+});
+
+describe('bulk gift response schema', () => {
+  it('reads the current and the older count fields alike', () => {
+    const current = bulkGiftResponseSchema.parse({
+      success: true,
+      successfulGifts: 1,
+      failedGifts: 1,
+      results: [{ success: true, giftId: 'gift-1' }, { success: false, error: 'Bad email' }]
+    });
+    const legacy = bulkGiftResponseSchema.parse({
+      success: true,
+      successful_count: 1,
+      failed_count: 1,
+      gift_ids: ['gift-1'],
+      errors: ['Bad email']
+    });
+
+    [current, legacy].forEach(response => {
+      expect(response).toMatchObject({ totalGifts: 2, successfulGifts: 1, failedGifts: 1, giftIds: ['gift-1'], errors: ['Bad email'] });
+    });
+  });
+});
+
+describe('parseResponse', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns the normalized data', () => {
+    expect(parseResponse(giftListSchema, { gifts: [nestedGift] }, 'getAllGifts').gifts[0].recipient_name).toBe('Grace Hopper');
+  });
+
+  it('lists the offending fields without logging or keeping the payload', () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const payload = { user_id: 'user-1', email: 42, full_name: 'Ada', api_key: 'gl_live_secret' };
+
+    const error = captureError(() => parseResponse(userSchema, payload, 'getUserProfile'));
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.code).toBe('contract_mismatch');
+    expect(error.message).toBe('Backend contract mismatch in getUserProfile: email');
+    expect(error.fieldErrors.map(fieldError => fieldError.field)).toEqual(['email']);
+    expect(error.data).toBeUndefined();
+    expect(JSON.stringify(log.mock.calls)).not.toContain('gl_live_secret');
+  });
+});
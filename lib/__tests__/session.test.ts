@@ -0,0 +1,299 @@
+import { AxiosAdapter } from 'axios';
+import { NextRequest, NextResponse } from 'next/server';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { PROXY_ACCOUNT_HEADER, PROXY_ENVIRONMENT_HEADER } from '@/lib/environments';
+import {
+  ServerAccount,
+  ServerSession,
+  createSessionRequestSchema,
+  parseJsonBody,
+  readSession,
+  resolveAccount,
+  resolveUpstreamBaseUrl,
+  sealSession,
+  sessionCookieName,
+  toSessionInfo,
+  unsealSession,
+  withAccount,
+  writeSession
+} from '@/lib/server/session';
+import { GET, PATCH, POST } from '@/app/api/session/route';
+import { POST as LOCK } from '@/app/api/session/lock/route';
+import { PUT as PUT_PROFILE } from '@/app/api/session/profile/route';
+
+// Upstream that knows who each test key belongs to. Its profiles include
+// the key, and a profile update echoes the fields it was sent.
+vi.mock('@/lib/giftlibClient', async importOriginal => {
+  const actual = await importOriginal<typeof import('@/lib/giftlibClient')>();
+  const owners: Record<string, string> = {
+    gl_alice_secret_key: 'alice',
+    gl_alice_new_key: 'alice',
+    gl_mallory_key: 'mallory'
+  };
+  return {
+    ...actual,
+    createGiftLibClient: (options: Parameters<typeof actual.createGiftLibClient>[0]) => {
+      const adapter: AxiosAdapter = async config => {
+        const apiKey = String(await options.credentials?.());
+        const userId = owners[apiKey];
+        const update = config.method === 'put' ? JSON.parse(config.data) : {};
+        return {
+          data: { user_id: userId, email: `${userId}@example.test`, full_name: userId, api_key: apiKey, ...update },
+          status: 200,
+          statusText: 'OK',
+          headers: {},
+          config
+        };
+      };
+      return actual.createGiftLibClient({ ...options, adapter });
+    }
+  };
+});
+
+const account = (userId: string, apiKey: string): ServerAccount => ({
+  apiKey,
+  userInfo: { user_id: userId, email: `${userId}@example.test`, full_name: userId },
+  addedAt: 0
+} as ServerAccount);
+
+const makeSession = (patch: Partial<ServerSession> = {}): ServerSession => ({
+  baseUrl: 'https://giftlib-backend.onrender.com',
+  environment: 'production',
+  accounts: [account('alice', 'gl_alice_secret_key'), account('bob', 'gl_bob_secret_key')],
+  activeAccountId: 'alice',
+  issuedAt: Date.now(),
+  expiresAt: Date.now() + 60_000,
+  ...patch
+});
+
+const requestWith = ({ cookie, headers = {}, method = 'GET', body }: {
+  cookie?: string;
+  headers?: Record<string, string>;
+  method?: string;
+  body?: string;
+} = {}) => new NextRequest('http://localhost/api/session', {
+  method,
+  body,
+  headers: cookie ? { ...headers, cookie: `${sessionCookieName('production')}=${cookie}` } : headers
+});
+
+describe('session cookies', () => {
+  beforeAll(() => {
+    process.env.GIFTLIB_SESSION_SECRET = 'test-secret';
+  });
+
+  afterEach(() => {
+    process.env.GIFTLIB_SESSION_SECRET = 'test-secret';
+  });
+
+  it('seals a session so it round-trips but does not expose the keys', () => {
+    const session = makeSession();
+    const sealed = sealSession(session);
+
+    expect(sealed).not.toContain('gl_alice_secret_key');
+    expect(unsealSession(sealed)).toEqual(session);
+  });
+
+  it('rejects tampered cookies and cookies sealed under another secret', () => {
+    const sealed = sealSession(makeSession());
+    const [iv, encrypted, tag] = sealed.split('.');
+    const flipped = encrypted.slice(0, -2) + (encrypted.slice(-2) === 'AA' ? 'AB' : 'AA');
+
+    expect(unsealSession([iv, flipped, tag].join('.'))).toBeNull();
+    expect(unsealSession('not-a-session')).toBeNull();
+
+    process.env.GIFTLIB_SESSION_SECRET = 'another-secret';
+    expect(unsealSession(sealed)).toBeNull();
+  });
+
+  it('reports missing, invalid, expired and active sessions', () => {
+    expect(readSession(requestWith(), 'production')).toEqual({ status: 'missing' });
+    expect(readSession(requestWith({ cookie: 'garbage' }), 'production')).toEqual({ status: 'invalid' });
+    expect(readSession(requestWith({ cookie: sealSession(makeSession({ environment: 'staging' })) }), 'production'))
+      .toEqual({ status: 'invalid' });
+    expect(readSession(requestWith({ cookie: sealSession(makeSession({ expiresAt: Date.now() - 1 })) }), 'production'))
+      .toEqual({ status: 'expired' });
+
+    const session = makeSession();
+    expect(readSession(requestWith({ cookie: sealSession(session) }), 'production')).toEqual({ status: 'active', session });
+  });
+
+  it('writes an httpOnly cookie scoped to /api', () => {
+    const response = NextResponse.json({});
+    writeSession(response, makeSession());
+    const cookie = response.cookies.get(sessionCookieName('production'));
+
+    expect(cookie).toMatchObject({ httpOnly: true, sameSite: 'strict', path: '/api' });
+    expect(unsealSession(cookie!.value)?.activeAccountId).toBe('alice');
+  });
+});
+
+describe('session accounts', () => {
+  it('acts as the account in the header, or the active one', () => {
+    const session = makeSession();
+
+    expect(resolveAccount(requestWith(), session)?.userInfo.user_id).toBe('alice');
+    expect(resolveAccount(requestWith({ headers: { [PROXY_ACCOUNT_HEADER]: 'bob' } }), session)?.userInfo.user_id).toBe('bob');
+    expect(resolveAccount(requestWith({ headers: { [PROXY_ACCOUNT_HEADER]: 'mallory' } }), session)).toBeNull();
+  });
+
+  it('replaces a re-added account and makes it active', () => {
+    const updated = withAccount(makeSession(), account('bob', 'gl_bob_rotated_key'));
+
+    expect(updated.activeAccountId).toBe('bob');
+    expect(updated.accounts.map(saved => [saved.userInfo.user_id, saved.apiKey])).toEqual([
+      ['alice', 'gl_alice_secret_key'],
+      ['bob', 'gl_bob_rotated_key']
+    ]);
+  });
+
+  it('only tells the browser masked keys', () => {
+    const info = toSessionInfo(makeSession());
+
+    expect(JSON.stringify(info)).not.toMatch(/secret_key/);
+    expect(info.accounts.map(saved => saved.accountId)).toEqual(['alice', 'bob']);
+    expect(info.activeAccountId).toBe('alice');
+  });
+});
+
+describe('resolveUpstreamBaseUrl', () => {
+  afterEach(() => {
+    delete process.env.GIFTLIB_PROXY_ALLOWED_ORIGINS;
+  });
+
+  it('uses the profile URL unless another allowed origin is requested', () => {
+    process.env.GIFTLIB_PROXY_ALLOWED_ORIGINS = 'https://eu.giftlib.example/';
+
+    expect(resolveUpstreamBaseUrl('production')).toBe('https://giftlib-backend.onrender.com');
+    expect(resolveUpstreamBaseUrl('production', 'https://eu.giftlib.example')).toBe('https://eu.giftlib.example');
+    expect(resolveUpstreamBaseUrl('production', 'https://attacker.example')).toBeNull();
+  });
+
+  it('never proxies the mock environment', () => {
+    expect(resolveUpstreamBaseUrl('mock')).toBeNull();
+  });
+});
+
+describe('session request bodies', () => {
+  it('rejects bodies that are not JSON or do not match the schema', async () => {
+    const notJson = await parseJsonBody(requestWith({ method: 'POST', body: 'apiKey=x' }), createSessionRequestSchema);
+    expect(notJson.response?.status).toBe(400);
+
+    const missingKey = await parseJsonBody(requestWith({ method: 'POST', body: '{"apiKey":"  "}' }), createSessionRequestSchema);
+    expect(await missingKey.response?.json()).toEqual({ detail: 'API key is required', code: 'validation_error' });
+
+    const wrongType = await parseJsonBody(
+      requestWith({ method: 'POST', body: '{"apiKey":"gl_key","addAccount":"yes"}' }),
+      createSessionRequestSchema
+    );
+    expect((await wrongType.response?.json()).detail).toMatch(/^addAccount: /);
+
+    const valid = await parseJsonBody(requestWith({ method: 'POST', body: '{"apiKey":" gl_key "}' }), createSessionRequestSchema);
+    expect(valid.body).toEqual({ apiKey: 'gl_key' });
+  });
+
+  it('answers 400 from the routes before touching the backend or the session', async () => {
+    const post = await POST(requestWith({ method: 'POST', body: '{"apiKey":42,"environment":"production"}' }));
+    expect(post.status).toBe(400);
+
+    const patch = await PATCH(requestWith({
+      method: 'PATCH',
+      body: '{}',
+      headers: { [PROXY_ENVIRONMENT_HEADER]: 'production' },
+      cookie: sealSession(makeSession())
+    }));
+    expect(patch.status).toBe(400);
+    expect(await patch.json()).toMatchObject({ detail: 'activeAccountId is required' });
+
+    const profile = await PUT_PROFILE(requestWith({
+      method: 'PUT',
+      body: '{"full_name":" ","company_name":"Acme"}',
+      headers: { [PROXY_ENVIRONMENT_HEADER]: 'production' },
+      cookie: sealSession(makeSession())
+    }));
+    expect(profile.status).toBe(400);
+    expect(await profile.json()).toMatchObject({ detail: 'Full name is required' });
+  });
+});
+
+describe('session profile', () => {
+  beforeAll(() => {
+    process.env.GIFTLIB_SESSION_SECRET = 'test-secret';
+  });
+
+  it('sends only profile fields upstream and returns the user details without the key', async () => {
+    const response = await PUT_PROFILE(requestWith({
+      method: 'PUT',
+      headers: { [PROXY_ENVIRONMENT_HEADER]: 'production' },
+      cookie: sealSession(makeSession()),
+      body: JSON.stringify({ full_name: ' Alice Liddell ', company_name: 'Wonderland', role: 'owner' })
+    }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.profile).toEqual({
+      user_id: 'alice',
+      email: 'alice@example.test',
+      full_name: 'Alice Liddell',
+      company_name: 'Wonderland'
+    });
+    expect(JSON.stringify(body)).not.toContain('gl_alice_secret_key');
+    expect(body.session.accounts[0].userInfo).toEqual(body.profile);
+    expect(unsealSession(response.cookies.get(sessionCookieName('production'))!.value)?.accounts[0].userInfo.full_name)
+      .toBe('Alice Liddell');
+  });
+});
+
+describe('session lock', () => {
+  const headers = { [PROXY_ENVIRONMENT_HEADER]: 'production' };
+  const cookieOf = (response: NextResponse) => response.cookies.get(sessionCookieName('production'))?.value;
+  const unlockWith = (apiKey: string, cookie: string) => POST(requestWith({
+    method: 'POST',
+    headers,
+    cookie,
+    body: JSON.stringify({ apiKey, environment: 'production', unlock: true })
+  }));
+
+  beforeAll(() => {
+    process.env.GIFTLIB_SESSION_SECRET = 'test-secret';
+  });
+
+  it('keeps every saved account through a lock and an unlock', async () => {
+    const locked = await LOCK(requestWith({ method: 'POST', headers, cookie: sealSession(makeSession()) }));
+    expect(locked.status).toBe(200);
+    const lockedCookie = cookieOf(locked)!;
+    expect(unsealSession(lockedCookie)?.accounts).toHaveLength(2);
+    expect(readSession(requestWith({ cookie: lockedCookie }), 'production').status).toBe('locked');
+
+    // Refused while locked, but the cookie is kept
+    const patch = await PATCH(requestWith({ method: 'PATCH', headers, cookie: lockedCookie, body: '{"activeAccountId":"bob"}' }));
+    expect(patch.status).toBe(401);
+    expect(await patch.json()).toMatchObject({ code: 'session_locked' });
+    expect(cookieOf(patch)).toBeUndefined();
+
+    const addAccount = await POST(requestWith({
+      method: 'POST',
+      headers,
+      cookie: lockedCookie,
+      body: JSON.stringify({ apiKey: 'gl_alice_new_key', environment: 'production', addAccount: true })
+    }));
+    expect(addAccount.status).toBe(401);
+
+    const info = await GET(requestWith({ headers, cookie: lockedCookie }));
+    expect(await info.json()).toMatchObject({ locked: true, activeAccountId: 'alice' });
+
+    const stranger = await unlockWith('gl_mallory_key', lockedCookie);
+    expect(stranger.status).toBe(403);
+    expect(cookieOf(stranger)).toBeUndefined();
+
+    const unlocked = await unlockWith('gl_alice_new_key', lockedCookie);
+    expect(unlocked.status).toBe(200);
+    expect(await unlocked.json()).toMatchObject({ locked: false, activeAccountId: 'alice' });
+    const session = unsealSession(cookieOf(unlocked)!);
+    expect(session?.lockedAt).toBeUndefined();
+    expect(session?.accounts.map(saved => [saved.userInfo.user_id, saved.apiKey])).toEqual([
+      ['bob', 'gl_bob_secret_key'],
+      ['alice', 'gl_alice_new_key']
+    ]);
+  });
+});
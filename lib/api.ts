@@ -1,324 +1,657 @@
-import axios, { AxiosResponse, AxiosError } from 'axios';
+import axios, { AxiosAdapter } from 'axios';
 import toast from 'react-hot-toast';
 import {
-  User,
+  BulkGiftAction,
+  BulkGiftResult,
   Gift,
   GiftDataRequest,
+  GiftDetail,
+  GiftStatus,
+  MutationOptions,
   BulkGiftData,
-  GiftResponse,
-  BulkGiftResponse,
-  CampaignResponse,
   StatusUpdate,
   EmailConfig,
-  EmailConfigResponse,
-  CreateUserForm
+  FulfillmentConfig,
+  SessionInfo,
+  CreateApiKeyRequest,
+  RotatedApiKey,
+  TeamInvitationRequest,
+  UpdatedProfile,
+  UpdateUserProfileRequest
 } from '@/types';
+import { ApiError, toApiError } from '@/lib/errors';
+import { createGiftLibClient, staticCredentials } from '@/lib/giftlibClient';
+import {
+  PROXY_ACCOUNT_HEADER,
+  PROXY_ENVIRONMENT_HEADER,
+  getActiveEnvironment,
+  getEnvironmentStorageKey
+} from '@/lib/environments';
+import { markServerAwake, markServerWaking } from '@/lib/serverStatus';
+import { reportSessionEnded } from '@/lib/sessionEvents';
+import { queryCache, queryKeys } from '@/lib/queryCache';
+import { attachRequestLog } from '@/lib/requestLog';
+import { parseResponse, rotatedApiKeySchema, sessionInfoSchema, updatedProfileSchema } from '@/lib/schemas';
+import { ROLE_LABELS, Role, hasPermission, requiredPermission, resolveRole } from '@/lib/permissions';
+import { maskApiKey, storage, toUserInfo } from '@/lib/utils';
+
+// Only used by the offline mock backend; HTTP environments keep the key in
+// the server's encrypted session cookie
+const API_KEY_STORAGE_KEY = 'giftlib_api_key';
+const MOCK_SESSION_STORAGE_KEY = 'giftlib_session';
+
+// Generous timeout: starting a session may wait for a cold backend
+const SESSION_TIMEOUT_MS = 90000;
+
+// Transport that replaces HTTP for every request when set, e.g. a mock
+// backend created with createMockBackend() in component tests
+let transportOverride: AxiosAdapter | null = null;
+
+export function setApiTransport(adapter: AxiosAdapter | null) {
+  transportOverride = adapter;
+}
+
+// The mock backend is imported on first use, so its fixtures and fault
+// injection are only downloaded when the mock environment is picked
+const mockAdapter: AxiosAdapter = async config => {
+  const { getMockBackend } = await import('@/lib/mockBackend');
+  return getMockBackend().adapter(config);
+};
 
-// API Base URL
-const API_BASE_URL = 'https://giftlib-backend.onrender.com';
+// HTTP environments go through the Next.js /api proxy, which adds the API
+// key from the session cookie
+const usesSessionProxy = () => !transportOverride && getActiveEnvironment().transport === 'http';
+
+// Account proxied requests act as. Sent with each request so one that
+// started before an account switch still completes as the account it began as.
+let actingAccountId: string | null = null;
+let actingRole: Role = 'admin';
+// A locked session sends nothing until it is unlocked, for the mock backend
+// too (the proxy refuses locked sessions on its own)
+let isSessionLocked = false;
+
+const actAs = (session: SessionInfo): SessionInfo => {
+  isSessionLocked = Boolean(session.locked);
+  actingAccountId = session.activeAccountId;
+  actingRole = resolveRole(session.accounts.find(account => account.accountId === session.activeAccountId)?.userInfo);
+  return session;
+};
 
-// Create axios instance
-const api = axios.create({
-  baseURL: API_BASE_URL,
-  timeout: 30000, // 30 seconds
+const proxyHeaders = () => ({
+  [PROXY_ENVIRONMENT_HEADER]: getActiveEnvironment().id,
+  ...(actingAccountId ? { [PROXY_ACCOUNT_HEADER]: actingAccountId } : {})
 });
 
-// Request interceptor to add API key
-api.interceptors.request.use(
-  (config) => {
-    const apiKey = localStorage.getItem('giftlib_api_key');
-    if (apiKey && config.headers) {
-      config.headers['X-API-Key'] = apiKey;
-    }
-    return config;
-  },
-  (error) => {
-    return Promise.reject(error);
-  }
-);
+// The mock backend's session lives in localStorage, keys included (its
+// keys only unlock the in-browser demo data)
+interface LocalSession extends SessionInfo {
+  apiKeys: Record<string, string>;
+}
+
+const readLocalSession = (): LocalSession | null => storage.get(getEnvironmentStorageKey(MOCK_SESSION_STORAGE_KEY));
 
-// Response interceptor for error handling
-api.interceptors.response.use(
-  (response) => response,
-  (error: AxiosError) => {
-    if (error.code === 'ECONNABORTED') {
+// Helper function to persist the mock session and point the stored key at
+// the active account
+const saveLocalSession = ({ apiKeys, ...session }: LocalSession): SessionInfo => {
+  storage.set(getEnvironmentStorageKey(MOCK_SESSION_STORAGE_KEY), { ...session, apiKeys });
+  localStorage.setItem(getEnvironmentStorageKey(API_KEY_STORAGE_KEY), apiKeys[session.activeAccountId]);
+  return actAs(session);
+};
+
+const sessionHttp = axios.create({ baseURL: '/api/session', timeout: SESSION_TIMEOUT_MS });
+
+// Authenticated failures are toasted here; callers of public endpoints
+// (health check, sign-up) report their own errors. A 401 ends the session
+// instead, and the re-authentication dialog explains why.
+const notifyError = (error: ApiError) => {
+  switch (error.code) {
+    case 'timeout':
       toast.error('⏰ Request timed out. The server may be overloaded or unresponsive.');
-    } else if (error.code === 'ERR_NETWORK') {
+      break;
+    case 'network_error':
       toast.error('🔌 Connection failed. Please check if the backend server is running.');
-    } else if (error.response?.status === 401) {
-      toast.error('🔐 Unauthorized. Please check your API key.');
-    } else if (error.response?.status === 403) {
+      break;
+    case 'forbidden':
       toast.error('🚫 Forbidden. You don\'t have permission to access this resource.');
-    } else if ((error.response?.status ?? 0) >= 500) {
+      break;
+    case 'rate_limited':
+      toast.error('🐢 Too many requests. Please slow down and try again.');
+      break;
+    case 'server_error':
       toast.error('🔥 Server error. Please try again later.');
+      break;
+  }
+};
+
+// The dashboard's SDK client: authenticated calls go through the session
+// proxy (or the mock backend with its local key); public calls go straight
+// to the active environment. Adds the request log, cold-start banner and
+// error toasts.
+const client = createGiftLibClient({
+  baseUrl: () => usesSessionProxy() ? window.location.origin : getActiveEnvironment().baseUrl,
+  publicBaseUrl: () => getActiveEnvironment().baseUrl,
+  credentials: () => usesSessionProxy() ? null : localStorage.getItem(getEnvironmentStorageKey(API_KEY_STORAGE_KEY)),
+  resolveAdapter: () => {
+    if (transportOverride) return transportOverride;
+    return getActiveEnvironment().transport === 'mock' ? mockAdapter : undefined;
+  },
+  hooks: {
+    setupInstance: (instance, kind) => {
+      attachRequestLog(instance, kind === 'authenticated' ? 'api' : 'publicApi');
+      if (kind === 'authenticated') {
+        instance.interceptors.request.use(config => {
+          if (isSessionLocked) {
+            throw new ApiError('Session locked. Sign in again to continue.', {
+              status: 401,
+              backendCode: 'session_locked'
+            });
+          }
+          // Refuse requests the acting account's role doesn't allow
+          const permission = requiredPermission(config.method, config.url ?? '', config.data);
+          if (permission && !hasPermission(actingRole, permission)) {
+            throw new ApiError(`The ${ROLE_LABELS[actingRole]} role is not allowed to do this`, { code: 'forbidden' });
+          }
+          if (usesSessionProxy()) {
+            config.headers.set(proxyHeaders());
+          }
+          return config;
+        });
+      }
+    },
+    onRetry: ({ coldStart }) => {
+      if (coldStart) {
+        markServerWaking();
+      }
+    },
+    onSettled: markServerAwake,
+    onError: (error, { authenticated }) => {
+      if (authenticated) {
+        notifyError(error);
+        if (error.code === 'unauthorized') {
+          reportSessionEnded(error);
+        }
+      }
     }
-    return Promise.reject(error);
   }
-);
+});
 
-// Helper function to handle API responses
-const handleResponse = <T>(response: AxiosResponse<T>): T => {
-  return response.data;
-};
+// What the cache holds under the gift keys: lists, single gifts (details)
+// and bare statuses
+type CachedGiftData = { gifts: Gift[] } | GiftDetail | { status: GiftStatus };
 
-// Helper function to handle API errors
-const handleError = (error: any): never => {
-  if (error.response?.data?.detail) {
-    throw new Error(error.response.data.detail);
-  } else if (error.response?.data?.message) {
-    throw new Error(error.response.data.message);
-  } else if (error.message) {
-    throw new Error(error.message);
-  } else {
-    throw new Error('An unexpected error occurred');
+// Patch a gift in every cached list and detail so other sections see the
+// change immediately, then refetch them in the background
+const patchCachedGift = (giftId: string, patch: Partial<Gift>, { refetch = true } = {}) => {
+  queryCache.updateMatching<CachedGiftData>(queryKeys.gifts, data => {
+    if ('gifts' in data) {
+      return { ...data, gifts: data.gifts.map(gift => gift.gift_id === giftId ? { ...gift, ...patch } : gift) };
+    }
+    return 'gift_id' in data && data.gift_id === giftId ? { ...data, ...patch } : data;
+  });
+  if (refetch) {
+    queryCache.invalidate(queryKeys.gifts);
   }
 };
 
-// Helper function to transform GiftResponse to Gift
-const transformGiftResponse = (giftResponse: GiftResponse): Gift => {
+// Requests a bulk action keeps in flight at once
+const BULK_ACTION_CONCURRENCY = 4;
+
+// How long a status change can be undone before it is sent
+export const STATUS_UNDO_WINDOW_MS = 6000;
+
+// A mutation held back until its undo window ends
+export interface DeferredMutation<T> {
+  // Settles with the mutation's result, or null if it was undone
+  result: Promise<T | null>;
+  // Drop the mutation. Returns false when it has already been sent.
+  undo: () => boolean;
+}
+
+// Sends still waiting out their undo window
+const pendingSends = new Set<() => Promise<unknown>>();
+
+// Send every deferred mutation now. Run before the acting account changes,
+// so nothing waiting is later sent as a different account.
+const flushDeferredMutations = () => Promise.allSettled(Array.from(pendingSends, send => send()));
+
+if (typeof window !== 'undefined') {
+  // Leaving the page drops waiting changes. The browser doesn't wait for
+  // requests started while unloading, so nothing is sent here; staying on
+  // the page lets them go out when their undo window ends.
+  window.addEventListener('beforeunload', event => {
+    if (pendingSends.size === 0) return;
+    event.preventDefault();
+    event.returnValue = '';
+  });
+}
+
+const deferMutation = <T>(mutate: () => Promise<T>, delayMs = STATUS_UNDO_WINDOW_MS): DeferredMutation<T> => {
+  let state: 'waiting' | 'sent' | 'undone' = 'waiting';
+  let settle!: (value: T | null) => void;
+  let fail!: (reason: unknown) => void;
+  const result = new Promise<T | null>((resolve, reject) => {
+    settle = resolve;
+    fail = reject;
+  });
+
+  const send = () => {
+    if (state === 'waiting') {
+      state = 'sent';
+      clearTimeout(timer);
+      pendingSends.delete(send);
+      mutate().then(settle, fail);
+    }
+    return result;
+  };
+  const timer = setTimeout(send, delayMs);
+  pendingSends.add(send);
+
   return {
-    gift_id: giftResponse.gift_id,
-    recipient_name: giftResponse.recipient_name,
-    recipient_email: giftResponse.recipient_email,
-    gift_type: giftResponse.gift_type,
-    status: giftResponse.status,
-    campaign_id: giftResponse.campaign_id,
-    verified: giftResponse.verified,
-    created_at: giftResponse.created_at,
-    updated_at: giftResponse.updated_at,
-    recipient: giftResponse.recipient || {
-      full_name: giftResponse.recipient_name || '',
-      email: giftResponse.recipient_email || ''
-    },
-    gift: giftResponse.gift || {
-      type: giftResponse.gift_type || ''
-    },
-    meta: giftResponse.meta || {
-      campaign_id: giftResponse.campaign_id || ''
+    result,
+    undo: () => {
+      if (state !== 'waiting') return false;
+      state = 'undone';
+      clearTimeout(timer);
+      pendingSends.delete(send);
+      settle(null);
+      return true;
     }
   };
 };
 
-// API functions
+// API functions. Reads go straight to the SDK client; mutations also
+// update the shared query cache.
 export const apiService = {
-  // Health check
-  async healthCheck() {
-    try {
-      const response = await axios.get(`${API_BASE_URL}/`);
-      return handleResponse(response);
-    } catch (error) {
-      return handleError(error);
-    }
+  ...client,
+
+  async initiateGift(giftData: GiftDataRequest, options?: MutationOptions) {
+    const result = await client.initiateGift(giftData, options);
+    queryCache.invalidate(queryKeys.gifts);
+    return result;
   },
 
-  // User management
-  async createUser(userData: CreateUserForm): Promise<User> {
-    try {
-      const formData = new FormData();
-      formData.append('email', userData.email);
-      formData.append('full_name', userData.full_name);
-      if (userData.company_name) {
-        formData.append('company_name', userData.company_name);
+  async bulkInitiateGifts(bulkData: BulkGiftData, options?: MutationOptions) {
+    const result = await client.bulkInitiateGifts(bulkData, options);
+    queryCache.invalidate(queryKeys.gifts);
+    return result;
+  },
+
+  async updateGiftStatus(statusData: StatusUpdate) {
+    const result = await client.updateGiftStatus(statusData);
+    patchCachedGift(statusData.giftId, { status: statusData.status, updated_at: new Date().toISOString() });
+    return result;
+  },
+
+  // Status change sent once the undo window ends. Cached lists show the new
+  // status straight away and go back to `previous` if it is undone or fails.
+  deferGiftStatusUpdate(statusData: StatusUpdate, previous: Partial<Gift>) {
+    const { giftId, status } = statusData;
+    patchCachedGift(giftId, { status, updated_at: new Date().toISOString() }, { refetch: false });
+    const deferred = deferMutation(() => this.updateGiftStatus(statusData).catch(error => {
+      patchCachedGift(giftId, previous);
+      throw error;
+    }));
+    return {
+      ...deferred,
+      undo: () => {
+        const undone = deferred.undo();
+        if (undone) {
+          patchCachedGift(giftId, previous, { refetch: false });
+        }
+        return undone;
       }
+    };
+  },
 
-      const response = await axios.post(`${API_BASE_URL}/api/users`, formData);
-      return handleResponse(response);
-    } catch (error) {
-      return handleError(error);
-    }
+  async verifyGift(giftId: string, verified: boolean) {
+    const result = await client.verifyGift(giftId, verified);
+    patchCachedGift(giftId, { verified, updated_at: new Date().toISOString() });
+    return result;
   },
 
-  async getUserProfile(): Promise<User> {
-    try {
-      const response = await api.get('/api/user/profile');
-      return handleResponse(response);
-    } catch (error) {
-      return handleError(error);
-    }
+  // Look up gifts by ID, a few at a time, in the order given. Used for
+  // explicit selections, which may span pages and filters.
+  async getGiftsById(giftIds: string[]): Promise<Gift[]> {
+    const gifts: Gift[] = new Array(giftIds.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+      while (nextIndex < giftIds.length) {
+        const index = nextIndex++;
+        gifts[index] = await client.getGift(giftIds[index]);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(BULK_ACTION_CONCURRENCY, giftIds.length) }, worker));
+    return gifts;
   },
 
-  // Gift operations
-  async initiateGift(giftData: GiftDataRequest): Promise<{ giftId: string }> {
+  // There is no bulk status endpoint, so this sends one request per gift, a
+  // few at a time. Failures are reported per gift instead of thrown, and the
+  // cached lists are refetched once at the end rather than after every gift.
+  async runBulkGiftAction(
+    giftIds: string[],
+    action: BulkGiftAction,
+    onResult?: (result: BulkGiftResult) => void
+  ): Promise<BulkGiftResult[]> {
+    const results: BulkGiftResult[] = new Array(giftIds.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+      while (nextIndex < giftIds.length) {
+        const index = nextIndex++;
+        const giftId = giftIds[index];
+        try {
+          if (action.type === 'verify') {
+            await client.verifyGift(giftId, true);
+            patchCachedGift(giftId, { verified: true, updated_at: new Date().toISOString() }, { refetch: false });
+          } else {
+            await client.updateGiftStatus({ giftId, status: action.status, notes: action.notes, force: action.force });
+            patchCachedGift(giftId, { status: action.status, updated_at: new Date().toISOString() }, { refetch: false });
+          }
+          results[index] = { giftId, success: true };
+        } catch (error) {
+          results[index] = { giftId, success: false, error: toApiError(error).message };
+        }
+        onResult?.(results[index]);
+      }
+    };
+
     try {
-      const response = await api.post('/api/initiate-gift', giftData);
-      return handleResponse(response);
-    } catch (error) {
-      return handleError(error);
+      await Promise.all(Array.from({ length: Math.min(BULK_ACTION_CONCURRENCY, giftIds.length) }, worker));
+    } finally {
+      queryCache.invalidate(queryKeys.gifts);
     }
+    return results;
   },
 
-  async bulkInitiateGifts(bulkData: BulkGiftData): Promise<BulkGiftResponse> {
-    try {
-      const response = await api.post('/api/bulk-initiate-gifts', bulkData);
-      return handleResponse(response);
-    } catch (error) {
-      return handleError(error);
-    }
+  // Bulk action started once the undo window ends (see runBulkGiftAction)
+  deferBulkGiftAction(giftIds: string[], action: BulkGiftAction, onResult?: (result: BulkGiftResult) => void) {
+    return deferMutation(() => this.runBulkGiftAction(giftIds, action, onResult));
   },
 
-  async getAllGifts(limit: number = 1000): Promise<{ success: boolean; gifts: Gift[] }> {
-    try {
-      const response = await api.get('/api/gifts', { params: { limit } });
-      const data = handleResponse(response);
-      return {
-        ...data,
-        gifts: (data.gifts || []).map(transformGiftResponse)
-      };
-    } catch (error) {
-      return handleError(error);
-    }
+  async uploadExcelFile(file: File, campaignId: string) {
+    const result = await client.uploadExcelFile(file, campaignId);
+    queryCache.invalidate(queryKeys.gifts);
+    return result;
   },
 
-  async getCampaignGifts(campaignId: string): Promise<{ success: boolean; totalGifts: number; gifts: Gift[] }> {
-    try {
-      const response = await api.get(`/api/campaign-gifts/${campaignId}`);
-      const data = handleResponse(response);
-      return {
-        ...data,
-        gifts: (data.gifts || []).map(transformGiftResponse)
-      };
-    } catch (error) {
-      return handleError(error);
-    }
+  async updateEmailConfig(config: EmailConfig) {
+    const result = await client.updateEmailConfig(config);
+    queryCache.invalidate(queryKeys.emailConfig);
+    return result;
   },
 
-  async updateGiftStatus(statusData: StatusUpdate): Promise<any> {
-    try {
-      const response = await api.put('/api/gift-status', statusData);
-      return handleResponse(response);
-    } catch (error) {
-      return handleError(error);
-    }
+  async updateFulfillmentConfig(config: FulfillmentConfig) {
+    const result = await client.updateFulfillmentConfig(config);
+    queryCache.invalidate(queryKeys.fulfillmentConfig);
+    return result;
+  },
+
+  async inviteTeamMember(invitation: TeamInvitationRequest) {
+    const result = await client.inviteTeamMember(invitation);
+    queryCache.invalidate(queryKeys.teamMembers);
+    return result;
   },
 
-  async getGiftStatus(giftId: string): Promise<{ status: string }> {
+  async updateTeamMemberRole(memberId: string, role: string) {
+    const result = await client.updateTeamMemberRole(memberId, role);
+    queryCache.invalidate(queryKeys.teamMembers);
+    return result;
+  },
+
+  async removeTeamMember(memberId: string) {
+    const result = await client.removeTeamMember(memberId);
+    queryCache.invalidate(queryKeys.teamMembers);
+    return result;
+  },
+
+  async createApiKey(request: CreateApiKeyRequest) {
+    const result = await client.createApiKey(request);
+    queryCache.invalidate(queryKeys.apiKeys);
+    return result;
+  },
+
+  async revokeApiKey(keyId: string) {
+    const result = await client.revokeApiKey(keyId);
+    queryCache.invalidate(queryKeys.apiKeys);
+    return result;
+  },
+
+  // Rotate the active account's key and move the session onto the new one
+  // in the same step, so no request is left holding the revoked key
+  async rotateSessionKey(): Promise<RotatedApiKey> {
+    if (!usesSessionProxy()) {
+      const issued = await client.rotateApiKey();
+      const stored = readLocalSession()!;
+      const session = saveLocalSession({
+        ...stored,
+        accounts: stored.accounts.map(account => account.accountId === stored.activeAccountId
+          ? { ...account, maskedApiKey: maskApiKey(issued.api_key) }
+          : account),
+        apiKeys: { ...stored.apiKeys, [stored.activeAccountId]: issued.api_key }
+      });
+      queryCache.invalidate(queryKeys.apiKeys);
+      return { ...issued, session };
+    }
+
     try {
-      const response = await api.get(`/api/gift-status/${giftId}`);
-      return handleResponse(response);
+      const response = await sessionHttp.post('/rotate', null, { headers: proxyHeaders() });
+      const rotated = parseResponse(rotatedApiKeySchema, response.data, 'rotateSessionKey');
+      actAs(rotated.session);
+      queryCache.invalidate(queryKeys.apiKeys);
+      return rotated;
     } catch (error) {
-      return handleError(error);
+      throw toApiError(error);
     }
   },
 
-  async verifyGift(giftId: string, verified: boolean): Promise<any> {
-    try {
-      const response = await api.post('/api/verify-gift', {
-        giftId,
-        verified
+  // Save the active account's profile and refresh the name and company the
+  // session shows for it
+  async updateSessionProfile(profile: UpdateUserProfileRequest): Promise<UpdatedProfile> {
+    if (!usesSessionProxy()) {
+      const updated = await client.updateUserProfile(profile);
+      const stored = readLocalSession()!;
+      const session = saveLocalSession({
+        ...stored,
+        accounts: stored.accounts.map(account => account.accountId === updated.user_id
+          ? { ...account, userInfo: toUserInfo(updated) }
+          : account)
       });
-      return handleResponse(response);
-    } catch (error) {
-      return handleError(error);
+      queryCache.invalidate(queryKeys.userProfile);
+      queryCache.invalidate(queryKeys.teamMembers);
+      return { profile: toUserInfo(updated), session };
     }
-  },
 
-  // Excel operations
-  async downloadExcelTemplate(): Promise<Blob> {
     try {
-      const response = await api.get('/api/download-excel-template', {
-        responseType: 'blob'
-      });
-      return response.data;
+      const response = await sessionHttp.put('/profile', profile, { headers: proxyHeaders() });
+      const updated = parseResponse(updatedProfileSchema, response.data, 'updateSessionProfile');
+      actAs(updated.session);
+      queryCache.invalidate(queryKeys.userProfile);
+      queryCache.invalidate(queryKeys.teamMembers);
+      return updated;
     } catch (error) {
-      return handleError(error);
+      throw toApiError(error);
     }
   },
 
-  async uploadExcelFile(file: File, campaignId: string): Promise<any> {
-    try {
-      const formData = new FormData();
-      formData.append('file', file);
-      formData.append('campaign_id', campaignId);
-
-      const response = await api.post('/api/upload-excel', formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data'
-        }
+  // Sessions (one per environment profile, holding one or more accounts).
+  // The server validates each key, seals it in an httpOnly cookie and only
+  // ever returns masked details. With unlock, the key of a saved account
+  // unlocks a locked session and the other accounts are kept.
+  async createSession(
+    apiKey: string,
+    { addAccount = false, unlock = false }: { addAccount?: boolean; unlock?: boolean } = {}
+  ): Promise<SessionInfo> {
+    await flushDeferredMutations();
+    const environment = getActiveEnvironment();
+    if (!usesSessionProxy()) {
+      const existing = addAccount || unlock ? readLocalSession() : null;
+      // Validated with a separate client so a rejected key is not reported
+      // as the current session ending
+      const validator = createGiftLibClient({
+        baseUrl: environment.baseUrl,
+        adapter: transportOverride ?? mockAdapter,
+        credentials: staticCredentials(apiKey)
+      });
+      const userInfo = toUserInfo(await validator.getUserProfile());
+      if (existing?.locked && !existing.apiKeys[userInfo.user_id]) {
+        throw new ApiError('This key belongs to an account that is not saved in this session', {
+          code: 'forbidden',
+          backendCode: 'unknown_account'
+        });
+      }
+      const account = { accountId: userInfo.user_id, userInfo, maskedApiKey: maskApiKey(apiKey) };
+      return saveLocalSession({
+        accounts: [...(existing?.accounts ?? []).filter(saved => saved.accountId !== account.accountId), account],
+        activeAccountId: account.accountId,
+        environment: environment.id,
+        expiresAt: null,
+        apiKeys: { ...existing?.apiKeys, [account.accountId]: apiKey }
       });
-      return handleResponse(response);
-    } catch (error) {
-      return handleError(error);
     }
-  },
 
-  // Email configuration
-  async getEmailConfig(): Promise<EmailConfigResponse> {
     try {
-      const response = await api.get('/api/email-config');
-      return handleResponse(response);
+      const response = await sessionHttp.post('', {
+        apiKey,
+        environment: environment.id,
+        baseUrl: environment.baseUrl,
+        addAccount,
+        unlock
+      }, { headers: proxyHeaders() });
+      return actAs(parseResponse(sessionInfoSchema, response.data, 'createSession'));
     } catch (error) {
-      return handleError(error);
+      throw toApiError(error);
     }
   },
 
-  async updateEmailConfig(config: EmailConfig): Promise<any> {
-    try {
-      const formData = new FormData();
-      formData.append('resend_api_key', config.resend_api_key);
-      formData.append('from_email', config.from_email);
-      if (config.sending_domain) {
-        formData.append('sending_domain', config.sending_domain);
+  // The current session, or null when logged out. Throws for an expired
+  // session (backendCode 'session_expired') so callers can tell the user.
+  async getSession(): Promise<SessionInfo | null> {
+    if (!usesSessionProxy()) {
+      const stored = readLocalSession();
+      if (!stored?.apiKeys?.[stored.activeAccountId]) return null;
+      const session = saveLocalSession(stored);
+      // Verify the stored key is still valid (a locked session waits for a new one)
+      if (!session.locked) {
+        await client.getUserProfile();
       }
+      return session;
+    }
 
-      const response = await api.post('/api/email-config', formData);
-      return handleResponse(response);
+    try {
+      const response = await sessionHttp.get('', { headers: proxyHeaders() });
+      return actAs(parseResponse(sessionInfoSchema, response.data, 'getSession'));
     } catch (error) {
-      return handleError(error);
+      const apiError = toApiError(error);
+      if (apiError.status === 401 && apiError.backendCode === 'no_session') {
+        return null;
+      }
+      throw apiError;
     }
   },
 
-  async testEmailConfig(testEmail: string): Promise<any> {
-    try {
-      const formData = new FormData();
-      formData.append('test_email', testEmail);
+  // Make another saved account the one requests act as
+  async switchAccount(accountId: string): Promise<SessionInfo> {
+    await flushDeferredMutations();
+    if (!usesSessionProxy()) {
+      const stored = readLocalSession();
+      if (!stored?.apiKeys[accountId]) {
+        throw new ApiError('That account is not saved in this session', { code: 'not_found' });
+      }
+      return saveLocalSession({ ...stored, activeAccountId: accountId });
+    }
 
-      const response = await api.post('/api/email-config/test', formData);
-      return handleResponse(response);
+    try {
+      const response = await sessionHttp.patch('', { activeAccountId: accountId }, { headers: proxyHeaders() });
+      return actAs(parseResponse(sessionInfoSchema, response.data, 'switchAccount'));
     } catch (error) {
-      return handleError(error);
+      throw toApiError(error);
     }
   },
 
-  // Fulfillment configuration
-  async getFulfillmentConfig(): Promise<any> {
+  // Forget one saved account. Returns the remaining session, or null when
+  // that was the last account (which logs out).
+  async removeAccount(accountId: string): Promise<SessionInfo | null> {
+    await flushDeferredMutations();
+    if (!usesSessionProxy()) {
+      const stored = readLocalSession();
+      const accounts = (stored?.accounts ?? []).filter(account => account.accountId !== accountId);
+      if (!stored || accounts.length === 0) {
+        await this.endSession();
+        return null;
+      }
+      const { [accountId]: _removed, ...apiKeys } = stored.apiKeys;
+      return saveLocalSession({
+        ...stored,
+        accounts,
+        apiKeys,
+        activeAccountId: stored.activeAccountId === accountId ? accounts[0].accountId : stored.activeAccountId
+      });
+    }
+
     try {
-      const response = await api.get('/api/fulfillment-config');
-      return handleResponse(response);
+      const response = await sessionHttp.delete('', { params: { accountId }, headers: proxyHeaders() });
+      if (!response.data?.accounts) {
+        actingAccountId = null;
+        actingRole = 'admin';
+        isSessionLocked = false;
+        return null;
+      }
+      return actAs(parseResponse(sessionInfoSchema, response.data, 'removeAccount'));
     } catch (error) {
-      return handleError(error);
+      throw toApiError(error);
     }
   },
 
-  async updateFulfillmentConfig(config: { api_url: string; api_key: string }): Promise<any> {
+  // Lock the session after a 401 or idle timeout, keeping every saved
+  // account for when a key is entered again
+  async lockSession(): Promise<SessionInfo | null> {
+    await flushDeferredMutations();
+    isSessionLocked = true;
+    if (!usesSessionProxy()) {
+      const stored = readLocalSession();
+      return stored ? saveLocalSession({ ...stored, locked: true }) : null;
+    }
+
     try {
-      const response = await api.post('/api/fulfillment-config', config);
-      return handleResponse(response);
+      const response = await sessionHttp.post('/lock', null, { headers: proxyHeaders() });
+      return actAs(parseResponse(sessionInfoSchema, response.data, 'lockSession'));
     } catch (error) {
-      return handleError(error);
+      throw toApiError(error);
     }
   },
 
-  async testFulfillmentConfig(config: { api_url: string; api_key: string }): Promise<any> {
+  // Log out of every account in the environment
+  async endSession() {
+    await flushDeferredMutations();
+    actingAccountId = null;
+    actingRole = 'admin';
+    isSessionLocked = false;
+    if (!usesSessionProxy()) {
+      this.removeApiKey();
+      storage.remove(getEnvironmentStorageKey(MOCK_SESSION_STORAGE_KEY));
+      return;
+    }
     try {
-      const response = await api.post('/api/fulfillment-config/test', config);
-      return handleResponse(response);
+      await sessionHttp.delete('', { headers: proxyHeaders() });
     } catch (error) {
-      return handleError(error);
+      throw toApiError(error);
     }
   },
 
-  // Utility functions
+  // Locally stored API key (mock backend, and keys saved by older versions)
   setApiKey(apiKey: string) {
-    localStorage.setItem('giftlib_api_key', apiKey);
+    localStorage.setItem(getEnvironmentStorageKey(API_KEY_STORAGE_KEY), apiKey);
   },
 
   getApiKey(): string | null {
-    return localStorage.getItem('giftlib_api_key');
+    return localStorage.getItem(getEnvironmentStorageKey(API_KEY_STORAGE_KEY));
   },
 
   removeApiKey() {
-    localStorage.removeItem('giftlib_api_key');
+    localStorage.removeItem(getEnvironmentStorageKey(API_KEY_STORAGE_KEY));
   }
 };
 
-export default apiService;
\ No newline at end of file
+export default apiService;
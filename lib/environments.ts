@@ -0,0 +1,111 @@
+import { EnvironmentId, EnvironmentProfile } from '@/types';
+import { storage } from '@/lib/utils';
+import { MOCK_BASE_URL } from '@/lib/mockConfig';
+
+const ACTIVE_ENVIRONMENT_KEY = 'giftlib_environment';
+const BASE_URL_OVERRIDES_KEY = 'giftlib_environment_urls';
+
+// Sent with proxied requests so the server picks that environment's session
+export const PROXY_ENVIRONMENT_HEADER = 'X-GiftLib-Environment';
+// Account (user_id) a proxied request acts as, when the session holds several
+export const PROXY_ACCOUNT_HEADER = 'X-GiftLib-Account';
+
+// Default profiles, overridable at build time via NEXT_PUBLIC_* variables
+const DEFAULT_PROFILES: EnvironmentProfile[] = [
+  {
+    id: 'mock',
+    label: 'Local mock (offline)',
+    baseUrl: MOCK_BASE_URL,
+    isProduction: false,
+    transport: 'mock'
+  },
+  {
+    id: 'local',
+    label: 'Local',
+    baseUrl: process.env.NEXT_PUBLIC_GIFTLIB_LOCAL_URL || 'http://localhost:8000',
+    isProduction: false,
+    transport: 'http'
+  },
+  {
+    id: 'sandbox',
+    label: 'Sandbox',
+    baseUrl: process.env.NEXT_PUBLIC_GIFTLIB_SANDBOX_URL || 'https://giftlib-backend-sandbox.onrender.com',
+    isProduction: false,
+    transport: 'http'
+  },
+  {
+    id: 'staging',
+    label: 'Staging',
+    baseUrl: process.env.NEXT_PUBLIC_GIFTLIB_STAGING_URL || 'https://giftlib-backend-staging.onrender.com',
+    isProduction: false,
+    transport: 'http'
+  },
+  {
+    id: 'production',
+    label: 'Production',
+    baseUrl: process.env.NEXT_PUBLIC_GIFTLIB_PRODUCTION_URL || 'https://giftlib-backend.onrender.com',
+    isProduction: true,
+    transport: 'http'
+  }
+];
+
+export const DEFAULT_ENVIRONMENT: EnvironmentId = 'production';
+
+// Strip trailing slashes so paths can be appended safely
+const normalizeBaseUrl = (url: string): string => url.trim().replace(/\/+$/, '');
+
+// All profiles with any user-saved base URL overrides applied
+export function getEnvironmentProfiles(): EnvironmentProfile[] {
+  const overrides: Partial<Record<EnvironmentId, string>> = storage.get(BASE_URL_OVERRIDES_KEY) || {};
+  return DEFAULT_PROFILES.map(profile => ({
+    ...profile,
+    // The mock transport has no real host to override
+    baseUrl: profile.transport === 'mock' ? profile.baseUrl : normalizeBaseUrl(overrides[profile.id] || profile.baseUrl)
+  }));
+}
+
+export function isEnvironmentId(value: unknown): value is EnvironmentId {
+  return DEFAULT_PROFILES.some(profile => profile.id === value);
+}
+
+export function getEnvironmentProfile(id: EnvironmentId): EnvironmentProfile {
+  const profiles = getEnvironmentProfiles();
+  return profiles.find(profile => profile.id === id) || profiles[profiles.length - 1];
+}
+
+export function getActiveEnvironmentId(): EnvironmentId {
+  const stored = storage.get(ACTIVE_ENVIRONMENT_KEY);
+  return isEnvironmentId(stored) ? stored : DEFAULT_ENVIRONMENT;
+}
+
+export function getActiveEnvironment(): EnvironmentProfile {
+  return getEnvironmentProfile(getActiveEnvironmentId());
+}
+
+export function setActiveEnvironment(id: EnvironmentId) {
+  storage.set(ACTIVE_ENVIRONMENT_KEY, id);
+}
+
+// Base URL the API client should talk to right now
+export function getApiBaseUrl(): string {
+  return getActiveEnvironment().baseUrl;
+}
+
+export function setEnvironmentBaseUrl(id: EnvironmentId, baseUrl: string) {
+  const overrides: Partial<Record<EnvironmentId, string>> = storage.get(BASE_URL_OVERRIDES_KEY) || {};
+  const defaultUrl = DEFAULT_PROFILES.find(profile => profile.id === id)?.baseUrl;
+  const normalized = normalizeBaseUrl(baseUrl);
+
+  if (!normalized || normalized === defaultUrl) {
+    delete overrides[id];
+  } else {
+    overrides[id] = normalized;
+  }
+  storage.set(BASE_URL_OVERRIDES_KEY, overrides);
+}
+
+// Per-profile localStorage key. Production keeps the legacy un-suffixed key
+// so existing sessions survive the introduction of profiles.
+export function getEnvironmentStorageKey(baseKey: string, id: EnvironmentId = getActiveEnvironmentId()): string {
+  return id === DEFAULT_ENVIRONMENT ? baseKey : `${baseKey}_${id}`;
+}
@@ -0,0 +1,150 @@
+import { AxiosError } from 'axios';
+import { ApiErrorCode, FieldError } from '@/types';
+
+interface ApiErrorOptions {
+  status?: number | null;
+  code?: ApiErrorCode;
+  backendCode?: string;
+  detail?: string;
+  fieldErrors?: FieldError[];
+  requestId?: string;
+  data?: unknown;
+  cause?: unknown;
+}
+
+// Error thrown by every apiService method. Keeps the HTTP status and the
+// backend's detail so callers can branch on what actually went wrong.
+export class ApiError extends Error {
+  readonly status: number | null;
+  readonly code: ApiErrorCode;
+  readonly backendCode?: string;
+  readonly detail?: string;
+  readonly fieldErrors: FieldError[];
+  readonly requestId?: string;
+  readonly data?: unknown;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    // Restore the prototype chain, which is lost when targeting ES5
+    Object.setPrototypeOf(this, ApiError.prototype);
+    this.name = 'ApiError';
+    this.status = options.status ?? null;
+    this.code = options.code ?? codeFromStatus(this.status);
+    this.backendCode = options.backendCode;
+    this.detail = options.detail;
+    this.fieldErrors = options.fieldErrors ?? [];
+    this.requestId = options.requestId;
+    this.data = options.data;
+    this.cause = options.cause;
+  }
+
+  get isNetworkError(): boolean {
+    return this.code === 'network_error' || this.code === 'timeout';
+  }
+
+  // Field errors for a single input, e.g. "recipient.email"
+  fieldError(field: string): string | undefined {
+    return this.fieldErrors.find(error => error.field === field)?.message;
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError
+    || (typeof error === 'object' && error !== null && 'name' in error && error.name === 'ApiError');
+}
+
+// Map an HTTP status to an error category
+export function codeFromStatus(status: number | null): ApiErrorCode {
+  if (status === null) return 'network_error';
+  switch (status) {
+    case 400:
+      return 'bad_request';
+    case 401:
+      return 'unauthorized';
+    case 403:
+      return 'forbidden';
+    case 404:
+      return 'not_found';
+    case 409:
+      return 'conflict';
+    case 413:
+      return 'payload_too_large';
+    case 422:
+      return 'validation_error';
+    case 429:
+      return 'rate_limited';
+    default:
+      return status >= 500 ? 'server_error' : 'unknown';
+  }
+}
+
+// FastAPI reports validation failures as [{ loc: ['body', 'recipient', 'email'], msg, type }]
+const parseFieldErrors = (detail: unknown): FieldError[] => {
+  if (!Array.isArray(detail)) return [];
+  return detail
+    .filter(item => item && typeof item === 'object' && 'msg' in item)
+    .map(item => ({
+      field: Array.isArray(item.loc)
+        ? item.loc.filter((part: unknown) => part !== 'body').join('.')
+        : String(item.loc ?? ''),
+      message: String(item.msg),
+      type: item.type
+    }));
+};
+
+// Error body fields the backend and the session routes may send
+interface ErrorBody {
+  detail?: unknown;
+  errors?: unknown;
+  message?: unknown;
+  error_code?: unknown;
+  code?: unknown;
+  request_id?: unknown;
+}
+
+// Build an ApiError from whatever axios (or anything else) threw
+export function toApiError(error: unknown): ApiError {
+  if (isApiError(error)) return error;
+
+  const axiosError = error as AxiosError<ErrorBody | undefined>;
+  if (!axiosError?.isAxiosError) {
+    const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+    return new ApiError(message, { code: 'unknown', cause: error });
+  }
+
+  const response = axiosError.response;
+  if (!response) {
+    const isTimeout = axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT';
+    return new ApiError(
+      isTimeout ? 'The request timed out' : 'Unable to reach the GiftLib backend',
+      { code: isTimeout ? 'timeout' : 'network_error', cause: error }
+    );
+  }
+
+  const data = response.data;
+  const fieldErrors = [
+    ...parseFieldErrors(data?.detail),
+    ...parseFieldErrors(data?.errors)
+  ];
+  const detail = typeof data?.detail === 'string' ? data.detail : undefined;
+  const backendMessage = typeof data?.message === 'string' ? data.message : undefined;
+  const backendCode = data?.error_code ?? data?.code;
+  const requestId = response.headers?.['x-request-id'] ?? data?.request_id;
+
+  const message = detail
+    || backendMessage
+    || (fieldErrors.length > 0
+      ? fieldErrors.map(fieldError => `${fieldError.field}: ${fieldError.message}`).join('; ')
+      : axiosError.message);
+
+  return new ApiError(message || 'An unexpected error occurred', {
+    status: response.status,
+    backendCode: typeof backendCode === 'string' ? backendCode : undefined,
+    detail: detail ?? backendMessage,
+    fieldErrors,
+    requestId: requestId ? String(requestId) : undefined,
+    data,
+    cause: error
+  });
+}
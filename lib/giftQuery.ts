@@ -0,0 +1,125 @@
+import { Gift, GiftPage, GiftQuery, GiftSortField, SortDirection } from '@/types';
+
+export const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+
+export const GIFT_SORT_FIELDS: GiftSortField[] = ['created_at', 'updated_at', 'status', 'recipient_name'];
+
+export const SORT_DIRECTIONS: SortDirection[] = ['asc', 'desc'];
+
+export const DEFAULT_GIFT_QUERY: GiftQuery = {
+  sortBy: 'created_at',
+  sortDirection: 'desc',
+  pageSize: 10
+};
+
+// Upper bound the legacy list endpoint accepts via `limit`
+export const LEGACY_GIFT_LIMIT = 1000;
+
+// Query parameters understood by the paginated /api/gifts endpoint
+export function toGiftQueryParams(query: GiftQuery): Record<string, string | number> {
+  const params: Record<string, string | number> = {
+    page_size: query.pageSize ?? DEFAULT_GIFT_QUERY.pageSize!,
+    sort_by: query.sortBy ?? DEFAULT_GIFT_QUERY.sortBy!,
+    sort_dir: query.sortDirection ?? DEFAULT_GIFT_QUERY.sortDirection!
+  };
+
+  if (query.status) params.status = query.status;
+  if (query.campaignId) params.campaign_id = query.campaignId;
+  if (query.search) params.search = query.search;
+  if (query.createdFrom) params.created_from = query.createdFrom;
+  if (query.createdTo) params.created_to = query.createdTo;
+  if (query.cursor) params.cursor = query.cursor;
+
+  return params;
+}
+
+export function matchesGiftQuery(gift: Gift, query: GiftQuery): boolean {
+  if (query.status && gift.status !== query.status) {
+    return false;
+  }
+
+  if (query.campaignId) {
+    const campaignId = gift.meta?.campaign_id || gift.campaign_id || '';
+    if (!campaignId.toLowerCase().includes(query.campaignId.toLowerCase())) {
+      return false;
+    }
+  }
+
+  if (query.search) {
+    const search = query.search.toLowerCase();
+    const recipientName = gift.recipient?.full_name || gift.recipient_name || '';
+    const recipientEmail = gift.recipient?.email || gift.recipient_email || '';
+    if (
+      !recipientName.toLowerCase().includes(search) &&
+      !recipientEmail.toLowerCase().includes(search) &&
+      !gift.gift_id.toLowerCase().includes(search)
+    ) {
+      return false;
+    }
+  }
+
+  // Date range bounds are inclusive calendar days (YYYY-MM-DD)
+  const createdDay = gift.created_at.slice(0, 10);
+  if (query.createdFrom && createdDay < query.createdFrom) {
+    return false;
+  }
+  if (query.createdTo && createdDay > query.createdTo) {
+    return false;
+  }
+
+  return true;
+}
+
+const sortValue = (gift: Gift, field: GiftSortField): string => {
+  switch (field) {
+    case 'recipient_name':
+      return (gift.recipient?.full_name || gift.recipient_name || '').toLowerCase();
+    case 'status':
+      return gift.status;
+    case 'updated_at':
+      return gift.updated_at || gift.created_at;
+    default:
+      return gift.created_at;
+  }
+};
+
+export function sortGifts(gifts: Gift[], field: GiftSortField, direction: SortDirection): Gift[] {
+  const factor = direction === 'asc' ? 1 : -1;
+  return [...gifts].sort((a, b) => sortValue(a, field).localeCompare(sortValue(b, field)) * factor);
+}
+
+// Every gift matching the query, following cursors from the first page
+export async function collectAllGifts(
+  query: GiftQuery,
+  fetchPage: (query: GiftQuery) => Promise<GiftPage>
+): Promise<Gift[]> {
+  const gifts: Gift[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: GiftPage = await fetchPage({ ...query, pageSize: LEGACY_GIFT_LIMIT, cursor });
+    gifts.push(...page.gifts);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return gifts;
+}
+
+// Build a page client-side for backends that only support `limit`.
+// The cursor is the stringified offset into the filtered list.
+export function paginateGiftsLocally(gifts: Gift[], query: GiftQuery): GiftPage {
+  const pageSize = query.pageSize ?? DEFAULT_GIFT_QUERY.pageSize!;
+  const offset = Math.max(0, Number(query.cursor) || 0);
+  const matching = sortGifts(
+    gifts.filter(gift => matchesGiftQuery(gift, query)),
+    query.sortBy ?? DEFAULT_GIFT_QUERY.sortBy!,
+    query.sortDirection ?? DEFAULT_GIFT_QUERY.sortDirection!
+  );
+  const nextOffset = offset + pageSize;
+
+  return {
+    gifts: matching.slice(offset, nextOffset),
+    totalCount: matching.length,
+    nextCursor: nextOffset < matching.length ? String(nextOffset) : null,
+    pageSize,
+    serverPaginated: false
+  };
+}
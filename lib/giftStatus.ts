@@ -0,0 +1,30 @@
+import { GiftStatus } from '@/types';
+
+// The gift status state machine. Status controls only offer the legal next
+// states and the backend rejects anything else, unless an admin forces the
+// change (which is recorded on the gift's timeline).
+
+export const GIFT_STATUS_TRANSITIONS: Record<GiftStatus, GiftStatus[]> = {
+  pending: ['verified', 'cancelled', 'failed'],
+  verified: ['dispatched', 'cancelled', 'failed'],
+  dispatched: ['delivered', 'failed'],
+  delivered: [],
+  cancelled: [],
+  failed: ['pending']
+};
+
+// Terminal outcomes that must be explained in the update's notes
+export const REASON_REQUIRED_STATUSES: GiftStatus[] = ['cancelled', 'failed'];
+
+export function nextGiftStatuses(status: GiftStatus): GiftStatus[] {
+  return GIFT_STATUS_TRANSITIONS[status] ?? [];
+}
+
+export function canTransitionGiftStatus(from: GiftStatus, to: GiftStatus): boolean {
+  return nextGiftStatuses(from).includes(to);
+}
+
+// Forced changes always need a reason, for the audit trail
+export function requiresStatusReason(status: GiftStatus, force = false): boolean {
+  return force || REASON_REQUIRED_STATUSES.includes(status);
+}
@@ -0,0 +1,564 @@
+import axios, { AxiosAdapter, AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import {
+  User,
+  Gift,
+  GiftDetail,
+  GiftStatus,
+  GiftPage,
+  GiftQuery,
+  GiftDataRequest,
+  HealthCheck,
+  InitiateGiftResponse,
+  MutationOptions,
+  BulkGiftData,
+  BulkGiftResponse,
+  StatusUpdate,
+  EmailConfig,
+  EmailConfigResponse,
+  ExcelUploadResult,
+  FulfillmentConfig,
+  FulfillmentConfigResponse,
+  ApiResponse,
+  ApiKey,
+  AcceptInvitationRequest,
+  CreateApiKeyRequest,
+  CreateUserForm,
+  IssuedApiKey,
+  TeamInvitation,
+  TeamInvitationRequest,
+  TeamMember,
+  UpdateUserProfileRequest
+} from '@/types';
+import { ApiError, toApiError } from '@/lib/errors';
+import {
+  Schema,
+  parseResponse,
+  healthCheckSchema,
+  userSchema,
+  createdUserSchema,
+  initiateGiftResponseSchema,
+  bulkGiftResponseSchema,
+  giftListSchema,
+  giftPageResponseSchema,
+  campaignGiftsSchema,
+  giftDetailSchema,
+  giftStatusResponseSchema,
+  excelUploadResultSchema,
+  emailConfigResponseSchema,
+  fulfillmentConfigResponseSchema,
+  mutationResultSchema,
+  apiKeyListSchema,
+  issuedApiKeySchema,
+  teamMemberListSchema,
+  teamMemberSchema,
+  teamInvitationSchema
+} from '@/lib/schemas';
+import { IDEMPOTENCY_KEY_HEADER, RetryAttempt, RetryOptions, getRetryOptions, retryRequest, shouldRetry } from '@/lib/retry';
+import { generateIdempotencyKey } from '@/lib/utils';
+import {
+  DEFAULT_GIFT_QUERY,
+  LEGACY_GIFT_LIMIT,
+  paginateGiftsLocally,
+  toGiftQueryParams
+} from '@/lib/giftQuery';
+
+// Typed GiftLib client with no browser or React dependencies. Works in Node
+// (scripts, backend jobs) and in the browser; the dashboard's apiService is
+// a thin layer over it that adds localStorage credentials, toasts and caching.
+
+export { ApiError, isApiError } from '@/lib/errors';
+
+// Returns the API key to send, or nothing for unauthenticated requests
+export type CredentialProvider = () => string | null | undefined | Promise<string | null | undefined>;
+
+export interface RequestContext {
+  // Client method that made the request, e.g. 'initiateGift'
+  operation: string;
+  authenticated: boolean;
+}
+
+export interface GiftLibClientHooks {
+  // Called with each new axios instance before any client interceptors
+  setupInstance?: (instance: AxiosInstance, kind: 'authenticated' | 'public') => void;
+  // A failed request is about to be retried
+  onRetry?: (retry: RetryAttempt) => void;
+  // A request finished, successfully or not, after any retries
+  onSettled?: () => void;
+  // A client method is about to throw
+  onError?: (error: ApiError, context: RequestContext) => void;
+}
+
+export interface GiftLibClientOptions {
+  baseUrl: string | (() => string);
+  // Host for unauthenticated calls (health check, sign-up); defaults to baseUrl
+  publicBaseUrl?: string | (() => string);
+  credentials?: CredentialProvider;
+  timeoutMs?: number;
+  // Custom axios adapter (e.g. a mock backend) instead of HTTP
+  adapter?: AxiosAdapter;
+  // Chooses the adapter per request; returning undefined falls back to `adapter`
+  resolveAdapter?: () => AxiosAdapter | undefined;
+  // Overrides the shared retry defaults; false disables retries
+  retry?: Partial<RetryOptions> | false;
+  hooks?: GiftLibClientHooks;
+}
+
+export const API_KEY_HEADER = 'X-API-Key';
+
+const EXCEL_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Operations that never send the API key
+const PUBLIC_OPERATIONS = ['healthCheck', 'createUser', 'acceptInvitation'];
+
+// Helper function to validate and normalize API responses
+const handleResponse = <T>(response: AxiosResponse, schema: Schema<T>, operation: string): T => {
+  return parseResponse(schema, response.data, operation);
+};
+
+// Helper to detect a response the backend replayed for a reused idempotency key
+const isReplayedResponse = (response: AxiosResponse): boolean => {
+  return String(response.headers?.['idempotent-replayed'] ?? '').toLowerCase() === 'true'
+    || response.data?.replayed === true;
+};
+
+const idempotencyHeaders = (options?: MutationOptions) => ({
+  [IDEMPOTENCY_KEY_HEADER]: options?.idempotencyKey || generateIdempotencyKey()
+});
+
+// Static API key, e.g. from an environment variable in a script
+export const staticCredentials = (apiKey: string | null | undefined): CredentialProvider => () => apiKey;
+
+export function createGiftLibClient({
+  baseUrl,
+  publicBaseUrl = baseUrl,
+  credentials,
+  timeoutMs = 30000,
+  adapter,
+  resolveAdapter,
+  retry,
+  hooks = {}
+}: GiftLibClientOptions) {
+  // `publicHttp` is used for unauthenticated calls (health check, sign-up)
+  // and never carries the API key
+  const http = axios.create({ timeout: timeoutMs });
+  const publicHttp = axios.create({ timeout: timeoutMs });
+
+  hooks.setupInstance?.(http, 'authenticated');
+  hooks.setupInstance?.(publicHttp, 'public');
+
+  const createRequestResolver = (url: string | (() => string)) => (config: InternalAxiosRequestConfig) => {
+    config.baseURL = typeof url === 'function' ? url() : url;
+    const resolvedAdapter = resolveAdapter?.() ?? adapter;
+    if (resolvedAdapter) {
+      config.adapter = resolvedAdapter;
+    }
+    return config;
+  };
+  const resolveRequest = createRequestResolver(baseUrl);
+
+  publicHttp.interceptors.request.use(createRequestResolver(publicBaseUrl));
+  http.interceptors.request.use(async (config) => {
+    resolveRequest(config);
+    const apiKey = await credentials?.();
+    if (apiKey && config.headers) {
+      config.headers[API_KEY_HEADER] = apiKey;
+    }
+    return config;
+  });
+
+  // Retry transient failures, then report the request as settled
+  const createErrorInterceptor = (instance: AxiosInstance) => (error: AxiosError) => {
+    if (retry !== false) {
+      const defaults = { ...getRetryOptions(), ...retry };
+      if (shouldRetry(error, defaults)) {
+        return retryRequest(instance, error, { defaults, onRetry: hooks.onRetry });
+      }
+    }
+    hooks.onSettled?.();
+    return Promise.reject(error);
+  };
+
+  const handleSuccess = (response: AxiosResponse) => {
+    hooks.onSettled?.();
+    return response;
+  };
+
+  http.interceptors.response.use(handleSuccess, createErrorInterceptor(http));
+  publicHttp.interceptors.response.use(handleSuccess, createErrorInterceptor(publicHttp));
+
+  // Whether the backend last answered with the legacy unpaginated list. Such
+  // backends only understand `limit`, so later queries ask for that list
+  // straight away.
+  let isLegacyGiftList = false;
+
+  const fetchGiftPage = async (query: GiftQuery, legacy: boolean) => {
+    const response = await http.get('/api/gifts', {
+      params: legacy ? { limit: LEGACY_GIFT_LIMIT } : toGiftQueryParams(query)
+    });
+    return handleResponse(response, giftPageResponseSchema, 'queryGifts');
+  };
+
+  // Helper function to normalize errors and notify the error hook
+  const handleError = (error: unknown, operation: string): never => {
+    const apiError = toApiError(error);
+    hooks.onError?.(apiError, { operation, authenticated: !PUBLIC_OPERATIONS.includes(operation) });
+    throw apiError;
+  };
+
+  return {
+    // Health check
+    async healthCheck(): Promise<HealthCheck> {
+      try {
+        const response = await publicHttp.get('/');
+        return handleResponse(response, healthCheckSchema, 'healthCheck');
+      } catch (error) {
+        return handleError(error, 'healthCheck');
+      }
+    },
+
+    // User management
+    async createUser(userData: CreateUserForm): Promise<User> {
+      try {
+        const formData = new FormData();
+        formData.append('email', userData.email);
+        formData.append('full_name', userData.full_name);
+        if (userData.company_name) {
+          formData.append('company_name', userData.company_name);
+        }
+        if (userData.phoneNumber) {
+          formData.append('phone_number', userData.phoneNumber);
+        }
+        if (userData.address) {
+          // Saved as the sender address; nested fields go as JSON in the form
+          formData.append('address', JSON.stringify(userData.address));
+        }
+
+        const response = await publicHttp.post('/api/users', formData);
+        return handleResponse(response, createdUserSchema, 'createUser');
+      } catch (error) {
+        return handleError(error, 'createUser');
+      }
+    },
+
+    async getUserProfile(): Promise<User> {
+      try {
+        const response = await http.get('/api/user/profile');
+        return handleResponse(response, userSchema, 'getUserProfile');
+      } catch (error) {
+        return handleError(error, 'getUserProfile');
+      }
+    },
+
+    async updateUserProfile(profile: UpdateUserProfileRequest): Promise<User> {
+      try {
+        const response = await http.put('/api/user/profile', profile);
+        return handleResponse(response, userSchema, 'updateUserProfile');
+      } catch (error) {
+        return handleError(error, 'updateUserProfile');
+      }
+    },
+
+    // Accept a team invitation, creating the invitee's user. Like createUser,
+    // the response carries the new member's API key.
+    async acceptInvitation(request: AcceptInvitationRequest): Promise<User> {
+      try {
+        const response = await publicHttp.post('/api/team/invitations/accept', request);
+        return handleResponse(response, createdUserSchema, 'acceptInvitation');
+      } catch (error) {
+        return handleError(error, 'acceptInvitation');
+      }
+    },
+
+    // Team management
+    async listTeamMembers(): Promise<TeamMember[]> {
+      try {
+        const response = await http.get('/api/team/members');
+        return handleResponse(response, teamMemberListSchema, 'listTeamMembers').members;
+      } catch (error) {
+        return handleError(error, 'listTeamMembers');
+      }
+    },
+
+    async inviteTeamMember(invitation: TeamInvitationRequest): Promise<TeamInvitation> {
+      try {
+        const response = await http.post('/api/team/invitations', invitation);
+        return handleResponse(response, teamInvitationSchema, 'inviteTeamMember');
+      } catch (error) {
+        return handleError(error, 'inviteTeamMember');
+      }
+    },
+
+    async updateTeamMemberRole(memberId: string, role: string): Promise<TeamMember> {
+      try {
+        const response = await http.put(`/api/team/members/${encodeURIComponent(memberId)}`, { role });
+        return handleResponse(response, teamMemberSchema, 'updateTeamMemberRole');
+      } catch (error) {
+        return handleError(error, 'updateTeamMemberRole');
+      }
+    },
+
+    // Removes an active member (revoking their keys) or cancels an invitation
+    async removeTeamMember(memberId: string): Promise<ApiResponse> {
+      try {
+        const response = await http.delete(`/api/team/members/${encodeURIComponent(memberId)}`);
+        return handleResponse(response, mutationResultSchema, 'removeTeamMember');
+      } catch (error) {
+        return handleError(error, 'removeTeamMember');
+      }
+    },
+
+    // API keys
+    async listApiKeys(): Promise<ApiKey[]> {
+      try {
+        const response = await http.get('/api/api-keys');
+        return handleResponse(response, apiKeyListSchema, 'listApiKeys').keys;
+      } catch (error) {
+        return handleError(error, 'listApiKeys');
+      }
+    },
+
+    async createApiKey(request: CreateApiKeyRequest): Promise<IssuedApiKey> {
+      try {
+        const response = await http.post('/api/api-keys', request);
+        return handleResponse(response, issuedApiKeySchema, 'createApiKey');
+      } catch (error) {
+        return handleError(error, 'createApiKey');
+      }
+    },
+
+    async revokeApiKey(keyId: string): Promise<ApiResponse> {
+      try {
+        const response = await http.delete(`/api/api-keys/${encodeURIComponent(keyId)}`);
+        return handleResponse(response, mutationResultSchema, 'revokeApiKey');
+      } catch (error) {
+        return handleError(error, 'revokeApiKey');
+      }
+    },
+
+    // Replace the key this client authenticates with. The old key stops
+    // working immediately, so callers must switch to the returned one.
+    async rotateApiKey(): Promise<IssuedApiKey> {
+      try {
+        const response = await http.post('/api/api-keys/rotate');
+        return handleResponse(response, issuedApiKeySchema, 'rotateApiKey');
+      } catch (error) {
+        return handleError(error, 'rotateApiKey');
+      }
+    },
+
+    // Gift operations
+    // Pass the same idempotencyKey when resubmitting the same form so the
+    // backend can replay the original result instead of sending a second card
+    async initiateGift(giftData: GiftDataRequest, options?: MutationOptions): Promise<InitiateGiftResponse> {
+      try {
+        const response = await http.post('/api/initiate-gift', giftData, {
+          headers: idempotencyHeaders(options)
+        });
+        return {
+          ...handleResponse(response, initiateGiftResponseSchema, 'initiateGift'),
+          replayed: isReplayedResponse(response)
+        };
+      } catch (error) {
+        return handleError(error, 'initiateGift');
+      }
+    },
+
+    async bulkInitiateGifts(bulkData: BulkGiftData, options?: MutationOptions): Promise<BulkGiftResponse> {
+      try {
+        const response = await http.post('/api/bulk-initiate-gifts', bulkData, {
+          headers: idempotencyHeaders(options)
+        });
+        return {
+          ...handleResponse(response, bulkGiftResponseSchema, 'bulkInitiateGifts'),
+          replayed: isReplayedResponse(response)
+        };
+      } catch (error) {
+        return handleError(error, 'bulkInitiateGifts');
+      }
+    },
+
+    async getAllGifts(limit: number = LEGACY_GIFT_LIMIT): Promise<{ success: boolean; gifts: Gift[] }> {
+      try {
+        const response = await http.get('/api/gifts', { params: { limit } });
+        return handleResponse(response, giftListSchema, 'getAllGifts');
+      } catch (error) {
+        return handleError(error, 'getAllGifts');
+      }
+    },
+
+    // Cursor-paginated, server-filtered gift list. Falls back to filtering a
+    // `limit`-sized download client-side when the backend ignores the query.
+    async queryGifts(query: GiftQuery = DEFAULT_GIFT_QUERY): Promise<GiftPage> {
+      try {
+        let page = await fetchGiftPage(query, isLegacyGiftList);
+        // The answer didn't match the kind of backend expected (first query,
+        // or another environment since): ask again the way it understands
+        if (page.paginated === isLegacyGiftList) {
+          isLegacyGiftList = !page.paginated;
+          page = await fetchGiftPage(query, isLegacyGiftList);
+        }
+
+        if (!page.paginated) {
+          return paginateGiftsLocally(page.gifts, query);
+        }
+        return {
+          gifts: page.gifts,
+          totalCount: page.totalCount,
+          nextCursor: page.nextCursor,
+          pageSize: query.pageSize ?? DEFAULT_GIFT_QUERY.pageSize!,
+          serverPaginated: true
+        };
+      } catch (error) {
+        return handleError(error, 'queryGifts');
+      }
+    },
+
+    async getCampaignGifts(campaignId: string): Promise<{ success: boolean; totalGifts: number; gifts: Gift[] }> {
+      try {
+        const response = await http.get(`/api/campaign-gifts/${encodeURIComponent(campaignId)}`);
+        return handleResponse(response, campaignGiftsSchema, 'getCampaignGifts');
+      } catch (error) {
+        return handleError(error, 'getCampaignGifts');
+      }
+    },
+
+    async getGift(giftId: string): Promise<GiftDetail> {
+      try {
+        const response = await http.get(`/api/gifts/${encodeURIComponent(giftId)}`);
+        return handleResponse(response, giftDetailSchema, 'getGift');
+      } catch (error) {
+        return handleError(error, 'getGift');
+      }
+    },
+
+    async updateGiftStatus(statusData: StatusUpdate): Promise<ApiResponse> {
+      try {
+        const response = await http.put('/api/gift-status', statusData);
+        return handleResponse(response, mutationResultSchema, 'updateGiftStatus');
+      } catch (error) {
+        return handleError(error, 'updateGiftStatus');
+      }
+    },
+
+    async getGiftStatus(giftId: string): Promise<{ status: GiftStatus }> {
+      try {
+        const response = await http.get(`/api/gift-status/${encodeURIComponent(giftId)}`);
+        return handleResponse(response, giftStatusResponseSchema, 'getGiftStatus');
+      } catch (error) {
+        return handleError(error, 'getGiftStatus');
+      }
+    },
+
+    async verifyGift(giftId: string, verified: boolean): Promise<ApiResponse> {
+      try {
+        const response = await http.post('/api/verify-gift', {
+          giftId,
+          verified
+        });
+        return handleResponse(response, mutationResultSchema, 'verifyGift');
+      } catch (error) {
+        return handleError(error, 'verifyGift');
+      }
+    },
+
+    // Excel operations
+    // Fetched as an ArrayBuffer because Node's HTTP adapter has no 'blob' response type
+    async downloadExcelTemplate(): Promise<Blob> {
+      try {
+        const response = await http.get('/api/download-excel-template', {
+          responseType: 'arraybuffer'
+        });
+        return response.data instanceof Blob
+          ? response.data
+          : new Blob([response.data], { type: String(response.headers?.['content-type'] || EXCEL_MIME_TYPE) });
+      } catch (error) {
+        return handleError(error, 'downloadExcelTemplate');
+      }
+    },
+
+    async uploadExcelFile(file: Blob, campaignId: string): Promise<ExcelUploadResult> {
+      try {
+        const formData = new FormData();
+        formData.append('file', file, (file as File).name || 'gifts.xlsx');
+        formData.append('campaign_id', campaignId);
+
+        const response = await http.post('/api/upload-excel', formData, {
+          headers: {
+            'Content-Type': 'multipart/form-data'
+          }
+        });
+        return handleResponse(response, excelUploadResultSchema, 'uploadExcelFile');
+      } catch (error) {
+        return handleError(error, 'uploadExcelFile');
+      }
+    },
+
+    // Email configuration
+    async getEmailConfig(): Promise<EmailConfigResponse> {
+      try {
+        const response = await http.get('/api/email-config');
+        return handleResponse(response, emailConfigResponseSchema, 'getEmailConfig');
+      } catch (error) {
+        return handleError(error, 'getEmailConfig');
+      }
+    },
+
+    async updateEmailConfig(config: EmailConfig): Promise<ApiResponse> {
+      try {
+        const formData = new FormData();
+        formData.append('resend_api_key', config.resend_api_key);
+        formData.append('from_email', config.from_email);
+        if (config.sending_domain) {
+          formData.append('sending_domain', config.sending_domain);
+        }
+
+        const response = await http.post('/api/email-config', formData);
+        return handleResponse(response, mutationResultSchema, 'updateEmailConfig');
+      } catch (error) {
+        return handleError(error, 'updateEmailConfig');
+      }
+    },
+
+    async testEmailConfig(testEmail: string): Promise<ApiResponse> {
+      try {
+        const formData = new FormData();
+        formData.append('test_email', testEmail);
+
+        const response = await http.post('/api/email-config/test', formData);
+        return handleResponse(response, mutationResultSchema, 'testEmailConfig');
+      } catch (error) {
+        return handleError(error, 'testEmailConfig');
+      }
+    },
+
+    // Fulfillment configuration
+    async getFulfillmentConfig(): Promise<FulfillmentConfigResponse> {
+      try {
+        const response = await http.get('/api/fulfillment-config');
+        return handleResponse(response, fulfillmentConfigResponseSchema, 'getFulfillmentConfig');
+      } catch (error) {
+        return handleError(error, 'getFulfillmentConfig');
+      }
+    },
+
+    async updateFulfillmentConfig(config: FulfillmentConfig): Promise<ApiResponse> {
+      try {
+        const response = await http.post('/api/fulfillment-config', config);
+        return handleResponse(response, mutationResultSchema, 'updateFulfillmentConfig');
+      } catch (error) {
+        return handleError(error, 'updateFulfillmentConfig');
+      }
+    },
+
+    async testFulfillmentConfig(config: FulfillmentConfig): Promise<ApiResponse> {
+      try {
+        const response = await http.post('/api/fulfillment-config/test', config);
+        return handleResponse(response, mutationResultSchema, 'testFulfillmentConfig');
+      } catch (error) {
+        return handleError(error, 'testFulfillmentConfig');
+      }
+    }
+  };
+}
+
+export type GiftLibClient = ReturnType<typeof createGiftLibClient>;
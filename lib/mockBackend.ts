@@ -0,0 +1,1418 @@
+import {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  InternalAxiosRequestConfig
+} from 'axios';
+import {
+  ApiKey,
+  ApiKeyScope,
+  BulkGiftData,
+  EmailConfig,
+  FulfillmentConfig,
+  Gift,
+  GiftDataRequest,
+  GiftDetail,
+  GiftInitiator,
+  GiftQuery,
+  GiftSortField,
+  GiftStatus,
+  SenderAddress,
+  SortDirection,
+  TeamMember,
+  UpdateUserProfileRequest
+} from '@/types';
+import { DEFAULT_GIFT_QUERY, LEGACY_GIFT_LIMIT, paginateGiftsLocally } from '@/lib/giftQuery';
+import { generateIdempotencyKey, isValidEmail, maskApiKey, storage } from '@/lib/utils';
+import { ROLES, Role, hasPermission, resolveRole } from '@/lib/permissions';
+import { GIFT_STATUS_TRANSITIONS, canTransitionGiftStatus, requiresStatusReason } from '@/lib/giftStatus';
+import { MOCK_BASE_URL, MOCK_DEMO_API_KEY } from '@/lib/mockConfig';
+
+// In-memory stand-in for the GiftLib backend, plugged into axios as an
+// adapter. It implements every endpoint `apiService` calls, answers with the
+// same payload and error shapes as the FastAPI backend, and optionally
+// persists its state to localStorage so a demo survives a reload.
+
+export { MOCK_BASE_URL, MOCK_DEMO_API_KEY };
+
+const MOCK_STATE_STORAGE_KEY = 'giftlib_mock_backend';
+const MOCK_FAULTS_STORAGE_KEY = 'giftlib_mock_faults';
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024; // 10MB, same limit as the backend
+
+export const EXCEL_TEMPLATE_COLUMNS = [
+  'recipient_name',
+  'recipient_email',
+  'recipient_phone',
+  'address_line1',
+  'address_line2',
+  'city',
+  'state',
+  'zip',
+  'country',
+  'gift_type',
+  'template_id',
+  'message',
+  'delivery_date'
+];
+
+// Endpoint names match the `apiService` method that calls them
+export const MOCK_ENDPOINTS = [
+  'healthCheck',
+  'createUser',
+  'getUserProfile',
+  'updateUserProfile',
+  'initiateGift',
+  'bulkInitiateGifts',
+  'listGifts',
+  'getCampaignGifts',
+  'getGift',
+  'updateGiftStatus',
+  'getGiftStatus',
+  'verifyGift',
+  'downloadExcelTemplate',
+  'uploadExcelFile',
+  'getEmailConfig',
+  'updateEmailConfig',
+  'testEmailConfig',
+  'getFulfillmentConfig',
+  'updateFulfillmentConfig',
+  'testFulfillmentConfig',
+  'listApiKeys',
+  'createApiKey',
+  'revokeApiKey',
+  'rotateApiKey',
+  'acceptInvitation',
+  'listTeamMembers',
+  'inviteTeamMember',
+  'updateTeamMemberRole',
+  'removeTeamMember'
+] as const;
+
+export type MockEndpoint = typeof MOCK_ENDPOINTS[number];
+
+// HTTP statuses the fault injector can answer with, plus transport failures
+export const MOCK_FAULT_STATUSES = [401, 403, 409, 413, 429, 500, 'network', 'timeout'] as const;
+
+export type MockFaultStatus = typeof MOCK_FAULT_STATUSES[number];
+
+export interface MockEndpointFault {
+  // Probability (0-1) that a request to the endpoint fails
+  errorRate: number;
+  status: MockFaultStatus;
+}
+
+export interface MockFaultConfig {
+  // Added on top of the backend's base latency
+  latencyMs: number;
+  endpoints: Partial<Record<MockEndpoint, MockEndpointFault>>;
+  // Probability (0-1) that each gift in a bulk request or Excel row fails
+  bulkFailureRate: number;
+}
+
+export const DEFAULT_MOCK_FAULTS: MockFaultConfig = {
+  latencyMs: 0,
+  endpoints: {},
+  bulkFailureRate: 0
+};
+
+export interface MockUser {
+  user_id: string;
+  email: string;
+  full_name: string;
+  company_name?: string;
+  role?: string;
+  phone_number?: string;
+  address?: SenderAddress;
+  api_key: string;
+  created_at: string;
+  // Owner's user_id for invited members; a user without one owns their team
+  team_id?: string;
+  last_active_at?: string;
+}
+
+export interface MockInvitation {
+  invitation_id: string;
+  team_id: string;
+  email: string;
+  role: Role;
+  token: string;
+  invited_at: string;
+}
+
+export interface MockApiKey {
+  key_id: string;
+  user_id: string;
+  name: string;
+  api_key: string;
+  scopes: ApiKeyScope[];
+  created_at: string;
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface MockGift extends GiftDetail {
+  // The owning team, shared by all of its members
+  user_id: string;
+}
+
+interface MockIdempotentResponse {
+  status: number;
+  data: unknown;
+}
+
+export interface MockBackendState {
+  users: MockUser[];
+  // Every key that authenticates a user, including each user's primary key
+  apiKeys: MockApiKey[];
+  invitations: MockInvitation[];
+  gifts: MockGift[];
+  emailConfig: Record<string, EmailConfig>;
+  fulfillmentConfig: Record<string, FulfillmentConfig>;
+  // Keyed by `${user_id}:${idempotency key}`
+  idempotency: Record<string, MockIdempotentResponse>;
+  startedAt: string;
+}
+
+export interface MockBackendOptions {
+  // localStorage key to persist state under; null keeps it in memory only
+  storageKey?: string | null;
+  // Initial state when nothing is persisted (defaults to a demo account)
+  seed?: Partial<MockBackendState>;
+  // Artificial latency per request
+  latencyMs?: number;
+  // Advance verified gifts to dispatched/delivered over time, like the real
+  // fulfillment pipeline does
+  simulateFulfillment?: boolean;
+  // localStorage key to persist fault injection settings under
+  faultsStorageKey?: string | null;
+}
+
+export interface MockBackend {
+  adapter: AxiosAdapter;
+  getState: () => MockBackendState;
+  reset: (seed?: Partial<MockBackendState>) => void;
+  getFaults: () => MockFaultConfig;
+  setFaults: (faults: MockFaultConfig) => void;
+}
+
+interface MockRequest {
+  method: string;
+  path: string;
+  params: Record<string, any>;
+  body: any;
+  user: MockUser | null;
+  apiKey: MockApiKey | null;
+  idempotencyKey: string | null;
+  responseType?: string;
+}
+
+interface MockResult {
+  status: number;
+  data: unknown;
+  headers?: Record<string, string>;
+}
+
+const VALID_STATUSES = Object.keys(GIFT_STATUS_TRANSITIONS) as GiftStatus[];
+const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'send', 'configure'];
+const SORT_FIELDS: GiftSortField[] = ['created_at', 'updated_at', 'status', 'recipient_name'];
+
+// Fulfillment simulation timings
+const DISPATCH_AFTER_MS = 30 * 1000;
+const DELIVER_AFTER_MS = 2 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const newId = (prefix: string) => `${prefix}_${generateIdempotencyKey().replace(/-/g, '').slice(0, 16)}`;
+
+// Helper function to build a FastAPI-style error body
+const fail = (status: number, detail: unknown): MockResult => ({ status, data: { detail } });
+
+const INJECTED_FAULTS: Record<number, MockResult> = {
+  401: fail(401, 'Invalid or missing API key (injected)'),
+  403: fail(403, 'Not allowed to access this resource (injected)'),
+  409: fail(409, 'Conflicting request (injected)'),
+  413: fail(413, 'Request entity too large (injected)'),
+  429: { ...fail(429, 'Too many requests (injected)'), headers: { 'retry-after': '2' } },
+  500: fail(500, 'Internal server error (injected)')
+};
+
+const clampRate = (rate: number) => Math.min(1, Math.max(0, Number(rate) || 0));
+
+const validationError = (loc: string[], msg: string): MockResult =>
+  fail(422, [{ loc: ['body', ...loc], msg, type: 'value_error' }]);
+
+const ok = (data: unknown, status: number = 200): MockResult => ({ status, data });
+
+// Key record for a user's primary key: full access, no expiry
+const primaryKey = (user: MockUser): MockApiKey => ({
+  key_id: `key_${user.user_id}`,
+  user_id: user.user_id,
+  name: 'Primary key',
+  api_key: user.api_key,
+  scopes: API_KEY_SCOPES,
+  created_at: user.created_at,
+  last_used_at: null,
+  expires_at: null,
+  revoked_at: null
+});
+
+const isKeyExpired = (key: MockApiKey) => Boolean(key.expires_at && new Date(key.expires_at).getTime() <= Date.now());
+
+const publicApiKey = (key: MockApiKey, current: MockApiKey | null): ApiKey => ({
+  key_id: key.key_id,
+  name: key.name,
+  masked_key: maskApiKey(key.api_key),
+  scopes: key.scopes,
+  created_at: key.created_at,
+  last_used_at: key.last_used_at,
+  expires_at: key.expires_at,
+  revoked_at: key.revoked_at,
+  is_current: key.key_id === current?.key_id
+});
+
+// Fill in collections missing from seeds and older persisted state. Users
+// from before keys were tracked separately get their primary key record.
+const normalizeState = (state: MockBackendState): MockBackendState => {
+  const apiKeys = state.apiKeys ?? [];
+  const missing = state.users.filter(user => !apiKeys.some(key => key.user_id === user.user_id));
+  // Gifts persisted before status histories start from their current status
+  const gifts = state.gifts.map(gift => gift.status_history
+    ? gift
+    : { ...gift, status_history: [{ status: gift.status, changed_at: gift.updated_at || gift.created_at }] });
+  return { ...state, apiKeys: [...apiKeys, ...missing.map(primaryKey)], invitations: state.invitations ?? [], gifts };
+};
+
+// Gifts and settings belong to the team, so every member sees the same data
+const teamOf = (user: MockUser) => user.team_id ?? user.user_id;
+
+const toTeamMember = (user: MockUser, current: MockUser): TeamMember => ({
+  member_id: user.user_id,
+  email: user.email,
+  full_name: user.full_name,
+  role: resolveRole(user),
+  status: 'active',
+  invited_at: null,
+  joined_at: user.created_at,
+  last_active_at: user.last_active_at ?? null,
+  is_current: user.user_id === current.user_id
+});
+
+const invitedMember = (invitation: MockInvitation): TeamMember => ({
+  member_id: invitation.invitation_id,
+  email: invitation.email,
+  full_name: '',
+  role: invitation.role,
+  status: 'invited',
+  invited_at: invitation.invited_at,
+  joined_at: null,
+  last_active_at: null,
+  is_current: false
+});
+
+// Team changes need the admin role, like the dashboard's own checks
+const requireTeamAdmin = (user: MockUser): MockResult | null =>
+  resolveRole(user) === 'admin' ? null : fail(403, 'Only team admins can manage members');
+
+interface MockGiftFields {
+  name: string;
+  email: string;
+  phone?: string;
+  address?: SenderAddress;
+  type: string;
+  templateId?: string;
+  message?: string;
+  deliveryDate?: string;
+  campaignId: string;
+  orderSource?: string;
+  returnAddress?: SenderAddress;
+}
+
+// Helper function to read the stored gift fields from an initiate request
+const giftFieldsOf = (request: GiftDataRequest, campaignId: string, orderSource?: string): MockGiftFields => ({
+  name: request.recipient.fullName.trim(),
+  email: request.recipient.email.trim(),
+  phone: request.recipient.phone,
+  address: request.recipient.address?.line1 ? request.recipient.address : undefined,
+  type: request.gift.type,
+  templateId: request.gift.templateId || undefined,
+  message: request.gift.message || undefined,
+  deliveryDate: request.gift.deliveryDate || undefined,
+  campaignId,
+  orderSource: orderSource || undefined
+});
+
+const initiatorOf = (user: MockUser): GiftInitiator => ({ user_id: user.user_id, full_name: user.full_name, email: user.email });
+
+const createGift = (user: MockUser, fields: MockGiftFields): MockGift => {
+  const now = new Date().toISOString();
+  return {
+    gift_id: newId('gift'),
+    user_id: teamOf(user),
+    recipient_name: fields.name,
+    recipient_email: fields.email,
+    gift_type: fields.type,
+    status: 'pending',
+    campaign_id: fields.campaignId,
+    verified: false,
+    created_at: now,
+    updated_at: now,
+    initiated_by: initiatorOf(user),
+    return_address: fields.returnAddress,
+    recipient: { full_name: fields.name, email: fields.email, phone: fields.phone },
+    gift: { type: fields.type },
+    meta: { campaign_id: fields.campaignId },
+    recipient_address: fields.address,
+    template_id: fields.templateId,
+    message: fields.message,
+    delivery_date: fields.deliveryDate,
+    order_source: fields.orderSource,
+    status_history: [{ status: 'pending', changed_at: now, changed_by: initiatorOf(user) }]
+  };
+};
+
+// Statuses each demo gift went through to reach its current one
+const DEMO_STATUS_PATHS: Record<GiftStatus, GiftStatus[]> = {
+  pending: ['pending'],
+  verified: ['pending', 'verified'],
+  dispatched: ['pending', 'verified', 'dispatched'],
+  delivered: ['pending', 'verified', 'dispatched', 'delivered'],
+  cancelled: ['pending', 'cancelled'],
+  failed: ['pending', 'verified', 'failed']
+};
+
+const DEMO_STATUS_NOTES: Partial<Record<GiftStatus, string>> = {
+  dispatched: 'Tracking number 1Z999AA10123456784',
+  cancelled: 'Recipient asked not to be contacted',
+  failed: 'Address undeliverable, returned to sender'
+};
+
+export function createDemoState(): MockBackendState {
+  const now = Date.now();
+  const demoUser: MockUser = {
+    user_id: 'user_demo',
+    email: 'demo@giftlib.dev',
+    full_name: 'Demo User',
+    company_name: 'GiftLib Demo Co.',
+    role: 'admin',
+    phone_number: '555-0100',
+    address: { line1: '1 Demo Way', city: 'Springfield', state: 'IL', zip: '62701', country: 'USA' },
+    api_key: MOCK_DEMO_API_KEY,
+    created_at: new Date(now - 30 * 24 * 3600 * 1000).toISOString()
+  };
+
+  const samples: Array<[string, string, string, GiftStatus, boolean, number]> = [
+    ['Ada Lovelace', 'ada@example.com', 'thank_you_card', 'delivered', true, 20],
+    ['Grace Hopper', 'grace@example.com', 'birthday_card', 'dispatched', true, 9],
+    ['Alan Turing', 'alan@example.com', 'congratulations_card', 'verified', true, 4],
+    ['Katherine Johnson', 'katherine@example.com', 'holiday_card', 'pending', false, 2],
+    ['Edsger Dijkstra', 'edsger@example.com', 'thank_you_card', 'cancelled', false, 12],
+    ['Barbara Liskov', 'barbara@example.com', 'thank_you_card', 'failed', true, 6]
+  ];
+
+  const gifts = samples.map(([name, email, type, status, verified, daysAgo], index): MockGift => {
+    const createdAt = now - daysAgo * 24 * 3600 * 1000;
+    const campaignId = index % 2 === 0 ? 'DEMO-WELCOME' : 'DEMO-HOLIDAY';
+    // One status change per day after the gift was created
+    const statusHistory = DEMO_STATUS_PATHS[status].map((pathStatus, step) => ({
+      status: pathStatus,
+      changed_at: new Date(createdAt + step * 24 * 3600 * 1000).toISOString(),
+      notes: DEMO_STATUS_NOTES[pathStatus],
+      changed_by: pathStatus === 'delivered' ? undefined : initiatorOf(demoUser)
+    }));
+    const updatedAt = statusHistory[statusHistory.length - 1].changed_at;
+    return {
+      ...createGift(demoUser, {
+        name,
+        email,
+        address: { line1: `${index + 1} Example Street`, city: 'Portland', state: 'OR', zip: '97201', country: 'USA' },
+        type,
+        templateId: 'template1',
+        message: `Thank you, ${name.split(' ')[0]}!`,
+        campaignId,
+        orderSource: 'Demo data',
+        returnAddress: demoUser.address
+      }),
+      gift_id: `gift_demo_${index + 1}`,
+      status,
+      verified,
+      verified_at: verified ? statusHistory[1]?.changed_at : undefined,
+      created_at: new Date(createdAt).toISOString(),
+      updated_at: updatedAt,
+      status_history: statusHistory
+    };
+  });
+
+  return {
+    users: [demoUser],
+    apiKeys: [primaryKey(demoUser)],
+    invitations: [],
+    gifts,
+    emailConfig: {},
+    fulfillmentConfig: {},
+    idempotency: {},
+    startedAt: new Date(now).toISOString()
+  };
+}
+
+const emptyState = (): MockBackendState => ({
+  users: [],
+  apiKeys: [],
+  invitations: [],
+  gifts: [],
+  emailConfig: {},
+  fulfillmentConfig: {},
+  idempotency: {},
+  startedAt: new Date().toISOString()
+});
+
+// Helper function to read a body that axios has already serialized
+const parseBody = (data: unknown): any => {
+  if (typeof data === 'string') {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return data;
+    }
+  }
+  return data;
+};
+
+const formValue = (body: any, field: string): string => {
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    const value = body.get(field);
+    return typeof value === 'string' ? value.trim() : '';
+  }
+  return typeof body?.[field] === 'string' ? body[field].trim() : '';
+};
+
+const REQUIRED_ADDRESS_FIELDS = ['line1', 'city', 'state', 'zip'] as const;
+
+// Sender addresses arrive as JSON, or JSON-encoded in the createUser form.
+// Returns a 422 result when the address is malformed or incomplete.
+const readSenderAddress = (value: unknown): SenderAddress | MockResult => {
+  let address: any = value;
+  if (typeof value === 'string') {
+    try {
+      address = JSON.parse(value);
+    } catch {
+      return validationError(['address'], 'value is not valid JSON');
+    }
+  }
+  if (typeof address !== 'object' || address === null) {
+    return validationError(['address'], 'value is not a valid dict');
+  }
+  const missing = REQUIRED_ADDRESS_FIELDS.find(field => typeof address[field] !== 'string' || !address[field].trim());
+  if (missing) return validationError(['address', missing], 'field required');
+  return {
+    line1: address.line1.trim(),
+    line2: typeof address.line2 === 'string' && address.line2.trim() ? address.line2.trim() : undefined,
+    city: address.city.trim(),
+    state: address.state.trim(),
+    zip: address.zip.trim(),
+    country: typeof address.country === 'string' && address.country.trim() ? address.country.trim() : 'USA'
+  };
+};
+
+const isMockResult = (value: SenderAddress | MockResult): value is MockResult => 'status' in value;
+
+const toProfile = ({ api_key: _apiKey, ...profile }: MockUser) => profile;
+
+// Gifts submitted by the dashboard use the GiftDataRequest shape
+const validateGiftRequest = (gift: GiftDataRequest | undefined): string | null => {
+  if (!gift?.recipient?.fullName?.trim()) return 'Recipient full name is required';
+  if (!gift.recipient.email || !isValidEmail(gift.recipient.email)) return 'A valid recipient email is required';
+  if (!gift.gift?.type) return 'Gift type is required';
+  return null;
+};
+
+const validateFulfillmentConfig = (config: Partial<FulfillmentConfig> | undefined): MockResult | null => {
+  try {
+    new URL(config?.api_url ?? '');
+  } catch {
+    return validationError(['api_url'], 'invalid or missing URL');
+  }
+  if (!config?.api_key) return validationError(['api_key'], 'field required');
+  return null;
+};
+
+const toGiftQuery = (params: Record<string, any>): GiftQuery => ({
+  status: VALID_STATUSES.includes(params.status) ? params.status : undefined,
+  campaignId: params.campaign_id || undefined,
+  search: params.search || undefined,
+  createdFrom: params.created_from || undefined,
+  createdTo: params.created_to || undefined,
+  sortBy: SORT_FIELDS.includes(params.sort_by) ? params.sort_by : DEFAULT_GIFT_QUERY.sortBy,
+  sortDirection: (params.sort_dir === 'asc' ? 'asc' : 'desc') as SortDirection,
+  pageSize: Math.min(Number(params.page_size) || Number(params.limit) || LEGACY_GIFT_LIMIT, LEGACY_GIFT_LIMIT),
+  cursor: params.cursor || null
+});
+
+// Lists leave out the status history; GET /api/gifts/{id} includes it
+const publicGift = ({ user_id: _userId, status_history: _history, ...gift }: MockGift): Gift => gift;
+
+const giftDetail = ({ user_id: _userId, ...gift }: MockGift): GiftDetail => gift;
+
+const readSpreadsheet = async (file: Blob): Promise<Record<string, unknown>[]> => {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  return sheet ? XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '' }) : [];
+};
+
+const buildTemplate = async (): Promise<ArrayBuffer> => {
+  const XLSX = await import('xlsx');
+  const sheet = XLSX.utils.aoa_to_sheet([
+    EXCEL_TEMPLATE_COLUMNS,
+    ['Jane Doe', 'jane@example.com', '555-0100', '1 Main St', '', 'Springfield', 'IL', '62701', 'USA',
+      'thank_you_card', 'template1', 'Thanks for being a customer!', '']
+  ]);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Gifts');
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+};
+
+export function createMockBackend({
+  storageKey = null,
+  seed,
+  latencyMs = 0,
+  simulateFulfillment = false,
+  faultsStorageKey = null
+}: MockBackendOptions = {}): MockBackend {
+  const initialState = (): MockBackendState => ({ ...(seed ? emptyState() : createDemoState()), ...seed });
+
+  let state: MockBackendState = normalizeState((storageKey && storage.get(storageKey)) || initialState());
+
+  let faults: MockFaultConfig = (faultsStorageKey && storage.get(faultsStorageKey)) || DEFAULT_MOCK_FAULTS;
+
+  // Roll the per-item failure rate for bulk requests and Excel rows
+  const failsBulkItem = () => Math.random() < clampRate(faults.bulkFailureRate);
+
+  const save = () => {
+    if (storageKey) {
+      storage.set(storageKey, state);
+    }
+  };
+
+  // Move verified gifts through the fulfillment pipeline based on elapsed time
+  const advanceFulfillment = () => {
+    if (!simulateFulfillment) return;
+    const now = Date.now();
+    let changed = false;
+    state.gifts.forEach(gift => {
+      if (!state.fulfillmentConfig[gift.user_id]) return;
+      const since = now - new Date(gift.updated_at || gift.created_at).getTime();
+      if (gift.status === 'verified' && since >= DISPATCH_AFTER_MS) {
+        setStatus(gift, 'dispatched', undefined, 'Picked up by the fulfillment provider');
+        changed = true;
+      } else if (gift.status === 'dispatched' && since >= DELIVER_AFTER_MS) {
+        setStatus(gift, 'delivered', undefined, 'Delivered by the fulfillment provider');
+        changed = true;
+      }
+    });
+    if (changed) save();
+  };
+
+  const findGift = (user: MockUser, giftId: string) =>
+    state.gifts.find(gift => gift.gift_id === giftId && gift.user_id === teamOf(user));
+
+  // Members without their own sender address use the team owner's
+  const senderAddressOf = (user: MockUser) =>
+    user.address ?? state.users.find(owner => owner.user_id === teamOf(user))?.address;
+
+  // Every status change is appended to the gift's timeline
+  const setStatus = (gift: MockGift, status: GiftStatus, changedBy?: MockUser, notes?: string, forced = false) => {
+    gift.status = status;
+    gift.updated_at = new Date().toISOString();
+    gift.status_history = [
+      ...(gift.status_history ?? []),
+      {
+        status,
+        changed_at: gift.updated_at,
+        notes: notes || undefined,
+        changed_by: changedBy && initiatorOf(changedBy),
+        forced: forced || undefined
+      }
+    ];
+  };
+
+  const handlers: Array<{
+    endpoint: MockEndpoint;
+    method: string;
+    pattern: RegExp;
+    auth: boolean;
+    // Key scope required; defaults to 'read' for GET and 'send' otherwise
+    scope?: ApiKeyScope;
+    handle: (request: MockRequest, match: RegExpMatchArray) => MockResult | Promise<MockResult>;
+  }> = [
+    {
+      endpoint: 'healthCheck',
+      method: 'get',
+      pattern: /^\/?$/,
+      auth: false,
+      handle: () => ok({
+        status: 'healthy',
+        timestamp: new Date().toISOString(),
+        version: 'mock',
+        uptime: Math.round((Date.now() - new Date(state.startedAt).getTime()) / 1000),
+        database: { status: 'healthy', response_time: 1 },
+        email_service: { status: 'healthy', provider: 'mock' },
+        fulfillment_service: { status: 'healthy', provider: 'mock' }
+      })
+    },
+    {
+      endpoint: 'createUser',
+      method: 'post',
+      pattern: /^\/api\/users$/,
+      auth: false,
+      handle: ({ body }) => {
+        const email = formValue(body, 'email');
+        const fullName = formValue(body, 'full_name');
+        if (!isValidEmail(email)) return validationError(['email'], 'value is not a valid email address');
+        if (!fullName) return validationError(['full_name'], 'field required');
+        if (state.users.some(user => user.email.toLowerCase() === email.toLowerCase())) {
+          return fail(409, 'A user with this email already exists');
+        }
+        const address = formValue(body, 'address') ? readSenderAddress(formValue(body, 'address')) : undefined;
+        if (address && isMockResult(address)) return address;
+
+        const user: MockUser = {
+          user_id: newId('user'),
+          email,
+          full_name: fullName,
+          company_name: formValue(body, 'company_name') || undefined,
+          phone_number: formValue(body, 'phone_number') || undefined,
+          address,
+          api_key: newId('gl_mock'),
+          created_at: new Date().toISOString()
+        };
+        state.users.push(user);
+        state.apiKeys.push(primaryKey(user));
+        return ok(user, 201);
+      }
+    },
+    {
+      endpoint: 'getUserProfile',
+      method: 'get',
+      pattern: /^\/api\/user\/profile$/,
+      auth: true,
+      handle: ({ user }) => ok(toProfile(user!))
+    },
+    {
+      endpoint: 'updateUserProfile',
+      method: 'put',
+      pattern: /^\/api\/user\/profile$/,
+      auth: true,
+      scope: 'configure',
+      handle: ({ user, body }) => {
+        const request = body as Partial<UpdateUserProfileRequest> | undefined;
+        const fullName = typeof request?.full_name === 'string' ? request.full_name.trim() : '';
+        if (!fullName) return validationError(['full_name'], 'field required');
+
+        // The company name is shared by the whole team
+        const companyName = typeof request?.company_name === 'string' ? request.company_name.trim() || undefined : user!.company_name;
+        if (companyName !== user!.company_name) {
+          if (resolveRole(user!) !== 'admin') return fail(403, 'Only team admins can change the company name');
+          state.users
+            .filter(member => teamOf(member) === teamOf(user!))
+            .forEach(member => { member.company_name = companyName; });
+        }
+
+        if (request?.address === null) {
+          user!.address = undefined;
+        } else if (request?.address !== undefined) {
+          const address = readSenderAddress(request.address);
+          if (isMockResult(address)) return address;
+          user!.address = address;
+        }
+        if (typeof request?.phone_number === 'string') {
+          user!.phone_number = request.phone_number.trim() || undefined;
+        }
+        user!.full_name = fullName;
+        return ok(toProfile(user!));
+      }
+    },
+    {
+      endpoint: 'initiateGift',
+      method: 'post',
+      pattern: /^\/api\/initiate-gift$/,
+      auth: true,
+      handle: ({ user, body }) => {
+        const request = body as GiftDataRequest;
+        const error = validateGiftRequest(request);
+        if (error) return validationError(['recipient'], error);
+
+        const gift = createGift(user!, {
+          ...giftFieldsOf(request, request.meta?.campaignId || '', request.meta?.orderSource),
+          returnAddress: senderAddressOf(user!)
+        });
+        state.gifts.push(gift);
+        return ok({ success: true, giftId: gift.gift_id, status: gift.status }, 201);
+      }
+    },
+    {
+      endpoint: 'bulkInitiateGifts',
+      method: 'post',
+      pattern: /^\/api\/bulk-initiate-gifts$/,
+      auth: true,
+      handle: ({ user, body }) => {
+        const bulk = body as BulkGiftData;
+        if (!Array.isArray(bulk?.gifts) || bulk.gifts.length === 0) {
+          return validationError(['gifts'], 'At least one gift is required');
+        }
+
+        const results = bulk.gifts.map(request => {
+          const error = validateGiftRequest(request)
+            ?? (failsBulkItem() ? 'Fulfillment provider rejected the recipient (injected)' : null);
+          if (error) {
+            return { success: false, error: `${request?.recipient?.email || 'Unknown recipient'}: ${error}` };
+          }
+          const gift = createGift(user!, {
+            ...giftFieldsOf(
+              request,
+              request.meta?.campaignId || bulk.meta?.campaignId || '',
+              request.meta?.orderSource || bulk.meta?.orderSource
+            ),
+            returnAddress: senderAddressOf(user!)
+          });
+          state.gifts.push(gift);
+          return { success: true, giftId: gift.gift_id };
+        });
+
+        const successfulGifts = results.filter(result => result.success).length;
+        return ok({
+          success: successfulGifts > 0,
+          totalGifts: results.length,
+          successfulGifts,
+          failedGifts: results.length - successfulGifts,
+          results
+        });
+      }
+    },
+    {
+      endpoint: 'listGifts',
+      method: 'get',
+      pattern: /^\/api\/gifts$/,
+      auth: true,
+      handle: ({ user, params }) => {
+        const query = toGiftQuery(params);
+        const page = paginateGiftsLocally(
+          state.gifts.filter(gift => gift.user_id === teamOf(user!)).map(publicGift),
+          query
+        );
+        return ok({
+          success: true,
+          gifts: page.gifts,
+          total_count: page.totalCount,
+          next_cursor: page.nextCursor
+        });
+      }
+    },
+    {
+      endpoint: 'getCampaignGifts',
+      method: 'get',
+      pattern: /^\/api\/campaign-gifts\/([^/]+)$/,
+      auth: true,
+      handle: ({ user }, match) => {
+        const campaignId = decodeURIComponent(match[1]);
+        const gifts = state.gifts
+          .filter(gift => gift.user_id === teamOf(user!) && gift.campaign_id === campaignId)
+          .map(publicGift);
+        if (gifts.length === 0) return fail(404, `Campaign ${campaignId} not found`);
+        return ok({ success: true, totalGifts: gifts.length, gifts });
+      }
+    },
+    {
+      endpoint: 'getGift',
+      method: 'get',
+      pattern: /^\/api\/gifts\/([^/]+)$/,
+      auth: true,
+      handle: ({ user }, match) => {
+        const gift = findGift(user!, decodeURIComponent(match[1]));
+        if (!gift) return fail(404, `Gift ${match[1]} not found`);
+        return ok({ success: true, gift: giftDetail(gift) });
+      }
+    },
+    {
+      endpoint: 'updateGiftStatus',
+      method: 'put',
+      pattern: /^\/api\/gift-status$/,
+      auth: true,
+      handle: ({ user, body }) => {
+        const status = body?.status as GiftStatus;
+        if (!VALID_STATUSES.includes(status)) {
+          return validationError(['status'], `Status must be one of: ${VALID_STATUSES.join(', ')}`);
+        }
+        const gift = findGift(user!, body?.giftId);
+        if (!gift) return fail(404, `Gift ${body?.giftId} not found`);
+        if (gift.status === status) {
+          return ok({ success: true, message: `Gift is already ${status}` });
+        }
+
+        const notes = typeof body?.notes === 'string' ? body.notes.trim() : '';
+        const force = body?.force === true;
+        if (force && !hasPermission(resolveRole(user!), 'gifts:force_status')) {
+          return fail(403, 'Your role is not allowed to force a status change');
+        }
+        if (requiresStatusReason(status, force) && !notes) {
+          return validationError(['notes'], force
+            ? 'A reason is required to force a status change'
+            : `A reason is required to mark a gift ${status}`);
+        }
+        if (!force && !canTransitionGiftStatus(gift.status, status)) {
+          return fail(409, `Cannot change status from ${gift.status} to ${status}`);
+        }
+
+        setStatus(gift, status, user!, notes, force);
+        return ok({ success: true, message: `Gift status updated to ${status}`, data: publicGift(gift) });
+      }
+    },
+    {
+      endpoint: 'getGiftStatus',
+      method: 'get',
+      pattern: /^\/api\/gift-status\/([^/]+)$/,
+      auth: true,
+      handle: ({ user }, match) => {
+        const gift = findGift(user!, decodeURIComponent(match[1]));
+        if (!gift) return fail(404, `Gift ${match[1]} not found`);
+        return ok({ giftId: gift.gift_id, status: gift.status, verified: gift.verified });
+      }
+    },
+    {
+      endpoint: 'verifyGift',
+      method: 'post',
+      pattern: /^\/api\/verify-gift$/,
+      auth: true,
+      handle: ({ user, body }) => {
+        const gift = findGift(user!, body?.giftId);
+        if (!gift) return fail(404, `Gift ${body?.giftId} not found`);
+        if (gift.status === 'cancelled' || gift.status === 'failed') {
+          return fail(409, `Cannot verify a ${gift.status} gift`);
+        }
+
+        gift.verified = Boolean(body?.verified);
+        gift.verified_at = gift.verified ? new Date().toISOString() : undefined;
+        gift.updated_at = new Date().toISOString();
+        // Verifying a pending gift releases it to fulfillment
+        if (gift.verified && gift.status === 'pending') {
+          setStatus(gift, 'verified', user!, 'Verified by the recipient');
+        }
+        return ok({ success: true, message: gift.verified ? 'Gift verified' : 'Gift marked unverified' });
+      }
+    },
+    {
+      endpoint: 'downloadExcelTemplate',
+      method: 'get',
+      pattern: /^\/api\/download-excel-template$/,
+      auth: true,
+      handle: async ({ responseType }) => {
+        const buffer = await buildTemplate();
+        const data = responseType === 'blob' && typeof Blob !== 'undefined'
+          ? new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' })
+          : buffer;
+        return ok(data);
+      }
+    },
+    {
+      endpoint: 'uploadExcelFile',
+      method: 'post',
+      pattern: /^\/api\/upload-excel$/,
+      auth: true,
+      handle: async ({ user, body }) => {
+        const file = typeof FormData !== 'undefined' && body instanceof FormData ? body.get('file') : null;
+        if (!file || typeof file === 'string') return validationError(['file'], 'field required');
+        if (file.size > MAX_UPLOAD_BYTES) return fail(413, 'File exceeds the 10MB upload limit');
+
+        let rows: Record<string, unknown>[];
+        try {
+          rows = await readSpreadsheet(file);
+        } catch {
+          return fail(400, 'Could not read the uploaded file as a spreadsheet');
+        }
+
+        const campaignId = formValue(body, 'campaign_id');
+        const giftIds: string[] = [];
+        const errors: string[] = [];
+        rows.forEach((row, index) => {
+          const rowNumber = index + 2; // Header is row 1
+          const name = String(row.recipient_name ?? '').trim();
+          const email = String(row.recipient_email ?? '').trim();
+          if (!name) {
+            errors.push(`Row ${rowNumber}: recipient_name is required`);
+          } else if (!isValidEmail(email)) {
+            errors.push(`Row ${rowNumber}: recipient_email is not a valid email`);
+          } else if (failsBulkItem()) {
+            errors.push(`Row ${rowNumber}: Fulfillment provider rejected the recipient (injected)`);
+          } else {
+            const cell = (column: string) => String(row[column] ?? '').trim() || undefined;
+            const gift = createGift(user!, {
+              name,
+              email,
+              phone: cell('recipient_phone'),
+              address: cell('address_line1') ? {
+                line1: cell('address_line1')!,
+                line2: cell('address_line2'),
+                city: cell('city') ?? '',
+                state: cell('state') ?? '',
+                zip: cell('zip') ?? '',
+                country: cell('country') ?? 'USA'
+              } : undefined,
+              type: cell('gift_type') || 'thank_you_card',
+              templateId: cell('template_id'),
+              message: cell('message'),
+              deliveryDate: cell('delivery_date'),
+              campaignId,
+              orderSource: 'Excel upload',
+              returnAddress: senderAddressOf(user!)
+            });
+            state.gifts.push(gift);
+            giftIds.push(gift.gift_id);
+          }
+        });
+
+        return ok({
+          success: giftIds.length > 0,
+          totalRows: rows.length,
+          processedGifts: giftIds.length,
+          invalidRows: errors.length,
+          giftIds,
+          errors
+        });
+      }
+    },
+    {
+      endpoint: 'getEmailConfig',
+      method: 'get',
+      pattern: /^\/api\/email-config$/,
+      auth: true,
+      handle: ({ user }) => {
+        const config = state.emailConfig[teamOf(user!)];
+        return ok({
+          resend_configured: Boolean(config?.resend_api_key),
+          from_email_configured: Boolean(config?.from_email),
+          sending_domain_configured: Boolean(config?.sending_domain),
+          from_email: config?.from_email,
+          sending_domain: config?.sending_domain,
+          is_custom_config: Boolean(config),
+          email_enabled: Boolean(config?.resend_api_key && config?.from_email),
+          resend_api_key: config?.resend_api_key
+        });
+      }
+    },
+    {
+      endpoint: 'updateEmailConfig',
+      method: 'post',
+      pattern: /^\/api\/email-config$/,
+      auth: true,
+      scope: 'configure',
+      handle: ({ user, body }) => {
+        const config: EmailConfig = {
+          resend_api_key: formValue(body, 'resend_api_key'),
+          from_email: formValue(body, 'from_email'),
+          sending_domain: formValue(body, 'sending_domain') || undefined
+        };
+        if (!config.resend_api_key) return validationError(['resend_api_key'], 'field required');
+        if (!isValidEmail(config.from_email)) return validationError(['from_email'], 'value is not a valid email address');
+
+        state.emailConfig[teamOf(user!)] = config;
+        return ok({ success: true, message: 'Email configuration updated' });
+      }
+    },
+    {
+      endpoint: 'testEmailConfig',
+      method: 'post',
+      pattern: /^\/api\/email-config\/test$/,
+      auth: true,
+      scope: 'configure',
+      handle: ({ user, body }) => {
+        const testEmail = formValue(body, 'test_email');
+        if (!isValidEmail(testEmail)) return validationError(['test_email'], 'value is not a valid email address');
+        if (!state.emailConfig[teamOf(user!)]) return fail(400, 'Email is not configured');
+        return ok({ success: true, message: `Test email sent to ${testEmail}` });
+      }
+    },
+    {
+      endpoint: 'getFulfillmentConfig',
+      method: 'get',
+      pattern: /^\/api\/fulfillment-config$/,
+      auth: true,
+      handle: ({ user }) => {
+        const config = state.fulfillmentConfig[teamOf(user!)];
+        return ok({ api_url: config?.api_url ?? '', api_key: config?.api_key ?? '', configured: Boolean(config) });
+      }
+    },
+    {
+      endpoint: 'updateFulfillmentConfig',
+      method: 'post',
+      pattern: /^\/api\/fulfillment-config$/,
+      auth: true,
+      scope: 'configure',
+      handle: ({ user, body }) => {
+        const error = validateFulfillmentConfig(body);
+        if (error) return error;
+        state.fulfillmentConfig[teamOf(user!)] = { api_url: body.api_url, api_key: body.api_key };
+        return ok({ success: true, message: 'Fulfillment configuration updated' });
+      }
+    },
+    {
+      endpoint: 'testFulfillmentConfig',
+      method: 'post',
+      pattern: /^\/api\/fulfillment-config\/test$/,
+      auth: true,
+      scope: 'configure',
+      handle: ({ body }) => {
+        const error = validateFulfillmentConfig(body);
+        if (error) return error;
+        return ok({ success: true, message: `Connected to ${new URL(body.api_url).host}` });
+      }
+    },
+    {
+      endpoint: 'listApiKeys',
+      method: 'get',
+      pattern: /^\/api\/api-keys$/,
+      auth: true,
+      scope: 'configure',
+      handle: ({ user, apiKey }) => {
+        const keys = state.apiKeys
+          .filter(key => key.user_id === user!.user_id)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map(key => publicApiKey(key, apiKey));
+        return ok({ success: true, keys });
+      }
+    },
+    {
+      endpoint: 'createApiKey',
+      method: 'post',
+      pattern: /^\/api\/api-keys$/,
+      auth: true,
+      scope: 'configure',
+      handle: ({ user, apiKey, body }) => {
+        const name = typeof body?.name === 'string' ? body.name.trim() : '';
+        const scopes: unknown[] = Array.isArray(body?.scopes) ? body.scopes : [];
+        if (!name) return validationError(['name'], 'field required');
+        if (scopes.length === 0 || scopes.some(scope => !API_KEY_SCOPES.includes(scope as ApiKeyScope))) {
+          return validationError(['scopes'], `Scopes must be one or more of: ${API_KEY_SCOPES.join(', ')}`);
+        }
+        const expiresAt = body?.expires_at ? new Date(body.expires_at) : null;
+        if (expiresAt && (Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now())) {
+          return validationError(['expires_at'], 'must be a future date');
+        }
+
+        const key: MockApiKey = {
+          key_id: newId('key'),
+          user_id: user!.user_id,
+          name,
+          api_key: newId('gl_mock'),
+          scopes: API_KEY_SCOPES.filter(scope => scopes.includes(scope)),
+          created_at: new Date().toISOString(),
+          last_used_at: null,
+          expires_at: expiresAt?.toISOString() ?? null,
+          revoked_at: null
+        };
+        state.apiKeys.push(key);
+        return ok({ key: publicApiKey(key, apiKey), api_key: key.api_key }, 201);
+      }
+    },
+    {
+      endpoint: 'rotateApiKey',
+      method: 'post',
+      pattern: /^\/api\/api-keys\/rotate$/,
+      auth: true,
+      scope: 'configure',
+      handle: ({ user, apiKey }) => {
+        const current = apiKey!;
+        const now = new Date().toISOString();
+        const key: MockApiKey = {
+          ...current,
+          key_id: newId('key'),
+          api_key: newId('gl_mock'),
+          created_at: now,
+          last_used_at: null
+        };
+        current.revoked_at = now;
+        if (user!.api_key === current.api_key) {
+          user!.api_key = key.api_key;
+        }
+        state.apiKeys.push(key);
+        return ok({ key: publicApiKey(key, key), api_key: key.api_key }, 201);
+      }
+    },
+    {
+      endpoint: 'revokeApiKey',
+      method: 'delete',
+      pattern: /^\/api\/api-keys\/([^/]+)$/,
+      auth: true,
+      scope: 'configure',
+      handle: ({ user, apiKey }, match) => {
+        const keyId = decodeURIComponent(match[1]);
+        const key = state.apiKeys.find(saved => saved.key_id === keyId && saved.user_id === user!.user_id);
+        if (!key) return fail(404, `API key ${keyId} not found`);
+        if (key.key_id === apiKey?.key_id) {
+          return fail(409, 'This request was made with that key; rotate it instead of revoking it');
+        }
+        if (!key.revoked_at) {
+          key.revoked_at = new Date().toISOString();
+        }
+        return ok({ success: true, message: `API key ${key.name} revoked` });
+      }
+    },
+    {
+      endpoint: 'acceptInvitation',
+      method: 'post',
+      pattern: /^\/api\/team\/invitations\/accept$/,
+      auth: false,
+      handle: ({ body }) => {
+        const invitation = state.invitations.find(saved => saved.token === body?.token);
+        if (!invitation) return fail(404, 'This invitation is invalid or has already been used');
+        const fullName = typeof body?.full_name === 'string' ? body.full_name.trim() : '';
+        if (!fullName) return validationError(['full_name'], 'field required');
+
+        const owner = state.users.find(user => user.user_id === invitation.team_id);
+        const user: MockUser = {
+          user_id: newId('user'),
+          email: invitation.email,
+          full_name: fullName,
+          company_name: owner?.company_name,
+          role: invitation.role,
+          api_key: newId('gl_mock'),
+          created_at: new Date().toISOString(),
+          team_id: invitation.team_id
+        };
+        state.users.push(user);
+        state.apiKeys.push(primaryKey(user));
+        state.invitations = state.invitations.filter(saved => saved !== invitation);
+        return ok(user, 201);
+      }
+    },
+    {
+      endpoint: 'listTeamMembers',
+      method: 'get',
+      pattern: /^\/api\/team\/members$/,
+      auth: true,
+      handle: ({ user }) => {
+        const teamId = teamOf(user!);
+        const members = [
+          ...state.users.filter(member => teamOf(member) === teamId).map(member => toTeamMember(member, user!)),
+          ...state.invitations.filter(invitation => invitation.team_id === teamId).map(invitedMember)
+        ];
+        return ok({ success: true, members });
+      }
+    },
+    {
+      endpoint: 'inviteTeamMember',
+      method: 'post',
+      pattern: /^\/api\/team\/invitations$/,
+      auth: true,
+      scope: 'configure',
+      handle: ({ user, body }) => {
+        const denied = requireTeamAdmin(user!);
+        if (denied) return denied;
+        const email = typeof body?.email === 'string' ? body.email.trim() : '';
+        if (!isValidEmail(email)) return validationError(['email'], 'value is not a valid email address');
+        if (!ROLES.includes(body?.role)) return validationError(['role'], `Role must be one of: ${ROLES.join(', ')}`);
+        const teamId = teamOf(user!);
+        const taken = state.users.some(member => teamOf(member) === teamId && member.email.toLowerCase() === email.toLowerCase())
+          || state.invitations.some(invitation => invitation.team_id === teamId && invitation.email.toLowerCase() === email.toLowerCase());
+        if (taken) return fail(409, `${email} is already a member or has a pending invitation`);
+
+        const invitation: MockInvitation = {
+          invitation_id: newId('invite'),
+          team_id: teamId,
+          email,
+          role: body.role,
+          token: newId('invite_token'),
+          invited_at: new Date().toISOString()
+        };
+        state.invitations.push(invitation);
+        return ok({ member: invitedMember(invitation), invite_token: invitation.token }, 201);
+      }
+    },
+    {
+      endpoint: 'updateTeamMemberRole',
+      method: 'put',
+      pattern: /^\/api\/team\/members\/([^/]+)$/,
+      auth: true,
+      scope: 'configure',
+      handle: ({ user, body }, match) => {
+        const denied = requireTeamAdmin(user!);
+        if (denied) return denied;
+        if (!ROLES.includes(body?.role)) return validationError(['role'], `Role must be one of: ${ROLES.join(', ')}`);
+        const memberId = decodeURIComponent(match[1]);
+        if (memberId === user!.user_id) return fail(409, 'You cannot change your own role');
+
+        const teamId = teamOf(user!);
+        const invitation = state.invitations.find(saved => saved.invitation_id === memberId && saved.team_id === teamId);
+        if (invitation) {
+          invitation.role = body.role;
+          return ok(invitedMember(invitation));
+        }
+        const member = state.users.find(saved => saved.user_id === memberId && teamOf(saved) === teamId);
+        if (!member) return fail(404, `Team member ${memberId} not found`);
+        member.role = body.role;
+        return ok(toTeamMember(member, user!));
+      }
+    },
+    {
+      endpoint: 'removeTeamMember',
+      method: 'delete',
+      pattern: /^\/api\/team\/members\/([^/]+)$/,
+      auth: true,
+      scope: 'configure',
+      handle: ({ user }, match) => {
+        const denied = requireTeamAdmin(user!);
+        if (denied) return denied;
+        const memberId = decodeURIComponent(match[1]);
+        if (memberId === user!.user_id) return fail(409, 'You cannot remove yourself from the team');
+
+        const teamId = teamOf(user!);
+        const invitation = state.invitations.find(saved => saved.invitation_id === memberId && saved.team_id === teamId);
+        if (invitation) {
+          state.invitations = state.invitations.filter(saved => saved !== invitation);
+          return ok({ success: true, message: `Invitation for ${invitation.email} cancelled` });
+        }
+        const member = state.users.find(saved => saved.user_id === memberId && teamOf(saved) === teamId);
+        if (!member) return fail(404, `Team member ${memberId} not found`);
+        if (member.user_id === teamId) return fail(409, 'The team owner cannot be removed');
+
+        // Their gifts stay with the team; their keys stop working
+        const now = new Date().toISOString();
+        state.users = state.users.filter(saved => saved !== member);
+        state.apiKeys.forEach(key => {
+          if (key.user_id === member.user_id && !key.revoked_at) key.revoked_at = now;
+        });
+        return ok({ success: true, message: `${member.full_name} removed from the team` });
+      }
+    }
+  ];
+
+  const findRoute = (request: MockRequest) => handlers
+    .map(handler => ({ handler, match: handler.method === request.method ? request.path.match(handler.pattern) : null }))
+    .find(candidate => candidate.match);
+
+  const dispatch = async (request: MockRequest): Promise<MockResult> => {
+    const route = findRoute(request);
+    if (!route) {
+      return fail(404, 'Not Found');
+    }
+    if (route.handler.auth && !request.user) {
+      return fail(401, 'Invalid or missing API key');
+    }
+    if (request.apiKey && isKeyExpired(request.apiKey)) {
+      return fail(401, 'API key has expired');
+    }
+    const scope = route.handler.scope ?? (request.method === 'get' ? 'read' : 'send');
+    if (route.handler.auth && !request.apiKey!.scopes.includes(scope)) {
+      return fail(403, `This API key does not have the ${scope} scope`);
+    }
+    if (request.apiKey) {
+      request.apiKey.last_used_at = new Date().toISOString();
+      request.user!.last_active_at = request.apiKey.last_used_at;
+    }
+
+    advanceFulfillment();
+
+    // Replay the stored response for a reused idempotency key
+    const replayKey = request.user && request.idempotencyKey ? `${request.user.user_id}:${request.idempotencyKey}` : null;
+    if (replayKey && state.idempotency[replayKey]) {
+      const stored = state.idempotency[replayKey];
+      return { ...stored, headers: { 'idempotent-replayed': 'true' } };
+    }
+
+    const result = await route.handler.handle(request, route.match!);
+    if (replayKey && result.status < 500) {
+      state.idempotency[replayKey] = { status: result.status, data: result.data };
+    }
+    if (request.method !== 'get') {
+      save();
+    }
+    return result;
+  };
+
+  const adapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+    const delay = latencyMs + Math.max(0, Number(faults.latencyMs) || 0);
+    if (delay > 0) {
+      await sleep(delay);
+    }
+
+    const headers = AxiosHeaders.from(config.headers);
+    const apiKey = headers.get('X-API-Key');
+    const path = (config.url || '/').replace(/^[a-z]+:\/\/[^/]+/i, '').split('?')[0];
+    const key = state.apiKeys.find(saved => typeof apiKey === 'string' && saved.api_key === apiKey && !saved.revoked_at) || null;
+    const request: MockRequest = {
+      method: (config.method || 'get').toLowerCase(),
+      path,
+      params: config.params || {},
+      body: parseBody(config.data),
+      user: state.users.find(user => user.user_id === key?.user_id) || null,
+      apiKey: key,
+      idempotencyKey: (headers.get('Idempotency-Key') as string | undefined) || null,
+      responseType: config.responseType
+    };
+
+    // Injected faults fire before the handler, so no state changes
+    const endpoint = findRoute(request)?.handler.endpoint;
+    const fault = endpoint ? faults.endpoints[endpoint] : undefined;
+    const injected = fault && Math.random() < clampRate(fault.errorRate) ? fault.status : null;
+    if (injected === 'network') {
+      throw new AxiosError('Network Error (injected)', AxiosError.ERR_NETWORK, config, {});
+    }
+    if (injected === 'timeout') {
+      throw new AxiosError(`timeout of ${config.timeout}ms exceeded (injected)`, AxiosError.ECONNABORTED, config, {});
+    }
+
+    const result = injected ? INJECTED_FAULTS[injected] : await dispatch(request);
+
+    const response: AxiosResponse = {
+      data: result.data,
+      status: result.status,
+      statusText: String(result.status),
+      headers: AxiosHeaders.from({ 'x-request-id': newId('req'), ...result.headers }),
+      config,
+      request: {}
+    };
+
+    const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+    if (validateStatus(result.status)) {
+      return response;
+    }
+    throw new AxiosError(
+      `Request failed with status code ${result.status}`,
+      result.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  };
+
+  return {
+    adapter,
+    getState: () => state,
+    reset: (nextSeed?: Partial<MockBackendState>) => {
+      state = normalizeState(nextSeed ? { ...emptyState(), ...nextSeed } : initialState());
+      save();
+    },
+    getFaults: () => faults,
+    setFaults: (nextFaults: MockFaultConfig) => {
+      faults = nextFaults;
+      if (faultsStorageKey) {
+        storage.set(faultsStorageKey, faults);
+      }
+    }
+  };
+}
+
+let browserMockBackend: MockBackend | null = null;
+
+// Shared instance used by the "Local mock" environment, persisted across reloads
+export function getMockBackend(): MockBackend {
+  if (!browserMockBackend) {
+    browserMockBackend = createMockBackend({
+      storageKey: MOCK_STATE_STORAGE_KEY,
+      latencyMs: 150,
+      simulateFulfillment: true,
+      faultsStorageKey: MOCK_FAULTS_STORAGE_KEY
+    });
+  }
+  return browserMockBackend;
+}
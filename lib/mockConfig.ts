@@ -0,0 +1,5 @@
+// Constants for the offline mock environment that the rest of the app needs
+// without loading the mock backend itself (which is imported on demand)
+
+export const MOCK_BASE_URL = 'mock://giftlib';
+export const MOCK_DEMO_API_KEY = 'gl_mock_demo_key';
@@ -0,0 +1,55 @@
+import { OnboardingProgress, OnboardingStep, OnboardingStepStatus } from '@/types';
+import { getEnvironmentStorageKey } from '@/lib/environments';
+import { storage } from '@/lib/utils';
+
+// Guided setup for accounts created from the login page. Progress is kept in
+// localStorage per environment and account, so the wizard picks up where the
+// user left off after a reload or a later login.
+
+const ONBOARDING_STORAGE_KEY = 'giftlib_onboarding';
+
+export const ONBOARDING_STEPS: Array<{ id: OnboardingStep; title: string; description: string }> = [
+  { id: 'api_key', title: 'Save your API key', description: 'Keep the key shown at sign-up somewhere safe' },
+  { id: 'email', title: 'Email delivery', description: 'Save your Resend settings and send a test email' },
+  { id: 'fulfillment', title: 'Fulfillment', description: 'Connect your fulfillment provider and test it' },
+  { id: 'first_gift', title: 'First gift', description: 'Send a sandbox gift to yourself' },
+  { id: 'verify', title: 'Verify it', description: 'Accept the gift as the recipient would' }
+];
+
+const readAll = (): Record<string, OnboardingProgress> =>
+  storage.get(getEnvironmentStorageKey(ONBOARDING_STORAGE_KEY)) || {};
+
+const writeAll = (all: Record<string, OnboardingProgress>) => {
+  storage.set(getEnvironmentStorageKey(ONBOARDING_STORAGE_KEY), all);
+};
+
+export function getOnboarding(accountId: string): OnboardingProgress | null {
+  return readAll()[accountId] ?? null;
+}
+
+export function saveOnboarding(accountId: string, progress: OnboardingProgress) {
+  writeAll({ ...readAll(), [accountId]: progress });
+}
+
+// Called once the new account's key has been shown; the wizard opens after
+// the first login
+export function startOnboarding(accountId: string, apiKeyStep: OnboardingStepStatus) {
+  saveOnboarding(accountId, {
+    currentStep: 'email',
+    steps: { api_key: apiKeyStep },
+    checks: {},
+    dismissed: false,
+    startedAt: new Date().toISOString()
+  });
+}
+
+export function finishOnboarding(accountId: string) {
+  const { [accountId]: _finished, ...rest } = readAll();
+  writeAll(rest);
+}
+
+// The step after `step`, or null at the end of the wizard
+export function nextOnboardingStep(step: OnboardingStep): OnboardingStep | null {
+  const index = ONBOARDING_STEPS.findIndex(candidate => candidate.id === step);
+  return ONBOARDING_STEPS[index + 1]?.id ?? null;
+}
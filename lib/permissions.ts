@@ -0,0 +1,135 @@
+import { AppSection, UserInfo } from '@/types';
+
+// Role-based access: each role grants a set of permissions, and every
+// dashboard section and mutating endpoint requires one of them. The UI hides
+// or disables what a role can't do; the API client and the /api proxy
+// refuse the requests outright.
+
+export type Role = 'admin' | 'operator' | 'viewer';
+
+export type Permission =
+  | 'gifts:read'
+  | 'gifts:send'
+  | 'gifts:bulk'
+  | 'gifts:update_status'
+  | 'gifts:verify'
+  // Override the gift status transition rules
+  | 'gifts:force_status'
+  | 'config:email'
+  | 'config:fulfillment'
+  | 'account:manage'
+  | 'api:console';
+
+export const ROLES: Role[] = ['admin', 'operator', 'viewer'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  operator: 'Operator',
+  viewer: 'Viewer'
+};
+
+const ALL_PERMISSIONS: Permission[] = [
+  'gifts:read',
+  'gifts:send',
+  'gifts:bulk',
+  'gifts:update_status',
+  'gifts:verify',
+  'gifts:force_status',
+  'config:email',
+  'config:fulfillment',
+  'account:manage',
+  'api:console'
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: ALL_PERMISSIONS,
+  operator: ['gifts:read', 'gifts:send', 'gifts:bulk', 'gifts:update_status', 'gifts:verify', 'api:console'],
+  viewer: ['gifts:read']
+};
+
+// Permission needed to see each sidebar section
+export const SECTION_PERMISSIONS: Record<AppSection, Permission> = {
+  initiate: 'gifts:send',
+  management: 'gifts:read',
+  statistics: 'gifts:read',
+  bulk: 'gifts:bulk',
+  excel: 'gifts:bulk',
+  campaign: 'gifts:read',
+  status: 'gifts:update_status',
+  mock: 'gifts:verify',
+  email: 'config:email',
+  fulfillment: 'config:fulfillment',
+  api: 'gifts:read',
+  console: 'api:console',
+  keys: 'account:manage',
+  team: 'gifts:read',
+  profile: 'gifts:read'
+};
+
+// Mutating endpoints and the permission each requires; reads only need a
+// valid session. `escalate` names a stronger permission for requests whose
+// body asks for more, e.g. a forced status change.
+const ENDPOINT_PERMISSIONS: Array<{
+  method: string;
+  pattern: RegExp;
+  permission: Permission;
+  escalate?: { when: (body: any) => boolean; permission: Permission };
+}> = [
+  { method: 'post', pattern: /^\/api\/initiate-gift$/, permission: 'gifts:send' },
+  { method: 'post', pattern: /^\/api\/bulk-initiate-gifts$/, permission: 'gifts:bulk' },
+  { method: 'post', pattern: /^\/api\/upload-excel$/, permission: 'gifts:bulk' },
+  {
+    method: 'put',
+    pattern: /^\/api\/gift-status$/,
+    permission: 'gifts:update_status',
+    escalate: { when: body => body?.force === true, permission: 'gifts:force_status' }
+  },
+  { method: 'post', pattern: /^\/api\/verify-gift$/, permission: 'gifts:verify' },
+  { method: 'post', pattern: /^\/api\/email-config(\/test)?$/, permission: 'config:email' },
+  { method: 'post', pattern: /^\/api\/fulfillment-config(\/test)?$/, permission: 'config:fulfillment' }
+];
+
+// Mutating endpoints every signed-in role may call on its own account
+const SELF_SERVICE_ENDPOINTS: Array<{ method: string; pattern: RegExp }> = [
+  { method: 'put', pattern: /^\/api\/user\/profile$/ }
+];
+
+// Accounts created before roles existed have none and keep full access;
+// an unrecognized role gets the least privilege
+export function resolveRole(userInfo: Pick<UserInfo, 'role'> | null | undefined): Role {
+  const role = userInfo?.role?.trim().toLowerCase();
+  if (!role) return 'admin';
+  return ROLES.includes(role as Role) ? role as Role : 'viewer';
+}
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function canViewSection(role: Role, section: AppSection): boolean {
+  return hasPermission(role, SECTION_PERMISSIONS[section]);
+}
+
+// Helper function to read a request body that may still be serialized JSON
+const parseBody = (body: unknown): unknown => {
+  if (typeof body !== 'string') return body;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return null;
+  }
+};
+
+// Permission a request needs, or null when any signed-in role may make it.
+// Mutating endpoints not listed above need account management rights. Pass
+// the body so requests it escalates (forced status changes) are caught.
+export function requiredPermission(method: string | undefined, path: string, body?: unknown): Permission | null {
+  const normalizedMethod = (method || 'get').toLowerCase();
+  const normalizedPath = path.split('?')[0].replace(/\/+$/, '');
+  const match = ENDPOINT_PERMISSIONS.find(rule => rule.method === normalizedMethod && rule.pattern.test(normalizedPath));
+  if (match) {
+    return match.escalate?.when(parseBody(body)) ? match.escalate.permission : match.permission;
+  }
+  if (SELF_SERVICE_ENDPOINTS.some(rule => rule.method === normalizedMethod && rule.pattern.test(normalizedPath))) return null;
+  return ['get', 'head', 'options'].includes(normalizedMethod) ? null : 'account:manage';
+}
@@ -0,0 +1,220 @@
+// Client-side query cache shared by every section. Entries are keyed by
+// arrays (e.g. ['gifts', 'all']) so related data can be invalidated by prefix.
+
+export type QueryKey = readonly unknown[];
+
+export interface QueryState<T> {
+  data?: T;
+  error?: unknown;
+  updatedAt: number;
+  isFetching: boolean;
+}
+
+interface CacheEntry {
+  key: QueryKey;
+  data?: unknown;
+  error?: unknown;
+  updatedAt: number;
+  isInvalidated: boolean;
+  // Bumped by invalidate() so a fetch started before it is discarded
+  generation: number;
+  promise: Promise<unknown> | null;
+  fetcher?: () => Promise<unknown>;
+}
+
+export const DEFAULT_STALE_TIME = 30000; // 30 seconds
+
+// Query key factories, so sections and mutations agree on keys
+export const queryKeys = {
+  gifts: ['gifts'] as const,
+  allGifts: ['gifts', 'all'] as const,
+  giftPage: (query: unknown) => ['gifts', 'page', query] as const,
+  campaignGifts: (campaignId: string) => ['gifts', 'campaign', campaignId] as const,
+  giftStatus: (giftId: string) => ['gifts', 'status', giftId] as const,
+  giftDetail: (giftId: string) => ['gifts', 'detail', giftId] as const,
+  config: ['config'] as const,
+  emailConfig: ['config', 'email'] as const,
+  fulfillmentConfig: ['config', 'fulfillment'] as const,
+  userProfile: ['user', 'profile'] as const,
+  apiKeys: ['apiKeys'] as const,
+  teamMembers: ['team', 'members'] as const
+};
+
+// Each scope (one per signed-in account) has its own entries, so switching
+// accounts never shows another account's data. A request still in flight
+// when the scope changes writes its result into the scope it started in.
+const scopes = new Map<string, Map<string, CacheEntry>>();
+let currentScope = '';
+let entries = new Map<string, CacheEntry>();
+scopes.set(currentScope, entries);
+const listeners = new Map<string, Set<() => void>>();
+
+const hashKey = (key: QueryKey): string => JSON.stringify(key);
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey): boolean =>
+  prefix.length <= key.length && prefix.every((part, index) => hashKey([part]) === hashKey([key[index]]));
+
+const notify = (hash: string) => {
+  listeners.get(hash)?.forEach(listener => listener());
+};
+
+const notifyAll = () => {
+  listeners.forEach(set => set.forEach(listener => listener()));
+};
+
+const getEntry = (key: QueryKey): CacheEntry => {
+  const hash = hashKey(key);
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = { key, updatedAt: 0, isInvalidated: false, generation: 0, promise: null };
+    entries.set(hash, entry);
+  }
+  return entry;
+};
+
+export const queryCache = {
+  getState<T>(key: QueryKey): QueryState<T> | undefined {
+    const entry = entries.get(hashKey(key));
+    if (!entry) return undefined;
+    return {
+      data: entry.data as T | undefined,
+      error: entry.error,
+      updatedAt: entry.updatedAt,
+      isFetching: entry.promise !== null
+    };
+  },
+
+  isStale(key: QueryKey, staleTime: number = DEFAULT_STALE_TIME): boolean {
+    const entry = entries.get(hashKey(key));
+    if (!entry || entry.data === undefined || entry.isInvalidated) return true;
+    return Date.now() - entry.updatedAt > staleTime;
+  },
+
+  // Fetch through the cache. Concurrent calls for the same key share one
+  // request. A request superseded by invalidate() doesn't touch the entry;
+  // its callers get the result of the fetch that replaced it instead.
+  fetch<T>(key: QueryKey, fetcher: () => Promise<T>): Promise<T> {
+    const hash = hashKey(key);
+    const entry = getEntry(key);
+    entry.fetcher = fetcher;
+
+    if (entry.promise) {
+      return entry.promise as Promise<T>;
+    }
+
+    const generation = entry.generation;
+    const promise: Promise<T> = fetcher().then(
+      data => {
+        if (entry.generation !== generation) {
+          if (entry.promise) return entry.promise as Promise<T>;
+          // Data from the replacing fetch if it already finished
+          return entry.isInvalidated ? data : entry.data as T;
+        }
+        entry.data = data;
+        entry.error = undefined;
+        entry.updatedAt = Date.now();
+        entry.isInvalidated = false;
+        entry.promise = null;
+        notify(hash);
+        return data;
+      },
+      error => {
+        if (entry.generation !== generation) {
+          if (entry.promise) return entry.promise as Promise<T>;
+          throw error;
+        }
+        entry.error = error;
+        entry.promise = null;
+        notify(hash);
+        throw error;
+      }
+    );
+
+    entry.promise = promise;
+    notify(hash);
+    return promise;
+  },
+
+  // Return fresh cached data, or fetch it
+  async ensure<T>(key: QueryKey, fetcher: () => Promise<T>, staleTime: number = DEFAULT_STALE_TIME): Promise<T> {
+    if (!this.isStale(key, staleTime)) {
+      return this.getState<T>(key)!.data as T;
+    }
+    return this.fetch(key, fetcher);
+  },
+
+  setData<T>(key: QueryKey, updater: T | ((previous: T | undefined) => T)) {
+    const entry = getEntry(key);
+    entry.data = typeof updater === 'function'
+      ? (updater as (previous: T | undefined) => T)(entry.data as T | undefined)
+      : updater;
+    entry.error = undefined;
+    entry.updatedAt = Date.now();
+    notify(hashKey(key));
+  },
+
+  // Patch cached data for every key under a prefix (e.g. all gift lists)
+  updateMatching<T>(prefix: QueryKey, updater: (data: T) => T) {
+    entries.forEach((entry, hash) => {
+      if (entry.data !== undefined && matchesPrefix(entry.key, prefix)) {
+        entry.data = updater(entry.data as T);
+        notify(hash);
+      }
+    });
+  },
+
+  // Mark entries stale; those currently on screen refetch in the background.
+  // A fetch already in flight may have read the data before the change, so
+  // its result is discarded rather than shared.
+  invalidate(prefix: QueryKey) {
+    entries.forEach((entry, hash) => {
+      if (!matchesPrefix(entry.key, prefix)) return;
+      entry.isInvalidated = true;
+      entry.generation += 1;
+      entry.promise = null;
+      if (entry.fetcher && (listeners.get(hash)?.size ?? 0) > 0) {
+        this.fetch(entry.key, entry.fetcher).catch(() => {
+          // Surfaced to subscribers through the entry's error
+        });
+      }
+    });
+  },
+
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const hash = hashKey(key);
+    if (!listeners.has(hash)) {
+      listeners.set(hash, new Set());
+    }
+    listeners.get(hash)!.add(listener);
+    return () => {
+      listeners.get(hash)?.delete(listener);
+    };
+  },
+
+  // Switch to another scope's entries; subscribers re-read and refetch
+  setScope(scope: string) {
+    if (scope === currentScope) return;
+    currentScope = scope;
+    entries = scopes.get(scope) ?? new Map<string, CacheEntry>();
+    scopes.set(scope, entries);
+    notifyAll();
+  },
+
+  // Forget a scope's data, e.g. when its account is removed
+  removeScope(scope: string) {
+    scopes.delete(scope);
+    if (scope === currentScope) {
+      entries = new Map<string, CacheEntry>();
+      scopes.set(scope, entries);
+      notifyAll();
+    }
+  },
+
+  // Drop everything in every scope, e.g. on logout or when switching environment
+  clear() {
+    scopes.clear();
+    entries = new Map<string, CacheEntry>();
+    scopes.set(currentScope, entries);
+    notifyAll();
+  }
+};
@@ -0,0 +1,289 @@
+import axios, { AxiosError, AxiosHeaders, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+// In-memory log of every request made through the axios instances, for the
+// API Console section. Secrets (auth headers, and key, password and token
+// fields anywhere in a body) are redacted when an entry is recorded.
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    requestLogId?: string;
+  }
+}
+
+export type RequestLogSource = 'api' | 'publicApi' | 'axios';
+
+export interface RequestLogEntry {
+  id: string;
+  source: RequestLogSource;
+  method: string;
+  url: string;
+  requestHeaders: Record<string, string>;
+  requestBody: unknown;
+  status: number | null;
+  responseHeaders: Record<string, string>;
+  responseBody: unknown;
+  error?: string;
+  startedAt: number;
+  durationMs: number | null;
+  retryAttempt: number;
+  // The request body had secret fields, so the stored copy can't be replayed
+  hasRedactedBody: boolean;
+  // Original request for replaying (secret fields redacted); never rendered
+  replayConfig: {
+    method?: string;
+    url?: string;
+    params?: unknown;
+    data?: unknown;
+    headers: Record<string, string>;
+  };
+}
+
+const MAX_ENTRIES = 200;
+const REDACTED = '[REDACTED]';
+const REDACTED_HEADERS = ['x-api-key', 'authorization', 'cookie'];
+// Body fields holding credentials, e.g. api_key, resend_api_key, apiKey,
+// password, access_token
+const SECRET_FIELD_PATTERN = /(api_?key|password|secret|token)$/i;
+
+let entries: RequestLogEntry[] = [];
+const listeners = new Set<(entries: RequestLogEntry[]) => void>();
+const instances: Partial<Record<RequestLogSource, AxiosInstance>> = {};
+let nextId = 1;
+
+const notify = () => {
+  listeners.forEach(listener => listener(entries));
+};
+
+const updateEntry = (id: string | undefined, patch: Partial<RequestLogEntry>) => {
+  if (!id) return;
+  entries = entries.map(entry => entry.id === id ? { ...entry, ...patch } : entry);
+  notify();
+};
+
+const toPlainHeaders = (headers: unknown): Record<string, string> => {
+  const plain: Record<string, string> = {};
+  Object.entries(AxiosHeaders.from(headers as any).toJSON()).forEach(([name, value]) => {
+    if (value !== undefined && value !== null && value !== false) {
+      plain[name] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  });
+  return plain;
+};
+
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  Object.entries(headers).forEach(([name, value]) => {
+    redacted[name] = REDACTED_HEADERS.includes(name.toLowerCase()) ? REDACTED : value;
+  });
+  return redacted;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+const isSecretField = (name: string, value: unknown) =>
+  SECRET_FIELD_PATTERN.test(name) && value !== undefined && value !== null && value !== '';
+
+export function containsSecrets(value: unknown): boolean {
+  if (Array.isArray(value)) return value.some(containsSecrets);
+  if (!isPlainObject(value)) return false;
+  return Object.entries(value).some(([name, field]) => isSecretField(name, field) || containsSecrets(field));
+}
+
+// Copy of a body with every secret field, at any depth, replaced
+export function redactSecrets<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(redactSecrets) as T;
+  if (!isPlainObject(value)) return value;
+  return Object.entries(value).reduce((redacted, [name, field]) => ({
+    ...redacted,
+    [name]: isSecretField(name, field) ? REDACTED : redactSecrets(field)
+  }), {} as Record<string, unknown>) as T;
+}
+
+// Helper function to turn request/response bodies into something displayable
+const describeBody = (data: unknown): unknown => {
+  if (data === undefined || data === null || data === '') return null;
+  if (typeof FormData !== 'undefined' && data instanceof FormData) {
+    const fields: Record<string, string> = {};
+    data.forEach((value, key) => {
+      fields[key] = typeof value === 'string' ? value : `<file ${(value as File).name || 'blob'} (${value.size} bytes)>`;
+    });
+    return fields;
+  }
+  if (typeof Blob !== 'undefined' && data instanceof Blob) {
+    return `<${data.type || 'binary'} (${data.size} bytes)>`;
+  }
+  if (data instanceof ArrayBuffer) {
+    return `<binary (${data.byteLength} bytes)>`;
+  }
+  if (typeof data === 'string') {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return data;
+    }
+  }
+  return data;
+};
+
+const describeRedactedBody = (data: unknown): unknown => redactSecrets(describeBody(data));
+
+// Helper function to redact the request kept for replaying, in the form it
+// was sent (object, JSON string or FormData)
+const redactReplayData = (data: unknown): unknown => {
+  if (typeof FormData !== 'undefined' && data instanceof FormData) {
+    let hasSecrets = false;
+    const redacted = new FormData();
+    data.forEach((value, key) => {
+      const isSecret = typeof value === 'string' && isSecretField(key, value);
+      hasSecrets = hasSecrets || isSecret;
+      redacted.append(key, isSecret ? REDACTED : value);
+    });
+    return hasSecrets ? redacted : data;
+  }
+  if (typeof data === 'string') {
+    const parsed = describeBody(data);
+    return containsSecrets(parsed) ? JSON.stringify(redactSecrets(parsed)) : data;
+  }
+  return redactSecrets(data);
+};
+
+const recordRequest = (source: RequestLogSource, instance: AxiosInstance) => (config: InternalAxiosRequestConfig) => {
+  const id = String(nextId++);
+  const headers = toPlainHeaders(config.headers);
+  const entry: RequestLogEntry = {
+    id,
+    source,
+    method: (config.method || 'get').toUpperCase(),
+    url: instance.getUri(config),
+    requestHeaders: redactHeaders(headers),
+    requestBody: describeRedactedBody(config.data),
+    status: null,
+    responseHeaders: {},
+    responseBody: null,
+    startedAt: Date.now(),
+    durationMs: null,
+    retryAttempt: config.retryAttempt ?? 0,
+    hasRedactedBody: containsSecrets(describeBody(config.data)),
+    replayConfig: {
+      method: config.method,
+      url: config.url,
+      params: config.params,
+      data: redactReplayData(config.data),
+      // The API key is re-added by the instance when replaying
+      headers: Object.keys(headers)
+        .filter(name => !REDACTED_HEADERS.includes(name.toLowerCase()))
+        .reduce((kept, name) => ({ ...kept, [name]: headers[name] }), {} as Record<string, string>)
+    }
+  };
+
+  config.requestLogId = id;
+  entries = [entry, ...entries].slice(0, MAX_ENTRIES);
+  notify();
+  return config;
+};
+
+const recordResponse = (response: AxiosResponse) => {
+  const id = response.config?.requestLogId;
+  const entry = entries.find(candidate => candidate.id === id);
+  updateEntry(id, {
+    status: response.status,
+    responseHeaders: toPlainHeaders(response.headers),
+    responseBody: describeRedactedBody(response.data),
+    durationMs: entry ? Date.now() - entry.startedAt : null
+  });
+  return response;
+};
+
+const recordError = (error: AxiosError) => {
+  const id = error.config?.requestLogId;
+  const entry = entries.find(candidate => candidate.id === id);
+  updateEntry(id, {
+    status: error.response?.status ?? null,
+    responseHeaders: error.response ? toPlainHeaders(error.response.headers) : {},
+    responseBody: describeRedactedBody(error.response?.data),
+    error: error.message,
+    durationMs: entry ? Date.now() - entry.startedAt : null
+  });
+  return Promise.reject(error);
+};
+
+// Attach logging interceptors. Call before adding other interceptors: request
+// interceptors run in reverse order, so the logger sees the final headers.
+export function attachRequestLog(instance: AxiosInstance, source: RequestLogSource) {
+  instances[source] = instance;
+  instance.interceptors.request.use(recordRequest(source, instance));
+  instance.interceptors.response.use(recordResponse, recordError);
+}
+
+// Calls made with the global axios object outside of apiService
+attachRequestLog(axios, 'axios');
+
+export function getRequestLog(): RequestLogEntry[] {
+  return entries;
+}
+
+export function subscribeRequestLog(listener: (entries: RequestLogEntry[]) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function clearRequestLog() {
+  entries = [];
+  notify();
+}
+
+// Send the same request again through the instance that made it. The replay
+// shows up as a new entry; errors are left to the caller. Requests whose
+// body had secrets are refused, as the log only kept the redacted copy.
+export function replayRequest(entry: RequestLogEntry): Promise<AxiosResponse> {
+  if (entry.hasRedactedBody) {
+    return Promise.reject(new Error('This request contained secrets, which are not kept in the log'));
+  }
+  const instance = instances[entry.source] ?? axios;
+  const { method, url, params, data, headers } = entry.replayConfig;
+  return instance.request({ method, url, params, data, headers, retry: false });
+}
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+// Build a curl command reproducing the request. The API key is read from
+// $GIFTLIB_API_KEY and secret body fields stay redacted, so the command can
+// be shared safely.
+export function toCurlCommand(entry: RequestLogEntry): string {
+  const parts = [`curl -X ${entry.method} ${shellQuote(entry.url)}`];
+  const isMultipart = typeof FormData !== 'undefined' && entry.replayConfig.data instanceof FormData;
+  const hasContentType = Object.keys(entry.requestHeaders).some(name => name.toLowerCase() === 'content-type');
+
+  Object.entries(entry.requestHeaders).forEach(([name, value]) => {
+    // curl sets its own multipart boundary
+    if (isMultipart && name.toLowerCase() === 'content-type') return;
+    if (value === REDACTED) {
+      parts.push(`-H "${name}: $GIFTLIB_API_KEY"`);
+    } else {
+      parts.push(`-H ${shellQuote(`${name}: ${value}`)}`);
+    }
+  });
+
+  if (isMultipart) {
+    (entry.replayConfig.data as FormData).forEach((value, key) => {
+      parts.push(typeof value === 'string'
+        ? `-F ${shellQuote(`${key}=${value}`)}`
+        : `-F ${shellQuote(`${key}=@${(value as File).name || 'file'}`)}`);
+    });
+  } else if (entry.requestBody !== null) {
+    const isJson = typeof entry.requestBody !== 'string';
+    if (isJson && !hasContentType) {
+      parts.push(`-H ${shellQuote('Content-Type: application/json')}`);
+    }
+    const body = isJson ? JSON.stringify(entry.requestBody) : entry.requestBody as string;
+    parts.push(`--data-raw ${shellQuote(body)}`);
+  }
+
+  return parts.join(' \\\n  ');
+}
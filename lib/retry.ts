@@ -0,0 +1,128 @@
+import { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryOnStatus: number[];
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // true/false forces retrying on or off; an object overrides the defaults
+    retry?: boolean | Partial<RetryOptions>;
+    retryAttempt?: number;
+  }
+}
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const SAFE_METHODS = ['get', 'head', 'options'];
+
+// Statuses that usually mean the free-tier host is still spinning up
+const COLD_START_STATUSES = [502, 503, 504];
+
+let defaultRetryOptions: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 20000,
+  retryOnStatus: [429, 502, 503, 504]
+};
+
+export function configureRetry(options: Partial<RetryOptions>) {
+  defaultRetryOptions = { ...defaultRetryOptions, ...options };
+}
+
+export function getRetryOptions(): RetryOptions {
+  return defaultRetryOptions;
+}
+
+const hasIdempotencyKey = (config: AxiosRequestConfig): boolean => {
+  const headers = config.headers as Record<string, unknown> | undefined;
+  return Boolean(headers?.[IDEMPOTENCY_KEY_HEADER] ?? headers?.[IDEMPOTENCY_KEY_HEADER.toLowerCase()]);
+};
+
+// Safe methods retry by default; anything else only with an idempotency key
+// or an explicit `retry` option on the request.
+const resolveRetryOptions = (
+  config: AxiosRequestConfig,
+  defaults: RetryOptions = defaultRetryOptions
+): RetryOptions | null => {
+  if (config.retry === false) return null;
+
+  const method = (config.method || 'get').toLowerCase();
+  const isRetryable = config.retry !== undefined || SAFE_METHODS.includes(method) || hasIdempotencyKey(config);
+  if (!isRetryable) return null;
+
+  return typeof config.retry === 'object'
+    ? { ...defaults, ...config.retry }
+    : defaults;
+};
+
+const isTimeoutOrNetworkError = (error: AxiosError): boolean =>
+  !error.response && error.code !== 'ERR_CANCELED';
+
+export function isColdStartError(error: AxiosError): boolean {
+  return isTimeoutOrNetworkError(error) || COLD_START_STATUSES.includes(error.response?.status ?? 0);
+}
+
+export function shouldRetry(error: AxiosError, defaults?: RetryOptions): boolean {
+  const config = error.config;
+  if (!config) return false;
+
+  const options = resolveRetryOptions(config, defaults);
+  if (!options) return false;
+  if ((config.retryAttempt ?? 0) >= options.retries) return false;
+
+  return isTimeoutOrNetworkError(error) || options.retryOnStatus.includes(error.response?.status ?? 0);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (response?: AxiosResponse): number | null => {
+  const header = response?.headers?.['retry-after'];
+  if (header === undefined || header === null) return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Exponential backoff with full jitter, unless the server told us how long to wait
+export function getRetryDelay(error: AxiosError, attempt: number, options: RetryOptions = defaultRetryOptions): number {
+  const status = error.response?.status;
+  if (status === 429 || status === 503) {
+    const retryAfter = parseRetryAfter(error.response);
+    if (retryAfter !== null) return Math.min(retryAfter, options.maxDelayMs);
+  }
+
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * exponential);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface RetryAttempt {
+  attempt: number;
+  delayMs: number;
+  coldStart: boolean;
+}
+
+// Replay a failed request through the same instance so it passes through
+// every interceptor again (auth header, base URL, error handling).
+export async function retryRequest(
+  instance: AxiosInstance,
+  error: AxiosError,
+  { defaults, onRetry }: { defaults?: RetryOptions; onRetry?: (retry: RetryAttempt) => void } = {}
+): Promise<AxiosResponse> {
+  const config = error.config!;
+  const options = resolveRetryOptions(config, defaults) ?? defaults ?? defaultRetryOptions;
+  const attempt = config.retryAttempt ?? 0;
+  const delayMs = getRetryDelay(error, attempt, options);
+
+  onRetry?.({ attempt: attempt + 1, delayMs, coldStart: isColdStartError(error) });
+
+  await sleep(delayMs);
+  return instance.request({ ...config, retryAttempt: attempt + 1 });
+}
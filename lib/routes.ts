@@ -0,0 +1,33 @@
+import { AppSection } from '@/types';
+
+// URL of each dashboard section under app/(dashboard). /api belongs to the
+// route handlers, so the API Status section lives at /api-status.
+export const SECTION_PATHS: Record<AppSection, string> = {
+  initiate: '/initiate',
+  management: '/gifts',
+  statistics: '/statistics',
+  bulk: '/bulk',
+  excel: '/excel',
+  campaign: '/campaigns',
+  status: '/gift-status',
+  mock: '/mock-verification',
+  email: '/email',
+  fulfillment: '/fulfillment',
+  api: '/api-status',
+  console: '/console',
+  keys: '/keys',
+  team: '/team',
+  profile: '/profile'
+};
+
+// Section shown at a pathname, or null for / and unknown paths
+export function sectionForPath(pathname: string): AppSection | null {
+  const path = pathname.replace(/\/+$/, '') || '/';
+  const match = (Object.keys(SECTION_PATHS) as AppSection[]).find(section => SECTION_PATHS[section] === path);
+  return match ?? null;
+}
+
+// Comma-separated list params such as ?selected=gift_1,gift_2
+export function parseListParam(value: string | null): string[] {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+}
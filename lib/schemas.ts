@@ -0,0 +1,456 @@
+import { z } from 'zod';
+import {
+  ApiKey,
+  ApiResponse,
+  BulkGiftResponse,
+  EmailConfigResponse,
+  ExcelUploadResult,
+  FulfillmentConfigResponse,
+  Gift,
+  GiftDetail,
+  GiftStatus,
+  HealthCheck,
+  InitiateGiftResponse,
+  IssuedApiKey,
+  RotatedApiKey,
+  SessionInfo,
+  TeamInvitation,
+  TeamMember,
+  UpdatedProfile,
+  User,
+  UserInfo
+} from '@/types';
+import { ApiError } from '@/lib/errors';
+
+// Schemas validate raw backend payloads and normalize legacy variants into
+// the canonical types from '@/types'. Output types are pinned so a schema
+// can never drift from the type the components consume.
+export type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+export const GIFT_STATUSES: GiftStatus[] = ['pending', 'verified', 'cancelled', 'dispatched', 'delivered', 'failed'];
+
+const giftStatusSchema = z.enum(['pending', 'verified', 'cancelled', 'dispatched', 'delivered', 'failed']);
+
+// Backend sends null for unset optional fields
+const optionalString = z.string().nullish().transform(value => value ?? undefined);
+
+// Gifts arrive either flat (recipient_name, gift_type, campaign_id) or in the
+// legacy nested shape (recipient.full_name, gift.type, meta.campaign_id)
+const senderAddressSchema = z.object({
+  line1: z.string(),
+  line2: optionalString,
+  city: z.string(),
+  state: z.string(),
+  zip: z.string(),
+  country: z.string().default('USA')
+});
+
+const optionalAddress = senderAddressSchema.nullish().transform(value => value ?? undefined);
+
+const initiatorSchema = z.object({
+  user_id: z.string(),
+  full_name: z.string().default(''),
+  email: optionalString
+});
+
+const rawRecipientSchema = z.object({
+  full_name: optionalString,
+  email: optionalString,
+  phone: optionalString
+}).passthrough();
+
+const rawGiftInfoSchema = z.object({ type: optionalString }).passthrough();
+
+const rawMetaSchema = z.object({ campaign_id: optionalString }).passthrough();
+
+const rawGiftSchema = z.object({
+  gift_id: z.string().min(1),
+  recipient_name: optionalString,
+  recipient_email: optionalString,
+  gift_type: optionalString,
+  status: giftStatusSchema,
+  campaign_id: optionalString,
+  verified: z.boolean().nullish(),
+  created_at: z.string(),
+  updated_at: optionalString,
+  recipient: rawRecipientSchema.nullish(),
+  gift: rawGiftInfoSchema.nullish(),
+  meta: rawMetaSchema.nullish(),
+  initiated_by: initiatorSchema.nullish(),
+  return_address: optionalAddress
+}).passthrough();
+
+type RawGift = z.infer<typeof rawGiftSchema>;
+
+// Helper function to require an email in either gift shape
+const requireRecipientEmail = (raw: RawGift, ctx: z.RefinementCtx) => {
+  if (!raw.recipient_email && !raw.recipient?.email) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['recipient_email'],
+      message: 'Missing in both recipient_email and recipient.email'
+    });
+  }
+};
+
+const normalizeGift = (raw: RawGift): Gift => {
+  const recipientName = raw.recipient_name ?? raw.recipient?.full_name ?? '';
+  const recipientEmail = raw.recipient_email ?? raw.recipient?.email ?? '';
+  const giftType = raw.gift_type ?? raw.gift?.type ?? '';
+  const campaignId = raw.campaign_id ?? raw.meta?.campaign_id ?? '';
+
+  return {
+    gift_id: raw.gift_id,
+    recipient_name: recipientName,
+    recipient_email: recipientEmail,
+    gift_type: giftType,
+    status: raw.status,
+    campaign_id: campaignId,
+    verified: raw.verified ?? false,
+    created_at: raw.created_at,
+    updated_at: raw.updated_at,
+    initiated_by: raw.initiated_by ?? undefined,
+    return_address: raw.return_address,
+    recipient: {
+      full_name: recipientName,
+      email: recipientEmail,
+      phone: raw.recipient?.phone
+    },
+    gift: { type: giftType },
+    meta: { campaign_id: campaignId }
+  };
+};
+
+export const giftSchema: Schema<Gift> = rawGiftSchema
+  .superRefine(requireRecipientEmail)
+  .transform(normalizeGift);
+
+const giftStatusEventSchema = z.object({
+  status: giftStatusSchema,
+  changed_at: z.string(),
+  notes: optionalString,
+  changed_by: initiatorSchema.nullish().transform(value => value ?? undefined),
+  forced: z.boolean().nullish().transform(value => value || undefined)
+});
+
+// The detail fields follow the same flat/nested split as the list fields
+const rawGiftDetailSchema = rawGiftSchema.extend({
+  recipient_address: optionalAddress,
+  template_id: optionalString,
+  message: optionalString,
+  delivery_date: optionalString,
+  order_source: optionalString,
+  verified_at: optionalString,
+  recipient: rawRecipientSchema.extend({ address: optionalAddress }).nullish(),
+  gift: rawGiftInfoSchema.extend({
+    template_id: optionalString,
+    message: optionalString,
+    delivery_date: optionalString
+  }).nullish(),
+  meta: rawMetaSchema.extend({ order_source: optionalString }).nullish(),
+  status_history: z.array(giftStatusEventSchema).nullish()
+});
+
+// Backends without a status history report the current status only
+export const giftDetailSchema: Schema<GiftDetail> = z.object({ gift: rawGiftDetailSchema })
+  .superRefine(({ gift }, ctx) => requireRecipientEmail(gift, ctx))
+  .transform(({ gift: raw }): GiftDetail => ({
+    ...normalizeGift(raw),
+    recipient_address: raw.recipient_address ?? raw.recipient?.address,
+    template_id: raw.template_id ?? raw.gift?.template_id,
+    message: raw.message ?? raw.gift?.message,
+    delivery_date: raw.delivery_date ?? raw.gift?.delivery_date,
+    order_source: raw.order_source ?? raw.meta?.order_source,
+    verified_at: raw.verified_at,
+    status_history: raw.status_history?.length
+      ? raw.status_history
+      : [{ status: raw.status, changed_at: raw.updated_at ?? raw.created_at }]
+  }));
+
+export const giftListSchema: Schema<{ success: boolean; gifts: Gift[] }> = z.object({
+  success: z.boolean().default(true),
+  gifts: z.array(giftSchema)
+});
+
+// Paginated gift list. Backends that only support `limit` ignore the query
+// and return the plain { success, gifts } shape, reported as paginated: false.
+export const giftPageResponseSchema: Schema<{
+  gifts: Gift[];
+  totalCount: number;
+  nextCursor: string | null;
+  paginated: boolean;
+}> = z.object({
+  gifts: z.array(giftSchema),
+  total_count: z.number().int().nonnegative().optional(),
+  totalCount: z.number().int().nonnegative().optional(),
+  next_cursor: optionalString,
+  nextCursor: optionalString
+}).transform(data => {
+  const totalCount = data.total_count ?? data.totalCount;
+  return {
+    gifts: data.gifts,
+    totalCount: totalCount ?? data.gifts.length,
+    nextCursor: data.next_cursor ?? data.nextCursor ?? null,
+    paginated: totalCount !== undefined
+  };
+});
+
+export const campaignGiftsSchema: Schema<{ success: boolean; totalGifts: number; gifts: Gift[] }> = z.object({
+  success: z.boolean().default(true),
+  totalGifts: z.number().int().nonnegative().optional(),
+  gifts: z.array(giftSchema)
+}).transform(data => ({
+  ...data,
+  totalGifts: data.totalGifts ?? data.gifts.length
+}));
+
+export const giftStatusResponseSchema: Schema<{ status: GiftStatus }> = z.object({
+  status: giftStatusSchema
+});
+
+export const initiateGiftResponseSchema: Schema<InitiateGiftResponse> = z.object({
+  giftId: optionalString,
+  gift_id: optionalString
+}).passthrough()
+  .refine(data => Boolean(data.giftId || data.gift_id), {
+    path: ['giftId'],
+    message: 'Missing in both giftId and gift_id'
+  })
+  .transform(data => ({ giftId: (data.giftId || data.gift_id) as string }));
+
+// Bulk results come back as either { successfulGifts, failedGifts, results }
+// or the older { successful_count, failed_count, gift_ids, errors }
+export const bulkGiftResponseSchema: Schema<BulkGiftResponse> = z.object({
+  success: z.boolean().default(true),
+  totalGifts: z.number().int().nonnegative().optional(),
+  successfulGifts: z.number().int().nonnegative().optional(),
+  successful_count: z.number().int().nonnegative().optional(),
+  failedGifts: z.number().int().nonnegative().optional(),
+  failed_count: z.number().int().nonnegative().optional(),
+  results: z.array(z.object({
+    success: z.boolean(),
+    giftId: optionalString,
+    gift_id: optionalString,
+    error: optionalString
+  })).default([]),
+  gift_ids: z.array(z.string()).optional(),
+  errors: z.array(z.string()).optional()
+}).transform((data): BulkGiftResponse => {
+  const results = data.results.map(result => ({
+    success: result.success,
+    giftId: result.giftId ?? result.gift_id,
+    error: result.error
+  }));
+  const giftIds = data.gift_ids
+    ?? results.filter(result => result.success && result.giftId).map(result => result.giftId as string);
+  const errors = data.errors
+    ?? results.filter(result => !result.success && result.error).map(result => result.error as string);
+  const successfulGifts = data.successfulGifts ?? data.successful_count ?? giftIds.length;
+  const failedGifts = data.failedGifts ?? data.failed_count ?? errors.length;
+
+  return {
+    success: data.success,
+    totalGifts: data.totalGifts ?? successfulGifts + failedGifts,
+    successfulGifts,
+    failedGifts,
+    results,
+    giftIds,
+    errors
+  };
+});
+
+// Excel upload counts have used three different naming schemes
+export const excelUploadResultSchema: Schema<ExcelUploadResult> = z.object({
+  success: z.boolean().default(true),
+  totalRows: z.number().int().nonnegative().optional(),
+  processedGifts: z.number().int().nonnegative().optional(),
+  successfulGifts: z.number().int().nonnegative().optional(),
+  successful_count: z.number().int().nonnegative().optional(),
+  invalidRows: z.number().int().nonnegative().optional(),
+  failedGifts: z.number().int().nonnegative().optional(),
+  failed_count: z.number().int().nonnegative().optional(),
+  giftIds: z.array(z.string()).optional(),
+  gift_ids: z.array(z.string()).optional(),
+  errors: z.array(z.union([
+    z.string(),
+    z.object({ row: z.number().optional(), error: z.string() }).transform(error =>
+      error.row !== undefined ? `Row ${error.row}: ${error.error}` : error.error
+    )
+  ])).default([])
+}).transform((data): ExcelUploadResult => {
+  const processedGifts = data.processedGifts ?? data.successfulGifts ?? data.successful_count ?? 0;
+  const invalidRows = data.invalidRows ?? data.failedGifts ?? data.failed_count ?? 0;
+
+  return {
+    success: data.success,
+    totalRows: data.totalRows ?? processedGifts + invalidRows,
+    processedGifts,
+    invalidRows,
+    giftIds: data.giftIds ?? data.gift_ids ?? [],
+    errors: data.errors
+  };
+});
+
+export const emailConfigResponseSchema: Schema<EmailConfigResponse> = z.object({
+  resend_configured: z.boolean().default(false),
+  from_email_configured: z.boolean().default(false),
+  sending_domain_configured: z.boolean().default(false),
+  from_email: optionalString,
+  sending_domain: optionalString,
+  is_custom_config: z.boolean().default(false),
+  email_enabled: z.boolean().default(false),
+  resend_api_key: optionalString
+});
+
+export const fulfillmentConfigResponseSchema: Schema<FulfillmentConfigResponse> = z.object({
+  api_url: optionalString,
+  api_key: optionalString,
+  configured: z.boolean().optional()
+}).passthrough().transform(data => ({
+  api_url: data.api_url ?? '',
+  api_key: data.api_key ?? '',
+  configured: data.configured ?? Boolean(data.api_url && data.api_key)
+}));
+
+// The profile endpoint omits the API key; sign-up must return it
+export const userSchema: Schema<User> = z.object({
+  user_id: z.string().min(1),
+  email: z.string(),
+  full_name: z.string(),
+  company_name: optionalString,
+  api_key: z.string().default(''),
+  created_at: z.string().default(''),
+  username: optionalString,
+  role: optionalString,
+  phone_number: optionalString,
+  address: optionalAddress
+});
+
+export const createdUserSchema: Schema<User> = userSchema.refine(user => user.api_key.length > 0, {
+  path: ['api_key'],
+  message: 'New accounts must include an API key'
+});
+
+export const teamMemberSchema: Schema<TeamMember> = z.object({
+  member_id: z.string().min(1),
+  email: z.string(),
+  full_name: z.string().default(''),
+  role: z.string().default('viewer'),
+  status: z.enum(['active', 'invited']).default('active'),
+  invited_at: z.string().nullable().optional(),
+  joined_at: z.string().nullable().optional(),
+  last_active_at: z.string().nullable().optional(),
+  is_current: z.boolean().default(false)
+});
+
+export const teamMemberListSchema: Schema<{ success: boolean; members: TeamMember[] }> = z.object({
+  success: z.boolean().default(true),
+  members: z.array(teamMemberSchema)
+});
+
+export const teamInvitationSchema: Schema<TeamInvitation> = z.object({
+  member: teamMemberSchema,
+  invite_token: z.string().min(1)
+});
+
+export const apiKeySchema: Schema<ApiKey> = z.object({
+  key_id: z.string().min(1),
+  name: z.string().default(''),
+  masked_key: z.string(),
+  scopes: z.array(z.enum(['read', 'send', 'configure'])).default(['read', 'send', 'configure']),
+  created_at: z.string().default(''),
+  last_used_at: z.string().nullable().optional(),
+  expires_at: z.string().nullable().optional(),
+  revoked_at: z.string().nullable().optional(),
+  is_current: z.boolean().default(false)
+});
+
+export const apiKeyListSchema: Schema<{ success: boolean; keys: ApiKey[] }> = z.object({
+  success: z.boolean().default(true),
+  keys: z.array(apiKeySchema)
+});
+
+// Issuing a key must return its full value, since it is never shown again
+export const issuedApiKeySchema: Schema<IssuedApiKey> = z.object({
+  key: apiKeySchema,
+  api_key: z.string().min(1)
+});
+
+// Generic acknowledgement returned by mutations (status updates, config saves, tests)
+export const mutationResultSchema: Schema<ApiResponse> = z.object({
+  success: z.boolean().default(true),
+  data: z.any().optional(),
+  message: optionalString,
+  error: optionalString
+}).passthrough();
+
+const serviceStatusSchema = z.object({
+  status: z.string(),
+  response_time: z.number().optional(),
+  provider: optionalString
+});
+
+export const healthCheckSchema: Schema<HealthCheck> = z.object({
+  status: z.string().default('ok'),
+  timestamp: z.string().default(() => new Date().toISOString()),
+  version: optionalString,
+  uptime: z.number().optional(),
+  database: serviceStatusSchema.optional(),
+  email_service: serviceStatusSchema.optional(),
+  fulfillment_service: serviceStatusSchema.optional()
+});
+
+const userInfoSchema: Schema<UserInfo> = z.object({
+  user_id: z.string().min(1),
+  email: z.string(),
+  full_name: z.string(),
+  company_name: optionalString,
+  username: optionalString,
+  role: optionalString
+});
+
+// Session returned by the Next.js session route (never includes the API key)
+export const sessionInfoSchema: Schema<SessionInfo> = z.object({
+  accounts: z.array(z.object({
+    accountId: z.string().min(1),
+    userInfo: userInfoSchema,
+    maskedApiKey: z.string()
+  })).min(1),
+  activeAccountId: z.string().min(1),
+  environment: z.enum(['mock', 'local', 'sandbox', 'staging', 'production']),
+  expiresAt: z.string().nullable(),
+  locked: z.boolean().optional()
+});
+
+export const rotatedApiKeySchema: Schema<RotatedApiKey> = z.object({
+  key: apiKeySchema,
+  api_key: z.string().min(1),
+  session: sessionInfoSchema
+});
+
+export const updatedProfileSchema: Schema<UpdatedProfile> = z.object({
+  profile: userInfoSchema,
+  session: sessionInfoSchema
+});
+
+// Validate a response body, throwing an ApiError that lists every offending
+// field when the backend does not match the contract
+export function parseResponse<T>(schema: Schema<T>, data: unknown, operation: string): T {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return result.data;
+  }
+
+  const fieldErrors = result.error.issues.map(issue => ({
+    field: issue.path.join('.') || '(root)',
+    message: issue.message,
+    type: issue.code
+  }));
+
+  // The payload is left out: profile, key and settings responses carry secrets
+  console.error(`Backend contract mismatch in ${operation}:`, fieldErrors);
+  throw new ApiError(
+    `Backend contract mismatch in ${operation}: ${fieldErrors.map(error => error.field).join(', ')}`,
+    { code: 'contract_mismatch', fieldErrors }
+  );
+}
@@ -0,0 +1,254 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { EnvironmentId, SessionInfo, UserInfo } from '@/types';
+import {
+  PROXY_ACCOUNT_HEADER,
+  PROXY_ENVIRONMENT_HEADER,
+  getEnvironmentProfile,
+  getEnvironmentStorageKey,
+  isEnvironmentId
+} from '@/lib/environments';
+import { maskApiKey } from '@/lib/utils';
+
+// Encrypted, httpOnly session cookies for the /api proxy. Server-only: the
+// cookie holds the raw API key, sealed with AES-256-GCM under
+// GIFTLIB_SESSION_SECRET, so the browser can neither read nor forge it.
+
+export interface ServerAccount {
+  apiKey: string;
+  userInfo: UserInfo;
+  addedAt: number;
+}
+
+export interface ServerSession {
+  baseUrl: string;
+  environment: EnvironmentId;
+  accounts: ServerAccount[];
+  activeAccountId: string;
+  issuedAt: number;
+  expiresAt: number;
+  // Set while the dashboard is locked (401 or idle timeout). The accounts
+  // stay saved, but nothing is proxied until one of their keys is entered again.
+  lockedAt?: number;
+}
+
+export type SessionLookup =
+  | { status: 'active' | 'locked'; session: ServerSession }
+  | { status: 'missing' | 'expired' | 'invalid' };
+
+const COOKIE_NAME = 'giftlib_session';
+const DEFAULT_TTL_SECONDS = 8 * 60 * 60;
+
+// Keeps the sealed cookie under the browser's 4 KB limit
+export const MAX_SESSION_ACCOUNTS = 8;
+
+export const SESSION_TTL_SECONDS = Number(process.env.GIFTLIB_SESSION_TTL_SECONDS) || DEFAULT_TTL_SECONDS;
+
+let devSecret: Buffer | null = null;
+
+// Helper function to derive the cookie encryption key. Without a configured
+// secret, development falls back to a per-process key (sessions end on restart).
+const getEncryptionKey = (): Buffer => {
+  const secret = process.env.GIFTLIB_SESSION_SECRET;
+  if (secret) {
+    return crypto.createHash('sha256').update(secret).digest();
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('GIFTLIB_SESSION_SECRET must be set to enable API sessions');
+  }
+  if (!devSecret) {
+    console.warn('GIFTLIB_SESSION_SECRET is not set; using a temporary session key');
+    devSecret = crypto.randomBytes(32);
+  }
+  return devSecret;
+};
+
+export function sealSession(session: ServerSession): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(session), 'utf8'), cipher.final()]);
+  return [iv, encrypted, cipher.getAuthTag()].map(part => part.toString('base64url')).join('.');
+}
+
+export function unsealSession(value: string): ServerSession | null {
+  try {
+    const [iv, encrypted, tag] = value.split('.').map(part => Buffer.from(part, 'base64url'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    const decrypted = Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+    return JSON.parse(decrypted) as ServerSession;
+  } catch {
+    return null;
+  }
+}
+
+// One cookie per environment, matching the per-environment storage keys
+export const sessionCookieName = (environment: EnvironmentId) => getEnvironmentStorageKey(COOKIE_NAME, environment);
+
+export function getRequestEnvironment(request: NextRequest, fallback?: unknown): EnvironmentId | null {
+  const requested = request.headers.get(PROXY_ENVIRONMENT_HEADER) ?? fallback;
+  return isEnvironmentId(requested) ? requested : null;
+}
+
+export function readSession(request: NextRequest, environment: EnvironmentId): SessionLookup {
+  const cookie = request.cookies.get(sessionCookieName(environment));
+  if (!cookie?.value) {
+    return { status: 'missing' };
+  }
+  const session = unsealSession(cookie.value);
+  if (!session || session.environment !== environment || !Array.isArray(session.accounts)) {
+    return { status: 'invalid' };
+  }
+  if (session.expiresAt <= Date.now()) {
+    return { status: 'expired' };
+  }
+  return { status: session.lockedAt ? 'locked' : 'active', session };
+}
+
+export function writeSession(response: NextResponse, session: ServerSession) {
+  response.cookies.set(sessionCookieName(session.environment), sealSession(session), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/api',
+    maxAge: Math.max(0, Math.floor((session.expiresAt - Date.now()) / 1000))
+  });
+}
+
+export function clearSession(response: NextResponse, environment: EnvironmentId) {
+  response.cookies.set(sessionCookieName(environment), '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/api',
+    maxAge: 0
+  });
+}
+
+// The account a request acts as: the one named in the account header, or
+// the session's active account. Null when the header names another account.
+export function resolveAccount(request: NextRequest, session: ServerSession): ServerAccount | null {
+  const accountId = request.headers.get(PROXY_ACCOUNT_HEADER) || session.activeAccountId;
+  return session.accounts.find(account => account.userInfo.user_id === accountId) ?? null;
+}
+
+// Add an account, replacing any saved entry for the same user, and make it active
+export function withAccount(session: ServerSession, account: ServerAccount): ServerSession {
+  const accountId = account.userInfo.user_id;
+  return {
+    ...session,
+    accounts: [...session.accounts.filter(existing => existing.userInfo.user_id !== accountId), account],
+    activeAccountId: accountId
+  };
+}
+
+// What the browser is allowed to know about a session
+export function toSessionInfo(session: ServerSession): SessionInfo {
+  return {
+    accounts: session.accounts.map(account => ({
+      accountId: account.userInfo.user_id,
+      userInfo: account.userInfo,
+      maskedApiKey: maskApiKey(account.apiKey)
+    })),
+    activeAccountId: session.activeAccountId,
+    environment: session.environment,
+    expiresAt: new Date(session.expiresAt).toISOString(),
+    locked: Boolean(session.lockedAt)
+  };
+}
+
+// The proxy only forwards to the environment's configured host or to
+// origins listed in GIFTLIB_PROXY_ALLOWED_ORIGINS (comma separated), so a
+// session can't be pointed at an arbitrary URL
+export function resolveUpstreamBaseUrl(environment: EnvironmentId, requestedBaseUrl?: unknown): string | null {
+  const profile = getEnvironmentProfile(environment);
+  if (profile.transport !== 'http') {
+    return null;
+  }
+  if (typeof requestedBaseUrl !== 'string' || !requestedBaseUrl.trim()) {
+    return profile.baseUrl;
+  }
+
+  const normalized = requestedBaseUrl.trim().replace(/\/+$/, '');
+  const allowed = (process.env.GIFTLIB_PROXY_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+  return normalized === profile.baseUrl || allowed.includes(normalized) ? normalized : null;
+}
+
+// FastAPI-style error body, so the browser's ApiError parsing applies unchanged
+export function errorResponse(status: number, detail: string, code?: string) {
+  return NextResponse.json(code ? { detail, code } : { detail }, { status });
+}
+
+// Body of POST /api/session
+export const createSessionRequestSchema = z.object({
+  apiKey: z.string({ required_error: 'API key is required' }).trim().min(1, 'API key is required'),
+  // Checked against the known profiles by getRequestEnvironment
+  environment: z.string().optional(),
+  baseUrl: z.string().optional(),
+  addAccount: z.boolean().optional(),
+  // Re-enter a saved account's key to unlock a locked session
+  unlock: z.boolean().optional()
+});
+
+// Body of PATCH /api/session
+export const switchAccountRequestSchema = z.object({
+  activeAccountId: z.string({ required_error: 'activeAccountId is required' }).min(1, 'activeAccountId is required')
+});
+
+// Body of PUT /api/session/profile. Only these fields are passed upstream.
+export const updateProfileRequestSchema = z.object({
+  full_name: z.string({ required_error: 'Full name is required' }).trim().min(1, 'Full name is required'),
+  company_name: z.string().trim().optional(),
+  phone_number: z.string().trim().optional(),
+  address: z.object({
+    line1: z.string().trim().min(1, 'Address line 1 is required'),
+    line2: z.string().trim().optional(),
+    city: z.string().trim().min(1, 'City is required'),
+    state: z.string().trim().min(1, 'State is required'),
+    zip: z.string().trim().min(1, 'ZIP code is required'),
+    country: z.string().trim().min(1).default('USA')
+  }).nullable().optional()
+});
+
+// Read and validate a route's JSON body. Returns the 400 response to send
+// when it is missing, not JSON or doesn't match the schema.
+export async function parseJsonBody<T>(
+  request: NextRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): Promise<{ body: T; response?: never } | { body?: never; response: NextResponse }> {
+  let raw: unknown;
+  try {
+    raw = await request.json();
+  } catch {
+    return { response: errorResponse(400, 'Expected a JSON body') };
+  }
+
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    // The schemas' own messages name the field; zod's wrong-type ones don't
+    const issue = result.error.issues[0];
+    const isWrongType = issue.code === 'invalid_type' && issue.received !== 'undefined';
+    const detail = isWrongType && issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+    return { response: errorResponse(400, detail, 'validation_error') };
+  }
+  return { body: result.data };
+}
+
+// 401 for a request without a usable session; bad or stale cookies are
+// dropped, locked ones kept for unlocking
+export function sessionErrorResponse(status: Exclude<SessionLookup['status'], 'active'>, environment: EnvironmentId) {
+  if (status === 'locked') {
+    return errorResponse(401, 'Session locked. Sign in again to continue.', 'session_locked');
+  }
+  const response = status === 'expired'
+    ? errorResponse(401, 'Session expired. Please login again.', 'session_expired')
+    : errorResponse(401, 'Not logged in', 'no_session');
+  if (status !== 'missing') {
+    clearSession(response, environment);
+  }
+  return response;
+}
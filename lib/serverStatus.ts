@@ -0,0 +1,34 @@
+// Tracks whether the backend looks like it is cold-starting so the UI can
+// show a "waking up" state instead of an error while requests are retried.
+
+export type ServerStatus = 'awake' | 'waking';
+
+type ServerStatusListener = (status: ServerStatus) => void;
+
+let currentStatus: ServerStatus = 'awake';
+const listeners = new Set<ServerStatusListener>();
+
+const setStatus = (status: ServerStatus) => {
+  if (status === currentStatus) return;
+  currentStatus = status;
+  listeners.forEach(listener => listener(status));
+};
+
+export function getServerStatus(): ServerStatus {
+  return currentStatus;
+}
+
+export function markServerWaking() {
+  setStatus('waking');
+}
+
+export function markServerAwake() {
+  setStatus('awake');
+}
+
+export function subscribeServerStatus(listener: ServerStatusListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,81 @@
+import { ApiError } from '@/lib/errors';
+import { getEnvironmentStorageKey } from '@/lib/environments';
+
+// Session lifecycle signals shared by the API layer, AuthContext and the
+// session dialogs: requests rejected with 401, login/logout in other tabs
+// (relayed through localStorage `storage` events) and user activity for the
+// idle timeout, which is also shared so any active tab keeps the others alive.
+
+const AUTH_EVENT_STORAGE_KEY = 'giftlib_auth_event';
+const LAST_ACTIVITY_STORAGE_KEY = 'giftlib_last_activity';
+
+// Minutes of inactivity before the session is ended; 0 disables the timeout
+export const IDLE_TIMEOUT_MS = (Number(process.env.NEXT_PUBLIC_GIFTLIB_IDLE_TIMEOUT_MINUTES ?? 30) || 0) * 60 * 1000;
+
+// How long the "Are you still there?" warning is shown before signing out
+export const IDLE_WARNING_MS = 60 * 1000;
+
+// Activity is written to localStorage at most this often
+const ACTIVITY_WRITE_INTERVAL_MS = 5000;
+
+// 'locked' blocks the session but keeps the page (and unsaved forms) so the
+// user can sign in again inline; 'logout' is an explicit sign-out
+export type AuthEventType = 'login' | 'logout' | 'locked';
+
+export interface AuthEvent {
+  type: AuthEventType;
+  at: number;
+}
+
+type SessionEndedListener = (error: ApiError) => void;
+
+const sessionEndedListeners = new Set<SessionEndedListener>();
+
+// Called by the API client for every authenticated request rejected with 401
+export function reportSessionEnded(error: ApiError) {
+  sessionEndedListeners.forEach(listener => listener(error));
+}
+
+export function subscribeSessionEnded(listener: SessionEndedListener): () => void {
+  sessionEndedListeners.add(listener);
+  return () => {
+    sessionEndedListeners.delete(listener);
+  };
+}
+
+// Tell the environment's other tabs about a login or logout. `storage`
+// events only fire in other tabs, so this tab never hears its own events.
+export function broadcastAuthEvent(type: AuthEventType) {
+  if (typeof window === 'undefined') return;
+  const event: AuthEvent = { type, at: Date.now() };
+  localStorage.setItem(getEnvironmentStorageKey(AUTH_EVENT_STORAGE_KEY), JSON.stringify(event));
+}
+
+export function subscribeAuthEvents(listener: (event: AuthEvent) => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== getEnvironmentStorageKey(AUTH_EVENT_STORAGE_KEY) || !event.newValue) return;
+    try {
+      listener(JSON.parse(event.newValue) as AuthEvent);
+    } catch {
+      // Ignore values not written by broadcastAuthEvent
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+}
+
+let lastActivityWrite = 0;
+
+// Pass force for deliberate actions (signing in, "Stay signed in") that must
+// reset the timer in every tab right away
+export function recordActivity(force = false) {
+  const now = Date.now();
+  if (!force && now - lastActivityWrite < ACTIVITY_WRITE_INTERVAL_MS) return;
+  lastActivityWrite = now;
+  localStorage.setItem(LAST_ACTIVITY_STORAGE_KEY, String(now));
+}
+
+// Last activity in any tab
+export function getLastActivity(): number {
+  return Number(localStorage.getItem(LAST_ACTIVITY_STORAGE_KEY)) || Date.now();
+}
@@ -1,6 +1,6 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
-import { GiftStatus } from '@/types';
+import { GiftStatus, SenderAddress, User, UserInfo } from '@/types';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -50,12 +50,46 @@ export function formatApiKey(apiKey: string): string {
   return `${apiKey.slice(0, 12)}...${apiKey.slice(-4)}`;
 }
 
+// Mask an API key for display without revealing enough to reuse it
+export function maskApiKey(apiKey: string): string {
+  if (!apiKey) return '';
+  if (apiKey.length <= 12) return `••••${apiKey.slice(-2)}`;
+  return `${apiKey.slice(0, 4)}••••${apiKey.slice(-4)}`;
+}
+
+// The parts of a user profile kept in a session (never the API key)
+export function toUserInfo(user: User): UserInfo {
+  return {
+    user_id: user.user_id,
+    email: user.email,
+    full_name: user.full_name,
+    company_name: user.company_name,
+    username: user.username,
+    role: user.role
+  };
+}
+
+// Format a sender address on one line, as printed on the card
+export function formatAddress(address: SenderAddress): string {
+  return [address.line1, address.line2, address.city, `${address.state} ${address.zip}`, address.country]
+    .filter(Boolean)
+    .join(', ');
+}
+
 // Validate email
 export function isValidEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
   return emailRegex.test(email);
 }
 
+// Generate a unique key identifying one logical submission
+export function generateIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
 // Generate sample bulk data
 export function generateSampleBulkData() {
   return {
@@ -128,6 +162,18 @@ export function downloadFile(blob: Blob, filename: string) {
   window.URL.revokeObjectURL(url);
 }
 
+// Build CSV text, quoting cells that contain commas, quotes or newlines
+export function toCsv(rows: Array<Array<string | number | boolean | null | undefined>>): string {
+  return rows
+    .map(row => row
+      .map(cell => {
+        const value = cell === null || cell === undefined ? '' : String(cell);
+        return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+      })
+      .join(','))
+    .join('\r\n');
+}
+
 // Calculate statistics from gifts array
 export function calculateStatistics(gifts: any[]) {
   const total = gifts.length;
@@ -6,16 +6,149 @@ export interface User {
   company_name?: string;
   api_key: string;
   created_at: string;
+  username?: string;
+  role?: string;
+  phone_number?: string;
+  address?: SenderAddress;
+}
+
+// Sender address on a user's profile, printed as the return address on
+// physical cards
+export interface SenderAddress {
+  line1: string;
+  line2?: string;
+  city: string;
+  state: string;
+  zip: string;
+  country: string;
+}
+
+export interface UpdateUserProfileRequest {
+  full_name: string;
+  company_name?: string;
+  phone_number?: string;
+  // null clears the saved address
+  address?: SenderAddress | null;
 }
 
 export interface UserInfo {
   email: string;
   user_id: string;
   full_name: string;
+  company_name?: string;
   username?: string;
   role?: string;
 }
 
+// Environment types
+export type EnvironmentId = 'mock' | 'local' | 'sandbox' | 'staging' | 'production';
+
+// 'mock' serves every request from the in-browser mock backend
+export type ApiTransport = 'http' | 'mock';
+
+export interface EnvironmentProfile {
+  id: EnvironmentId;
+  label: string;
+  baseUrl: string;
+  isProduction: boolean;
+  transport: ApiTransport;
+}
+
+// One account (GiftLib user + API key) saved in a session
+export interface SessionAccount {
+  // The account's user_id
+  accountId: string;
+  userInfo: UserInfo;
+  maskedApiKey: string;
+}
+
+// Login session as reported by the server; the raw API keys stay server-side
+export interface SessionInfo {
+  accounts: SessionAccount[];
+  activeAccountId: string;
+  environment: EnvironmentId;
+  // Null when the session has no server-side expiry (mock backend)
+  expiresAt: string | null;
+  // Locked after a 401 or idle timeout; the accounts stay saved until a key is entered again
+  locked?: boolean;
+}
+
+// Team types. Each member signs in with their own key; invitations show up
+// as members with status 'invited' until accepted.
+export type TeamMemberStatus = 'active' | 'invited';
+
+export interface TeamMember {
+  // The member's user_id, or the invitation id while invited
+  member_id: string;
+  email: string;
+  full_name: string;
+  role: string;
+  status: TeamMemberStatus;
+  invited_at?: string | null;
+  joined_at?: string | null;
+  last_active_at?: string | null;
+  // True for the member making the request
+  is_current: boolean;
+}
+
+export interface TeamInvitationRequest {
+  email: string;
+  role: string;
+}
+
+export interface TeamInvitation {
+  member: TeamMember;
+  // Sent to the invitee by email; accepting it issues their API key
+  invite_token: string;
+}
+
+export interface AcceptInvitationRequest {
+  token: string;
+  full_name: string;
+}
+
+// API keys. Scopes: 'read' for GET endpoints, 'send' for gift operations,
+// 'configure' for email/fulfillment settings and key management
+export type ApiKeyScope = 'read' | 'send' | 'configure';
+
+export interface ApiKey {
+  key_id: string;
+  name: string;
+  // Masked by the backend; the full key is only returned when it is issued
+  masked_key: string;
+  scopes: ApiKeyScope[];
+  created_at: string;
+  last_used_at?: string | null;
+  expires_at?: string | null;
+  revoked_at?: string | null;
+  // True for the key the request was made with
+  is_current: boolean;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  // ISO timestamp; null or omitted for a key that never expires
+  expires_at?: string | null;
+}
+
+// A newly issued (or rotated) key, the only time its full value is shown
+export interface IssuedApiKey {
+  key: ApiKey;
+  api_key: string;
+}
+
+// Rotating the signed-in key also returns the session now using the new key
+export interface RotatedApiKey extends IssuedApiKey {
+  session: SessionInfo;
+}
+
+// Saving the profile also returns the session with the updated user details
+export interface UpdatedProfile {
+  profile: UserInfo;
+  session: SessionInfo;
+}
+
 // Gift types
 export interface Address {
   line1: string;
@@ -39,6 +172,13 @@ export interface GiftData {
   deliveryDate: string;
 }
 
+// Team member who initiated a gift
+export interface GiftInitiator {
+  user_id: string;
+  full_name: string;
+  email?: string;
+}
+
 // Gift display interface for components
 export interface Gift {
   gift_id: string;
@@ -50,6 +190,10 @@ export interface Gift {
   verified: boolean;
   created_at: string;
   updated_at?: string;
+  // Missing on gifts created before teams
+  initiated_by?: GiftInitiator;
+  // Sender address printed on the card when the gift was created
+  return_address?: SenderAddress;
   // Nested structure for backward compatibility
   recipient: {
     full_name: string;
@@ -64,6 +208,29 @@ export interface Gift {
   };
 }
 
+// One entry in a gift's status timeline, oldest first
+export interface GiftStatusEvent {
+  status: GiftStatus;
+  changed_at: string;
+  // Notes sent with the status update (tracking numbers, failure reasons, ...)
+  notes?: string;
+  // Missing for changes made by the fulfillment pipeline
+  changed_by?: GiftInitiator;
+  // An admin overrode the transition rules
+  forced?: boolean;
+}
+
+// Everything recorded for a single gift, returned by GET /api/gifts/{id}
+export interface GiftDetail extends Gift {
+  recipient_address?: SenderAddress;
+  template_id?: string;
+  message?: string;
+  delivery_date?: string;
+  order_source?: string;
+  verified_at?: string;
+  status_history: GiftStatusEvent[];
+}
+
 export interface Meta {
   campaignId: string;
   orderSource: string;
@@ -75,6 +242,16 @@ export interface GiftDataRequest {
   meta: Meta;
 }
 
+export interface InitiateGiftResponse {
+  giftId: string;
+  // True when the backend replayed an earlier response for the same idempotency key
+  replayed?: boolean;
+}
+
+export interface MutationOptions {
+  idempotencyKey?: string;
+}
+
 export interface GiftResponse {
   gift_id: string;
   recipient_name: string;
@@ -98,6 +275,32 @@ export interface GiftResponse {
   };
 }
 
+// Gift list queries
+export type GiftSortField = 'created_at' | 'updated_at' | 'status' | 'recipient_name';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface GiftQuery {
+  status?: GiftStatus;
+  campaignId?: string;
+  search?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  sortBy?: GiftSortField;
+  sortDirection?: SortDirection;
+  pageSize?: number;
+  cursor?: string | null;
+}
+
+export interface GiftPage {
+  gifts: Gift[];
+  totalCount: number;
+  nextCursor: string | null;
+  pageSize: number;
+  // False when the backend ignored the query and the page was built client-side
+  serverPaginated: boolean;
+}
+
 // Bulk operations
 export interface BulkGiftData {
   gifts: GiftDataRequest[];
@@ -114,6 +317,19 @@ export interface BulkGiftResponse {
     giftId?: string;
     error?: string;
   }>;
+  giftIds: string[];
+  errors: string[];
+  replayed?: boolean;
+}
+
+// Excel upload result (normalized from the legacy count field names)
+export interface ExcelUploadResult {
+  success: boolean;
+  totalRows: number;
+  processedGifts: number;
+  invalidRows: number;
+  giftIds: string[];
+  errors: string[];
 }
 
 // Campaign types
@@ -129,7 +345,24 @@ export type GiftStatus = 'pending' | 'verified' | 'cancelled' | 'dispatched' | '
 export interface StatusUpdate {
   giftId: string;
   status: GiftStatus;
+  // Required when cancelling, failing or forcing a gift
   notes?: string;
+  // Admins only: skip the transition rules (see lib/giftStatus)
+  force?: boolean;
+}
+
+// Actions Gift Management can apply to many selected gifts at once
+export type BulkGiftAction =
+  | { type: 'status'; status: GiftStatus; notes?: string; force?: boolean }
+  | { type: 'verify' };
+
+// Outcome of a bulk action for one gift
+export interface BulkGiftResult {
+  giftId: string;
+  success: boolean;
+  error?: string;
+  // Left out before sending, because the action can't apply to the gift
+  skipped?: boolean;
 }
 
 // Email configuration
@@ -151,6 +384,36 @@ export interface EmailConfigResponse {
   resend_api_key?: string;
 }
 
+// Fulfillment configuration
+export interface FulfillmentConfig {
+  api_url: string;
+  api_key: string;
+}
+
+export interface FulfillmentConfigResponse extends FulfillmentConfig {
+  configured: boolean;
+}
+
+// Health check
+export interface HealthCheck {
+  status: string;
+  timestamp: string;
+  version?: string;
+  uptime?: number;
+  database?: {
+    status: string;
+    response_time?: number;
+  };
+  email_service?: {
+    status: string;
+    provider?: string;
+  };
+  fulfillment_service?: {
+    status: string;
+    provider?: string;
+  };
+}
+
 // API response types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -192,7 +455,48 @@ export interface LoginForm {
   api_key: string;
 }
 
+// Onboarding wizard shown after account creation
+export type OnboardingStep = 'api_key' | 'email' | 'fulfillment' | 'first_gift' | 'verify';
+
+export type OnboardingStepStatus = 'done' | 'skipped';
+
+export interface OnboardingProgress {
+  currentStep: OnboardingStep;
+  steps: Partial<Record<OnboardingStep, OnboardingStepStatus>>;
+  // Save and test both have to succeed before the config steps are done
+  checks: {
+    emailSaved?: boolean;
+    emailTested?: boolean;
+    fulfillmentSaved?: boolean;
+    fulfillmentTested?: boolean;
+  };
+  // Sandbox gift sent by the first_gift step and verified by the next one
+  giftId?: string;
+  // Hidden with "Finish later" until reopened from the sidebar
+  dismissed: boolean;
+  startedAt: string;
+  // Set once every step is done or skipped; the wizard then shows a summary
+  completedAt?: string;
+}
+
 // Navigation types
+export type AppSection =
+  | 'initiate'
+  | 'management'
+  | 'statistics'
+  | 'bulk'
+  | 'excel'
+  | 'campaign'
+  | 'status'
+  | 'mock'
+  | 'email'
+  | 'fulfillment'
+  | 'api'
+  | 'console'
+  | 'keys'
+  | 'team'
+  | 'profile';
+
 export type PageType = 
   | 'Gift Operations'
   | 'Gift Management'
@@ -202,7 +506,11 @@ export type PageType =
   | 'Mock Verification'
   | 'Email Configuration'
   | 'Fulfillment Configuration'
-  | 'API Status';
+  | 'API Status'
+  | 'API Console'
+  | 'API Keys'
+  | 'Team'
+  | 'Profile';
 
 // Loading states
 export interface LoadingState {
@@ -214,4 +522,25 @@ export interface LoadingState {
 export interface ErrorState {
   hasError: boolean;
   message?: string;
+}
+
+export type ApiErrorCode =
+  | 'network_error'
+  | 'timeout'
+  | 'bad_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'payload_too_large'
+  | 'validation_error'
+  | 'rate_limited'
+  | 'server_error'
+  | 'contract_mismatch'
+  | 'unknown';
+
+export interface FieldError {
+  field: string;
+  message: string;
+  type?: string;
 }
\ No newline at end of file